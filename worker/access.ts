@@ -0,0 +1,120 @@
+// access.ts — Slack user → Salesforce access checks shared by command jobs
+import { pool } from "./db";
+import type { ValidateUserResponse } from "./apex";
+import { translatorFor } from "./locale-settings";
+import { replyToResponseUrl, slack } from "./slack";
+
+// Email captured on first use and stored by the Vercel edge function
+export async function lookupSlackUserEmail(teamId: string, userId: string): Promise<string | null> {
+  const { rows } = await pool.query<{ email: string }>(
+    `SELECT email FROM slack_user_link WHERE slack_team_id = $1 AND slack_user_id = $2 LIMIT 1`,
+    [teamId, userId]
+  );
+  return rows[0]?.email ?? null;
+}
+
+export type UserContext = {
+  team_id: string;
+  user_id: string;
+  email: string;
+  channel_id: string;
+  response_url: string;
+};
+
+export async function handleValidationResult(result: ValidateUserResponse, ctx: UserContext): Promise<void> {
+  const { team_id, user_id, email, channel_id, response_url } = ctx;
+  const t = await translatorFor({ channelId: channel_id, userId: user_id });
+
+  switch (result.status) {
+    case "channel_not_linked": {
+      // Private: replace the ephemeral with a brief note
+      await replyToResponseUrl(response_url, {
+        replace_original: true,
+        text: t.t("access.channelNotLinked"),
+      });
+      // Public: post to the channel so the Account Manager can action it
+      const channelT = await translatorFor({ channelId: channel_id });
+      await slack.postMessage({
+        channel: channel_id,
+        text: channelT.t("access.channelNotLinkedNotice"),
+        blocks: [
+          {
+            type: "section",
+            text: { type: "mrkdwn", text: channelT.t("access.channelNotLinkedBlock") },
+          },
+        ],
+      });
+      break;
+    }
+
+    case "no_entitlement":
+      await replyToResponseUrl(response_url, {
+        replace_original: true,
+        text: t.t("access.noEntitlement"),
+      });
+      break;
+
+    case "contact_not_found":
+      await replyToResponseUrl(response_url, {
+        replace_original: true,
+        text: t.t("access.contactNotFound"),
+        blocks: [
+          {
+            type: "section",
+            text: { type: "mrkdwn", text: t.t("access.contactNotFoundBlock", { email }) },
+          },
+          {
+            type: "actions",
+            elements: [
+              {
+                type: "button",
+                action_id: "barry_create_contact",
+                text: { type: "plain_text", text: t.t("access.createProfile") },
+                value: JSON.stringify({ team_id, user_id, email, channel_id, account_id: result.accountId }),
+              },
+            ],
+          },
+        ],
+      });
+      break;
+
+    case "pending_approval":
+      await replyToResponseUrl(response_url, {
+        replace_original: true,
+        text: t.t("access.pendingApproval"),
+      });
+      break;
+
+    case "approved":
+      await replyToResponseUrl(response_url, {
+        replace_original: true,
+        text: t.t("access.approved"),
+        blocks: [
+          {
+            type: "section",
+            text: { type: "mrkdwn", text: t.t("access.approvedBlock") },
+          },
+          {
+            type: "actions",
+            elements: [
+              {
+                type: "button",
+                action_id: "barry_open_case_form",
+                text: { type: "plain_text", text: t.t("access.openCaseForm") },
+                style: "primary",
+                value: JSON.stringify({
+                  team_id,
+                  user_id,
+                  email,
+                  channel_id,
+                  account_id: result.accountId,
+                  contact_id: result.contactId,
+                }),
+              },
+            ],
+          },
+        ],
+      });
+      break;
+  }
+}
@@ -0,0 +1,227 @@
+// apex.ts — typed wrappers around the barry/* Apex REST endpoints (plus the few standard REST calls we make)
+import { salesforce } from "./salesforce";
+
+export type ValidateUserResponse = {
+  status: "channel_not_linked" | "no_entitlement" | "contact_not_found" | "pending_approval" | "approved";
+  accountId?: string;
+  contactId?: string;
+  isAccountAdmin?: boolean; // approved contacts only
+};
+
+export async function sfValidateUser(
+  slackTeamId: string,
+  slackChannelId: string,
+  email: string,
+  slackUserId: string
+): Promise<ValidateUserResponse> {
+  return salesforce.sfJson<ValidateUserResponse>("/services/apexrest/barry/validate-user", {
+    method: "POST",
+    body: JSON.stringify({ slackTeamId, slackChannelId, email, slackUserId }),
+    headers: { "Content-Type": "application/json; charset=utf-8" },
+    idempotent: true, // read-only
+  });
+}
+
+export type CreateContactRequest = {
+  accountId: string;
+  email: string;
+  firstName: string;
+  lastName: string;
+  phone?: string;
+  jobTitle?: string;
+  slackUserId: string;
+  slackTeamId: string;
+};
+
+export type CreateContactResponse = {
+  success: boolean;
+  contactId?: string;
+  error?: string;
+};
+
+export async function sfCreateContact(data: CreateContactRequest): Promise<CreateContactResponse> {
+  return salesforce.sfJson<CreateContactResponse>("/services/apexrest/barry/create-contact", {
+    method: "POST",
+    body: JSON.stringify(data),
+    headers: { "Content-Type": "application/json; charset=utf-8" },
+  });
+}
+
+export type SFCase = {
+  id: string; caseNumber: string; subject: string;
+  status: string; priority: string; type: string; createdDate: string;
+  contactId?: string;
+  contactName?: string;
+};
+
+export type GetCasesResponse = { success: boolean; cases?: SFCase[]; error?: string };
+
+export async function sfGetCases(accountId: string): Promise<GetCasesResponse> {
+  return salesforce.sfJson<GetCasesResponse>("/services/apexrest/barry/cases", {
+    method: "POST",
+    body: JSON.stringify({ accountId }),
+    headers: { "Content-Type": "application/json; charset=utf-8" },
+    idempotent: true, // read-only
+  });
+}
+
+export type SFCaseDetail = SFCase & {
+  description?: string;
+  ownerName?: string;
+  lastModifiedDate: string;
+};
+
+export type SFCaseComment = {
+  id: string;
+  body: string;
+  authorName: string;
+  createdDate: string;
+};
+
+export type CaseDetailResponse = {
+  success: boolean;
+  case?: SFCaseDetail;
+  comments?: SFCaseComment[]; // public comments only, newest first
+  totalComments?: number;
+  error?: string;
+};
+
+// Team and channel let the endpoint refuse cases outside the channel's account.
+export async function sfGetCaseDetail(req: {
+  caseId: string;
+  slackTeamId?: string;
+  slackChannelId?: string;
+  commentOffset: number;
+  commentLimit: number;
+}): Promise<CaseDetailResponse> {
+  return salesforce.sfJson<CaseDetailResponse>("/services/apexrest/barry/case-detail", {
+    method: "POST",
+    body: JSON.stringify(req),
+    headers: { "Content-Type": "application/json; charset=utf-8" },
+    idempotent: true, // read-only
+  });
+}
+
+export type CreateCaseRequest = {
+  accountId: string;
+  contactId: string;
+  subject: string;
+  description: string;
+  priority: string;
+  type: string;
+  channelId: string;
+};
+
+export type CreateCaseResponse = {
+  success: boolean;
+  caseId?: string;
+  caseNumber?: string;
+  error?: string;
+};
+
+export async function sfCreateCase(data: CreateCaseRequest): Promise<CreateCaseResponse> {
+  return salesforce.sfJson<CreateCaseResponse>("/services/apexrest/barry/create-case", {
+    method: "POST",
+    body: JSON.stringify(data),
+    headers: { "Content-Type": "application/json; charset=utf-8" },
+  });
+}
+
+// Write the Slack thread timestamp back to the Case. Direct REST PATCH was
+// unreliable; the Apex endpoint matches the proven pattern used by BarryCreateCase.
+export async function sfUpdateCaseThreadTs(caseId: string, slackThreadTs: string): Promise<void> {
+  await salesforce.sfJson("/services/apexrest/barry/update-case", {
+    method: "POST",
+    body: JSON.stringify({ caseId, slackThreadTs }),
+    headers: { "Content-Type": "application/json; charset=utf-8" },
+  });
+}
+
+export type CloseCaseResponse = { success: boolean; error?: string };
+
+export async function sfCloseCase(caseId: string): Promise<CloseCaseResponse> {
+  return salesforce.sfJson<CloseCaseResponse>("/services/apexrest/barry/close-case", {
+    method: "POST",
+    body: JSON.stringify({ caseId }),
+    headers: { "Content-Type": "application/json; charset=utf-8" },
+  });
+}
+
+export type ReopenCaseResponse = { success: boolean; error?: string };
+
+export async function sfReopenCase(caseId: string, slackUserId: string): Promise<ReopenCaseResponse> {
+  return salesforce.sfJson<ReopenCaseResponse>("/services/apexrest/barry/reopen-case", {
+    method: "POST",
+    body: JSON.stringify({ caseId, slackUserId }),
+    headers: { "Content-Type": "application/json; charset=utf-8" },
+  });
+}
+
+export type AddCaseCommentResponse = { success: boolean; commentId?: string; error?: string };
+
+// `source: "slack"` is stamped on the comment so the comment trigger can tag
+// its outbound event, letting sf-comment-added skip comments that came from Slack.
+export async function sfAddCaseComment(caseId: string, body: string, authorName: string): Promise<AddCaseCommentResponse> {
+  return salesforce.sfJson<AddCaseCommentResponse>("/services/apexrest/barry/add-case-comment", {
+    method: "POST",
+    body: JSON.stringify({ caseId, body, authorName, source: "slack" }),
+    headers: { "Content-Type": "application/json; charset=utf-8" },
+  });
+}
+
+export async function sfSaveCsat(caseId: string, score: number): Promise<{ success: boolean; error?: string }> {
+  return salesforce.sfJson("/services/apexrest/barry/save-csat", {
+    method: "POST",
+    body: JSON.stringify({ caseId, score }),
+    headers: { "Content-Type": "application/json; charset=utf-8" },
+  });
+}
+
+export async function sfSaveCsatFeedback(caseId: string, feedback: string): Promise<{ success: boolean; error?: string }> {
+  return salesforce.sfJson("/services/apexrest/barry/save-csat-feedback", {
+    method: "POST",
+    body: JSON.stringify({ caseId, feedback }),
+    headers: { "Content-Type": "application/json; charset=utf-8" },
+  });
+}
+
+// ── Standard REST: files ──────────────────────────────────────────────────────
+
+type SObjectCreateResponse = { id: string; success: boolean; errors: unknown[] };
+
+export type UploadedCaseFile = { contentVersionId: string; contentDocumentId: string };
+
+// Creates the ContentVersion (Salesforce creates its ContentDocument). Base64
+// JSON bodies are fine for the sizes case-files.ts allows.
+export async function sfCreateContentVersion(fileName: string, data: Buffer, description?: string): Promise<UploadedCaseFile> {
+  const created = await salesforce.sfJson<SObjectCreateResponse>(salesforce.sfRestPath("/sobjects/ContentVersion"), {
+    method: "POST",
+    body: JSON.stringify({
+      Title: fileName,
+      PathOnClient: fileName,
+      VersionData: data.toString("base64"),
+      Description: description,
+    }),
+  });
+  if (!created.success) throw new Error(`ContentVersion insert failed: ${JSON.stringify(created.errors)}`);
+
+  const version = await salesforce.sfJson<{ ContentDocumentId: string }>(
+    salesforce.sfRestPath(`/sobjects/ContentVersion/${created.id}?fields=ContentDocumentId`)
+  );
+  return { contentVersionId: created.id, contentDocumentId: version.ContentDocumentId };
+}
+
+// Shares the document on the Case so agents see it under Files.
+export async function sfLinkDocumentToCase(contentDocumentId: string, caseId: string): Promise<string> {
+  const created = await salesforce.sfJson<SObjectCreateResponse>(salesforce.sfRestPath("/sobjects/ContentDocumentLink"), {
+    method: "POST",
+    body: JSON.stringify({
+      ContentDocumentId: contentDocumentId,
+      LinkedEntityId: caseId,
+      ShareType: "V",
+      Visibility: "AllUsers",
+    }),
+  });
+  if (!created.success) throw new Error(`ContentDocumentLink insert failed: ${JSON.stringify(created.errors)}`);
+  return created.id;
+}
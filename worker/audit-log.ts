@@ -0,0 +1,116 @@
+// audit-log.ts — read audit_log without raw SQL, and run retention on demand
+//
+//   npm run audit -- timeline <correlationId>
+//   npm run audit -- failures [--job create-case] [--since 24h] [--limit 50]
+//   npm run audit -- search [--case 500…] [--user U…] [--channel C…] [--since 7d] [--limit 50]
+//   npm run audit -- counts [--since 24h] [--until 2024-06-01]
+//   npm run audit -- retention
+//
+// --since/--until take a duration back from now (30m, 24h, 7d) or an ISO date.
+import "dotenv/config";
+import {
+  applyAuditRetention,
+  auditCounts,
+  auditTimeline,
+  recentFailures,
+  searchAudit,
+  type AuditRow,
+} from "./audit";
+import { intFlag, parseArgs } from "./cli-args";
+import { pool } from "./db";
+import { log } from "./logger";
+
+const USAGE = "Usage: ts-node audit-log.ts <timeline <correlationId> | failures | search | counts | retention> [--flags]";
+
+const UNIT_MS: Record<string, number> = { m: 60_000, h: 3_600_000, d: 86_400_000 };
+
+function parseWhen(value: string, flag: string): Date {
+  const m = /^(\d+)([mhd])$/.exec(value);
+  if (m) return new Date(Date.now() - Number(m[1]) * UNIT_MS[m[2]]);
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) throw new Error(`Invalid ${flag} "${value}" — use e.g. 30m, 24h, 7d or an ISO date`);
+  return date;
+}
+
+function printRows(rows: AuditRow[], opts: { withPayload?: boolean } = {}): void {
+  if (!rows.length) {
+    log.info("No audit rows");
+    return;
+  }
+  for (const r of rows) {
+    log.info("Audit row", {
+      created_at: r.created_at.toISOString(),
+      source: r.source,
+      action: r.action,
+      status: r.status,
+      correlation_id: r.correlation_id,
+      error: r.status === "failed" ? r.payload?.error : undefined,
+      payload: opts.withPayload ? r.payload : undefined,
+    });
+  }
+}
+
+async function main() {
+  const [command, ...rest] = process.argv.slice(2);
+  const { positional, flags } = parseArgs(rest);
+
+  switch (command) {
+    case "timeline": {
+      const [correlationId] = positional;
+      if (!correlationId) throw new Error("timeline needs a correlation ID");
+      printRows(await auditTimeline(correlationId), { withPayload: true });
+      break;
+    }
+
+    case "failures": {
+      const rows = await recentFailures({
+        since: parseWhen(flags.since ?? "24h", "--since"),
+        action: flags.job,
+        limit: intFlag(flags, "limit", 50),
+      });
+      printRows(rows);
+      break;
+    }
+
+    case "search": {
+      const rows = await searchAudit({
+        caseId: flags.case,
+        userId: flags.user,
+        channelId: flags.channel,
+        since: parseWhen(flags.since ?? "7d", "--since"),
+        limit: intFlag(flags, "limit", 50),
+      });
+      printRows(rows, { withPayload: true });
+      break;
+    }
+
+    case "counts": {
+      const since = parseWhen(flags.since ?? "24h", "--since");
+      const until = flags.until ? parseWhen(flags.until, "--until") : new Date();
+      const counts = await auditCounts(since, until);
+      log.info("Audit counts", { since: since.toISOString(), until: until.toISOString(), jobs: counts.length });
+      for (const c of counts) {
+        const done = c.completed + c.failed;
+        log.info("Job outcomes", { ...c, success: done ? `${((c.completed / done) * 100).toFixed(1)}%` : null });
+      }
+      break;
+    }
+
+    case "retention": {
+      const { compacted, deleted } = await applyAuditRetention();
+      log.info("Audit retention applied", { deleted, compacted });
+      break;
+    }
+
+    default:
+      throw new Error(command ? `Unknown command "${command}"\n${USAGE}` : USAGE);
+  }
+
+  await pool.end();
+}
+
+main().catch(async (err) => {
+  log.error("Audit command failed", { error: err });
+  await pool.end();
+  process.exit(1);
+});
@@ -0,0 +1,182 @@
+// audit.ts — audit_log: writing non-queue entries, the queries behind audit-log.ts, and retention
+//
+// The processor writes started/completed/failed rows for every job; jobs add
+// their own rows for actions worth a trail (e.g. reopen-case). Failed rows nest
+// the job data under `originalPayload`, slash commands under `payload`, so
+// searches look for a key at each of those levels.
+import { parseConfig } from "./config";
+import { pool } from "./db";
+import { upsertRepeatableJob } from "./queue";
+
+export type AuditEntry = {
+  source: string; // e.g. "slack"
+  action: string;
+  status: string;
+  correlationId?: string;
+  payload?: Record<string, unknown>;
+};
+
+export type AuditRow = {
+  id: string; // bigserial
+  created_at: Date;
+  source: string;
+  action: string;
+  status: string;
+  correlation_id: string | null;
+  payload: Record<string, any> | null;
+};
+
+export async function writeAuditLog(entry: AuditEntry): Promise<void> {
+  await pool.query(
+    `INSERT INTO audit_log (source, action, status, correlation_id, payload) VALUES ($1, $2, $3, $4, $5)`,
+    [entry.source, entry.action, entry.status, entry.correlationId ?? null, entry.payload ?? {}]
+  );
+}
+
+// ── Queries ───────────────────────────────────────────────────────────────────
+
+export async function auditTimeline(correlationId: string): Promise<AuditRow[]> {
+  const { rows } = await pool.query<AuditRow>(
+    "SELECT * FROM audit_log WHERE correlation_id = $1 ORDER BY id",
+    [correlationId]
+  );
+  return rows;
+}
+
+export async function recentFailures(opts: { since: Date; action?: string; limit: number }): Promise<AuditRow[]> {
+  const { rows } = await pool.query<AuditRow>(
+    `SELECT * FROM audit_log
+     WHERE status = 'failed' AND created_at >= $1 AND ($2::text IS NULL OR action = $2)
+     ORDER BY id DESC LIMIT $3`,
+    [opts.since, opts.action ?? null, opts.limit]
+  );
+  return rows;
+}
+
+export type AuditSearch = {
+  caseId?: string;
+  userId?: string;
+  channelId?: string;
+  since: Date;
+  limit: number;
+};
+
+const SEARCH_KEYS = {
+  caseId: ["case_id"],
+  userId: ["user_id", "slack_user_id", "raised_by"],
+  channelId: ["channel_id"],
+} as const;
+
+const NESTINGS: string[][] = [[], ["originalPayload"], ["payload"], ["originalPayload", "payload"]];
+
+// { key: value } wrapped in each nesting, as JSON for `payload @> $n`.
+function containmentDocs(keys: readonly string[], value: string): string[] {
+  return keys.flatMap((key) =>
+    NESTINGS.map((path) => JSON.stringify(path.reduceRight<unknown>((inner, p) => ({ [p]: inner }), { [key]: value })))
+  );
+}
+
+// Every given filter must match (at any nesting level).
+export async function searchAudit(search: AuditSearch): Promise<AuditRow[]> {
+  const params: unknown[] = [search.since];
+  const clauses: string[] = [];
+
+  for (const field of Object.keys(SEARCH_KEYS) as (keyof typeof SEARCH_KEYS)[]) {
+    const value = search[field];
+    if (!value) continue;
+    const alternatives = containmentDocs(SEARCH_KEYS[field], value).map((doc) => {
+      params.push(doc);
+      return `payload @> $${params.length}::jsonb`;
+    });
+    clauses.push(`(${alternatives.join(" OR ")})`);
+  }
+  if (!clauses.length) throw new Error("searchAudit needs at least one of caseId, userId or channelId");
+
+  params.push(search.limit);
+  const { rows } = await pool.query<AuditRow>(
+    `SELECT * FROM audit_log WHERE created_at >= $1 AND ${clauses.join(" AND ")} ORDER BY id DESC LIMIT $${params.length}`,
+    params
+  );
+  return rows;
+}
+
+export type AuditCount = { action: string; completed: number; failed: number; other: number };
+
+export async function auditCounts(since: Date, until: Date = new Date()): Promise<AuditCount[]> {
+  const { rows } = await pool.query<AuditCount>(
+    `SELECT action,
+            count(*) FILTER (WHERE status = 'completed')::int AS completed,
+            count(*) FILTER (WHERE status = 'failed')::int AS failed,
+            count(*) FILTER (WHERE status NOT IN ('started', 'completed', 'failed'))::int AS other
+     FROM audit_log
+     WHERE created_at >= $1 AND created_at < $2
+     GROUP BY action
+     ORDER BY action`,
+    [since, until]
+  );
+  return rows;
+}
+
+// ── Retention ─────────────────────────────────────────────────────────────────
+
+// AUDIT_COMPACT_DAYS (default 14) strips payloads down to the IDs searches use;
+// AUDIT_RETENTION_DAYS (default 90) deletes rows outright. 0 turns either off.
+export type AuditRetentionSettings = { compactAfterDays: number; deleteAfterDays: number };
+
+export function auditRetentionSettings(): AuditRetentionSettings {
+  return parseConfig(["audit"]).audit;
+}
+
+const RETENTION_BATCH = 5000;
+
+// Every key a search can filter on, plus the case number and workspace.
+const COMPACT_KEYS = [...new Set([...Object.values(SEARCH_KEYS).flat(), "case_number", "team_id"])];
+
+// The IDs and error a compacted row keeps, lifted to the top level.
+const pick = (key: string) =>
+  `'${key}', COALESCE(payload->'${key}', payload->'originalPayload'->'${key}', payload->'payload'->'${key}', payload->'originalPayload'->'payload'->'${key}')`;
+
+// Batches keep each statement's locks short on a large table. Returns rows changed.
+export async function compactAuditLog(before: Date): Promise<number> {
+  let total = 0;
+  for (;;) {
+    const { rowCount } = await pool.query(
+      `UPDATE audit_log SET payload = jsonb_strip_nulls(jsonb_build_object(
+         ${COMPACT_KEYS.map(pick).join(",\n         ")},
+         'error', payload->'error',
+         '_compacted', true))
+       WHERE id IN (
+         SELECT id FROM audit_log
+         WHERE created_at < $1 AND NOT COALESCE(payload, '{}'::jsonb) ? '_compacted'
+         ORDER BY id LIMIT $2
+       )`,
+      [before, RETENTION_BATCH]
+    );
+    total += rowCount ?? 0;
+    if ((rowCount ?? 0) < RETENTION_BATCH) return total;
+  }
+}
+
+export async function pruneAuditLog(before: Date): Promise<number> {
+  let total = 0;
+  for (;;) {
+    const { rowCount } = await pool.query(
+      `DELETE FROM audit_log WHERE id IN (SELECT id FROM audit_log WHERE created_at < $1 ORDER BY id LIMIT $2)`,
+      [before, RETENTION_BATCH]
+    );
+    total += rowCount ?? 0;
+    if ((rowCount ?? 0) < RETENTION_BATCH) return total;
+  }
+}
+
+export async function applyAuditRetention(now = new Date()): Promise<{ compacted: number; deleted: number }> {
+  const { compactAfterDays, deleteAfterDays } = auditRetentionSettings();
+  const daysAgo = (d: number) => new Date(now.getTime() - d * 86_400_000);
+  const deleted = deleteAfterDays ? await pruneAuditLog(daysAgo(deleteAfterDays)) : 0;
+  const compacted = compactAfterDays ? await compactAuditLog(daysAgo(compactAfterDays)) : 0;
+  return { compacted, deleted };
+}
+
+export async function scheduleAuditRetention(queueName: string): Promise<void> {
+  await upsertRepeatableJob(queueName, "audit-retention", 86_400_000, "audit-retention");
+}
@@ -0,0 +1,91 @@
+// case-files.ts — limits and case_file_link bookkeeping for Slack thread files sent to SF
+//
+// Each (Slack file, case) pair gets one row, whether uploaded or rejected, so a
+// re-delivered event never uploads or complains twice. `confirmed_at` marks
+// rows already reported in the thread.
+import path from "node:path";
+import { parseConfig } from "./config";
+import { pool } from "./db";
+
+export type CaseFileLink = {
+  slack_file_id: string;
+  case_id: string;
+  file_name: string;
+  size_bytes: string | null; // BIGINT
+  status: "uploaded" | "rejected";
+  reason: string | null; // RejectionReason; rows from before it hold English text
+  content_version_id: string | null;
+  content_document_id: string | null;
+  confirmed_at: Date | null;
+  created_at: Date;
+};
+
+export type CaseFileLimits = { maxBytes: number; allowedExtensions: Set<string> };
+
+// CASE_FILE_MAX_MB (default 20, at most 37) and CASE_FILE_ALLOWED_EXTENSIONS (comma-separated,
+// default: common images, documents, archives and videos)
+export function caseFileLimits(): CaseFileLimits {
+  return parseConfig(["caseFiles"]).caseFiles;
+}
+
+// Stored as the code and worded when the thread is told, in the channel's language.
+export type RejectionReason = "type" | "size";
+
+export function fileExtension(name: string): string {
+  return path.extname(name).slice(1).toLowerCase();
+}
+
+// Returns why a file can't be attached, or null if it's within limits.
+export function rejectionReason(file: { name: string; size: number }): RejectionReason | null {
+  const { maxBytes, allowedExtensions } = caseFileLimits();
+  const ext = fileExtension(file.name);
+  if (!ext || !allowedExtensions.has(ext)) return "type";
+  if (file.size > maxBytes) return "size";
+  return null;
+}
+
+// ── case_file_link ────────────────────────────────────────────────────────────
+
+export async function findFileLink(slackFileId: string, caseId: string): Promise<CaseFileLink | null> {
+  const { rows } = await pool.query<CaseFileLink>(
+    "SELECT * FROM case_file_link WHERE slack_file_id = $1 AND case_id = $2",
+    [slackFileId, caseId]
+  );
+  return rows[0] ?? null;
+}
+
+export async function recordFileLink(link: {
+  slackFileId: string;
+  caseId: string;
+  fileName: string;
+  sizeBytes: number;
+  status: CaseFileLink["status"];
+  reason?: string;
+  contentVersionId?: string;
+  contentDocumentId?: string;
+}): Promise<void> {
+  await pool.query(
+    `INSERT INTO case_file_link
+       (slack_file_id, case_id, file_name, size_bytes, status, reason, content_version_id, content_document_id)
+     VALUES ($1, $2, $3, $4, $5, $6, $7, $8) ON CONFLICT (slack_file_id, case_id) DO NOTHING`,
+    [link.slackFileId, link.caseId, link.fileName, link.sizeBytes, link.status,
+      link.reason ?? null, link.contentVersionId ?? null, link.contentDocumentId ?? null]
+  );
+}
+
+export async function unconfirmedFileLinks(caseId: string, slackFileIds: string[]): Promise<CaseFileLink[]> {
+  const { rows } = await pool.query<CaseFileLink>(
+    `SELECT * FROM case_file_link
+     WHERE case_id = $1 AND slack_file_id = ANY($2) AND confirmed_at IS NULL
+     ORDER BY created_at`,
+    [caseId, slackFileIds]
+  );
+  return rows;
+}
+
+export async function markFileLinksConfirmed(caseId: string, slackFileIds: string[]): Promise<void> {
+  await pool.query(
+    "UPDATE case_file_link SET confirmed_at = NOW() WHERE case_id = $1 AND slack_file_id = ANY($2)",
+    [caseId, slackFileIds]
+  );
+}
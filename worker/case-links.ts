@@ -0,0 +1,82 @@
+// case-links.ts — case_slack_link: which Slack announcement belongs to which SF Case
+import { pool } from "./db";
+import type { AnnouncementCase } from "./cases";
+
+export type CaseLink = {
+  case_id: string;
+  case_number: string;
+  channel_id: string;
+  message_ts: string;
+  raised_by: string | null;
+  subject: string | null;
+  description: string | null;
+  priority: string | null;
+  case_type: string | null;
+  status: string | null; // null for cases raised before statuses were mirrored
+  status_changed_at: Date | null;
+  closed_by: string | null; // Slack user, when closed from the resolve button
+  team_id: string | null; // Slack workspace; null for cases raised before installs were tracked
+  created_at: Date;
+};
+
+export async function findCaseLink(caseId: string): Promise<CaseLink | null> {
+  const { rows } = await pool.query<CaseLink>("SELECT * FROM case_slack_link WHERE case_id = $1", [caseId]);
+  return rows[0] ?? null;
+}
+
+// Thread replies carry the announcement ts as their thread_ts.
+export async function findCaseLinkByThread(channelId: string, threadTs: string): Promise<CaseLink | null> {
+  const { rows } = await pool.query<CaseLink>(
+    "SELECT * FROM case_slack_link WHERE channel_id = $1 AND message_ts = $2",
+    [channelId, threadTs]
+  );
+  return rows[0] ?? null;
+}
+
+export async function insertCaseLink(link: {
+  caseId: string;
+  caseNumber: string;
+  channelId: string;
+  messageTs: string;
+  raisedBy: string;
+  subject: string;
+  description: string;
+  priority: string;
+  type: string;
+  teamId?: string;
+}): Promise<void> {
+  await pool.query(
+    `INSERT INTO case_slack_link
+       (case_id, case_number, channel_id, message_ts, raised_by, subject, description, priority, case_type, team_id, status)
+     VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, 'New') ON CONFLICT (case_id) DO NOTHING`,
+    [link.caseId, link.caseNumber, link.channelId, link.messageTs, link.raisedBy,
+      link.subject, link.description, link.priority, link.type, link.teamId ?? null]
+  );
+}
+
+export async function updateCaseLinkStatus(
+  caseId: string,
+  status: string,
+  changedAt: Date = new Date(),
+  closedBy: string | null = null
+): Promise<void> {
+  await pool.query(
+    "UPDATE case_slack_link SET status = $2, status_changed_at = $3, closed_by = $4 WHERE case_id = $1",
+    [caseId, status, changedAt, closedBy]
+  );
+}
+
+// Rows written before 0003 have no stored details; fill what we can.
+export function announcementFromLink(link: CaseLink): AnnouncementCase {
+  return {
+    caseId: link.case_id,
+    caseNumber: link.case_number,
+    subject: link.subject ?? "",
+    description: link.description ?? undefined,
+    priority: link.priority ?? "Medium",
+    type: link.case_type ?? "Question",
+    raisedBy: link.raised_by ?? undefined,
+    channelId: link.channel_id,
+    status: link.status ?? undefined,
+  };
+}
@@ -0,0 +1,94 @@
+// case-query.ts — /view-cases search syntax: parse, match and describe as filter chips
+//
+//   /view-cases mine priority:high status:"waiting on client" type:bug login
+//
+// `key:value` terms filter on a field (quote values with spaces), `mine` keeps
+// cases raised by the caller's contact, anything else is free text that must
+// appear in the subject (or match the case number).
+import type { SFCase } from "./apex";
+import { STATUS_EMOJI, priorityEmoji, priorityName, statusName } from "./cases";
+import type { Translator } from "./i18n";
+
+export type CaseQuery = {
+  mine: boolean;
+  priority?: string;
+  status?: string;
+  type?: string;
+  text: string[];
+};
+
+const FIELD_KEYS = ["priority", "status", "type"] as const;
+type FieldKey = (typeof FIELD_KEYS)[number];
+
+// word, key:word, key:"quoted value" or "quoted phrase"
+const TOKEN = /(\w+):"([^"]*)"|(\w+):(\S+)|"([^"]*)"|(\S+)/g;
+
+export function parseCaseQuery(input: string | undefined): CaseQuery {
+  const query: CaseQuery = { mine: false, text: [] };
+
+  for (const m of (input ?? "").matchAll(TOKEN)) {
+    const key = (m[1] ?? m[3])?.toLowerCase();
+    const value = (m[2] ?? m[4] ?? m[5] ?? m[6] ?? "").trim();
+
+    if (key && (FIELD_KEYS as readonly string[]).includes(key)) {
+      if (value) query[key as FieldKey] = value;
+    } else if (!key && m[6]?.toLowerCase() === "mine") {
+      query.mine = true;
+    } else {
+      const term = key ? `${m[1] ?? m[3]}:${value}` : value;
+      if (term) query.text.push(term);
+    }
+  }
+  return query;
+}
+
+export function isEmptyQuery(q: CaseQuery): boolean {
+  return !q.mine && !q.priority && !q.status && !q.type && q.text.length === 0;
+}
+
+// Canonical form — what pagination and filter buttons carry back to get-cases.
+export function formatCaseQuery(q: CaseQuery): string {
+  const quote = (v: string) => (/\s/.test(v) ? `"${v}"` : v);
+  return [
+    ...(q.mine ? ["mine"] : []),
+    ...FIELD_KEYS.filter((k) => q[k]).map((k) => `${k}:${quote(q[k]!)}`),
+    ...q.text.map(quote),
+  ].join(" ");
+}
+
+const same = (a: string | undefined, b: string) => (a ?? "").toLowerCase() === b.toLowerCase();
+
+// `contactId` is the caller's Contact, needed for `mine`.
+export function matchesCaseQuery(c: SFCase, q: CaseQuery, contactId?: string): boolean {
+  if (q.mine && (!contactId || c.contactId !== contactId)) return false;
+  if (q.priority && !same(c.priority, q.priority)) return false;
+  if (q.status && !same(c.status, q.status)) return false;
+  if (q.type && !same(c.type, q.type)) return false;
+
+  const subject = (c.subject ?? "").toLowerCase();
+  return q.text.every((term) => {
+    const t = term.toLowerCase();
+    return subject.includes(t) || c.caseNumber.replace(/^0+/, "") === t.replace(/^#?0*/, "");
+  });
+}
+
+// Block Kit context elements, one "chip" per active filter.
+export function buildQueryChips(q: CaseQuery, t: Translator): { type: "mrkdwn"; text: string }[] {
+  const chips: string[] = [];
+  if (q.mine) chips.push(t.t("query.mine"));
+  if (q.priority) {
+    const priority = titleCase(q.priority);
+    chips.push(`${priorityEmoji(priority)} ${t.t("query.priority", { value: priorityName(priority, t) })}`);
+  }
+  if (q.status) {
+    const status = Object.keys(STATUS_EMOJI).find((k) => same(k, q.status!)) ?? q.status;
+    chips.push(`${STATUS_EMOJI[status] ?? "🏷️"} ${t.t("query.status", { value: statusName(status, t) })}`);
+  }
+  if (q.type) chips.push(t.t("query.type", { value: q.type }));
+  for (const term of q.text) chips.push(`🔍 “${term}”`);
+  return chips.map((text) => ({ type: "mrkdwn", text: `\`${text}\`` }));
+}
+
+function titleCase(v: string): string {
+  return v.toLowerCase().replace(/\b\w/g, (ch) => ch.toUpperCase());
+}
@@ -0,0 +1,284 @@
+// cases.ts — case display constants, the shared announcement blocks and the case detail modal
+import type { SFCaseComment, SFCaseDetail } from "./apex";
+import { workerConfig } from "./config";
+import type { MessageKey, Translator } from "./i18n";
+import type { ModalView } from "./slack";
+
+// ── Case list constants ───────────────────────────────────────────────────────
+export const CASES_PAGE_SIZE = workerConfig().casesPageSize;
+export const COMMENTS_PAGE_SIZE = workerConfig().commentsPageSize;
+
+export const STATUS_ORDER: Record<string, number> = {
+  "New": 0, "In Progress": 1, "Waiting on Client": 2, "Client Responded": 3,
+  "On Hold": 4, "Escalated": 5, "Waiting to be Closed": 6, "Re-opened": 7, "Closed": 8,
+};
+
+export const STATUS_EMOJI: Record<string, string> = {
+  "New": "👋", "In Progress": "👀", "Waiting on Client": "🫵", "Client Responded": "😨",
+  "On Hold": "🚫", "Escalated": "⬆️", "Waiting to be Closed": "🫡", "Re-opened": "⚠️", "Closed": "🤝",
+};
+
+export function priorityEmoji(priority: string | undefined): string {
+  return priority === "High" ? "🔴" : priority === "Low" ? "🟢" : "🟡";
+}
+
+// Salesforce picklist values → catalogue keys. Values without one are shown as they are.
+const STATUS_KEYS: Record<string, MessageKey> = {
+  "New": "status.new", "In Progress": "status.inProgress", "Waiting on Client": "status.waitingOnClient",
+  "Client Responded": "status.clientResponded", "On Hold": "status.onHold", "Escalated": "status.escalated",
+  "Waiting to be Closed": "status.waitingToBeClosed", "Re-opened": "status.reopened", "Closed": "status.closed",
+};
+
+const PRIORITY_KEYS: Record<string, MessageKey> = { "High": "priority.high", "Medium": "priority.medium", "Low": "priority.low" };
+
+export function statusName(status: string, t: Translator): string {
+  return STATUS_KEYS[status] ? t.t(STATUS_KEYS[status]) : status;
+}
+
+export function priorityName(priority: string, t: Translator): string {
+  return PRIORITY_KEYS[priority] ? t.t(PRIORITY_KEYS[priority]) : priority;
+}
+
+// ── Announcement ──────────────────────────────────────────────────────────────
+
+export type AnnouncementCase = {
+  caseId: string;
+  caseNumber: string;
+  subject: string;
+  description?: string;
+  priority: string;
+  type: string;
+  raisedBy?: string; // Slack user ID
+  channelId: string;
+  status?: string; // defaults to "New"
+};
+
+export function statusLabel(status: string, t: Translator): string {
+  return `${STATUS_EMOJI[status] ?? "❓"} ${statusName(status, t)}`;
+}
+
+export function priorityLabel(priority: string, t: Translator): string {
+  return `${priorityEmoji(priority)} ${priorityName(priority, t)}`;
+}
+
+// Blocks shared between the initial post and the update-with-button
+export function buildAnnouncementBlocks(c: AnnouncementCase, t: Translator): unknown[] {
+  return [
+    {
+      type: "header",
+      text: { type: "plain_text", text: t.t("case.newHeader") },
+    },
+    {
+      type: "section",
+      fields: [
+        { type: "mrkdwn", text: `*${t.t("field.caseNumber")}*\n\`#${c.caseNumber}\`` },
+        { type: "mrkdwn", text: `*${t.t("field.status")}*\n${statusLabel(c.status ?? "New", t)}` },
+        { type: "mrkdwn", text: `*${t.t("field.priority")}*\n${priorityLabel(c.priority, t)}` },
+        { type: "mrkdwn", text: `*${t.t("field.type")}*\n${c.type}` },
+        ...(c.raisedBy ? [{ type: "mrkdwn", text: `*${t.t("field.raisedBy")}*\n<@${c.raisedBy}>` }] : []),
+      ],
+    },
+    ...(c.subject ? [{
+      type: "section",
+      text: { type: "mrkdwn", text: `*${t.t("field.subject")}*\n${c.subject}` },
+    }] : []),
+    ...(c.description ? [{
+      type: "section",
+      text: { type: "mrkdwn", text: `*${t.t("field.description")}*\n${c.description}` },
+    }] : []),
+    { type: "divider" },
+    {
+      type: "context",
+      elements: [
+        { type: "mrkdwn", text: t.t("case.newLogged") },
+        { type: "mrkdwn", text: t.t("case.replyHint") },
+      ],
+    },
+  ];
+}
+
+// "View details" opens the case-detail modal. Used on announcements and /view-cases rows.
+export function buildViewDetailsButton(c: Pick<AnnouncementCase, "caseId" | "caseNumber" | "channelId">, t: Translator) {
+  return {
+    type: "button",
+    action_id: "barry_case_details",
+    text: { type: "plain_text", text: t.t("case.viewDetails") },
+    value: JSON.stringify({ case_id: c.caseId, case_number: c.caseNumber, channel_id: c.channelId }),
+  };
+}
+
+export function buildResolveActions(c: Pick<AnnouncementCase, "caseId" | "caseNumber" | "channelId">, t: Translator) {
+  return {
+    type: "actions",
+    elements: [
+      {
+        type: "button",
+        action_id: "barry_close_case",
+        text: { type: "plain_text", text: t.t("case.resolveButton") },
+        style: "primary",
+        confirm: {
+          title: { type: "plain_text", text: t.t("case.resolveConfirmTitle") },
+          text: {
+            type: "mrkdwn",
+            text: t.t("case.resolveConfirmText", { caseNumber: c.caseNumber }),
+          },
+          confirm: { type: "plain_text", text: t.t("case.resolveConfirm") },
+          deny: { type: "plain_text", text: t.t("common.cancel") },
+        },
+        value: JSON.stringify({
+          case_id: c.caseId,
+          case_number: c.caseNumber,
+          channel_id: c.channelId,
+        }),
+      },
+      buildViewDetailsButton(c, t),
+    ],
+  };
+}
+
+export type ReopenOffer = {
+  caseId: string;
+  channelId: string;
+  until: Date; // end of the grace period
+};
+
+// Replaces the announcement once a case is closed. `closedBy` is a Slack user
+// when closed from the "Mark as Resolved" button, absent when closed in Salesforce.
+// With `reopen`, a Reopen button is shown until the grace period ends.
+export function buildClosedBlocks(caseNumber: string, t: Translator, closedBy?: string, reopen?: ReopenOffer): unknown[] {
+  const blocks: unknown[] = [
+    {
+      type: "header",
+      text: { type: "plain_text", text: t.t("case.closedHeader") },
+    },
+    {
+      type: "section",
+      text: {
+        type: "mrkdwn",
+        text: closedBy
+          ? t.t("case.closedByUser", { caseNumber, user: closedBy })
+          : t.t("case.closedBySupport", { caseNumber }),
+      },
+    },
+  ];
+  if (!reopen) return blocks;
+
+  blocks.push(
+    {
+      type: "actions",
+      elements: [
+        {
+          type: "button",
+          action_id: "barry_reopen_case",
+          text: { type: "plain_text", text: t.t("case.reopenButton") },
+          confirm: {
+            title: { type: "plain_text", text: t.t("case.reopenConfirmTitle") },
+            text: {
+              type: "mrkdwn",
+              text: t.t("case.reopenConfirmText", { caseNumber }),
+            },
+            confirm: { type: "plain_text", text: t.t("case.reopenConfirm") },
+            deny: { type: "plain_text", text: t.t("common.cancel") },
+          },
+          value: JSON.stringify({ case_id: reopen.caseId, case_number: caseNumber, channel_id: reopen.channelId }),
+        },
+      ],
+    },
+    {
+      type: "context",
+      elements: [
+        // <!date> renders in each viewer's own timezone
+        { type: "mrkdwn", text: t.t("case.reopenHint", { until: t.slackDate(reopen.until) }) },
+      ],
+    },
+  );
+  return blocks;
+}
+
+// ── Case detail modal ─────────────────────────────────────────────────────────
+
+// Slack rejects section text over 3000 characters
+function clip(text: string, max = 2900): string {
+  return text.length > max ? `${text.slice(0, max)}…` : text;
+}
+
+export function buildCaseDetailView(
+  detail: SFCaseDetail,
+  comments: SFCaseComment[],
+  opts: { channelId?: string; page: number; totalComments: number },
+  t: Translator
+): ModalView {
+  const totalPages = Math.max(1, Math.ceil(opts.totalComments / COMMENTS_PAGE_SIZE));
+  const pageValue = (page: number) =>
+    JSON.stringify({ case_id: detail.id, case_number: detail.caseNumber, channel_id: opts.channelId, page });
+
+  const blocks: unknown[] = [
+    {
+      type: "section",
+      text: { type: "mrkdwn", text: `*${clip(detail.subject, 500)}*` },
+    },
+    {
+      type: "section",
+      fields: [
+        { type: "mrkdwn", text: `*${t.t("field.status")}*\n${statusLabel(detail.status, t)}` },
+        { type: "mrkdwn", text: `*${t.t("field.priority")}*\n${priorityLabel(detail.priority, t)}` },
+        { type: "mrkdwn", text: `*${t.t("field.type")}*\n${detail.type || "—"}` },
+        { type: "mrkdwn", text: `*${t.t("field.owner")}*\n${detail.ownerName || t.t("detail.unassigned")}` },
+        { type: "mrkdwn", text: `*${t.t("field.raisedBy")}*\n${detail.contactName || "—"}` },
+        { type: "mrkdwn", text: `*${t.t("field.lastUpdated")}*\n${t.dateTime(detail.lastModifiedDate)}` },
+      ],
+    },
+    {
+      type: "section",
+      text: {
+        type: "mrkdwn",
+        text: `*${t.t("field.description")}*\n${detail.description ? clip(detail.description) : t.t("detail.noDescription")}`,
+      },
+    },
+    { type: "divider" },
+    {
+      type: "header",
+      text: { type: "plain_text", text: t.t("detail.comments", { count: opts.totalComments }) },
+    },
+  ];
+
+  if (comments.length === 0) {
+    blocks.push({ type: "context", elements: [{ type: "mrkdwn", text: t.t("detail.noComments") }] });
+  }
+  for (const c of comments) {
+    blocks.push(
+      {
+        type: "context",
+        elements: [{ type: "mrkdwn", text: `*${c.authorName}* · ${t.dateTime(c.createdDate)}` }],
+      },
+      {
+        type: "section",
+        text: { type: "mrkdwn", text: clip(c.body) },
+      },
+    );
+  }
+
+  // Page 0 holds the newest comments; "Older" walks back in time
+  if (totalPages > 1) {
+    const nav: unknown[] = [];
+    if (opts.page > 0) {
+      nav.push({ type: "button", action_id: "barry_case_detail_newer", text: { type: "plain_text", text: t.t("detail.newer") }, value: pageValue(opts.page - 1) });
+    }
+    if (opts.page < totalPages - 1) {
+      nav.push({ type: "button", action_id: "barry_case_detail_older", text: { type: "plain_text", text: t.t("detail.older") }, value: pageValue(opts.page + 1) });
+    }
+    blocks.push(
+      { type: "context", elements: [{ type: "mrkdwn", text: t.t("common.page", { page: opts.page + 1, pages: totalPages }) }] },
+      { type: "actions", elements: nav },
+    );
+  }
+
+  return {
+    type: "modal",
+    callback_id: "barry_case_detail",
+    title: { type: "plain_text", text: t.t("detail.title", { caseNumber: detail.caseNumber }).slice(0, 24) },
+    close: { type: "plain_text", text: t.t("common.close") },
+    private_metadata: pageValue(opts.page),
+    blocks,
+  };
+}
@@ -0,0 +1,102 @@
+// circuit-breaker.ts — fail fast while a dependency is down
+//
+//   closed     requests flow; `threshold` consecutive failures open the circuit
+//   open       requests are refused until `cooldownMs` has passed
+//   half_open  one trial request at a time; success closes, failure re-opens
+//
+// Only failures that say the dependency itself is unhealthy should be
+// recorded — a validation error is a healthy server saying no.
+
+export type CircuitState = "closed" | "open" | "half_open";
+
+export type CircuitBreakerOptions = {
+  threshold: number;
+  cooldownMs: number;
+  now?: () => number;
+};
+
+type Listener = (state: CircuitState, previous: CircuitState) => void;
+
+export class CircuitBreaker {
+  private state: CircuitState = "closed";
+  private failures = 0;
+  private openedAt = 0;
+  private trialInFlight = false;
+  private timer: NodeJS.Timeout | null = null;
+  private readonly listeners: Listener[] = [];
+  private readonly now: () => number;
+
+  constructor(readonly name: string, private readonly opts: CircuitBreakerOptions) {
+    this.now = opts.now ?? Date.now;
+  }
+
+  get currentState(): CircuitState {
+    this.checkCooldown();
+    return this.state;
+  }
+
+  // ms until an open circuit lets a trial request through (0 otherwise).
+  retryAfterMs(): number {
+    if (this.state !== "open") return 0;
+    return Math.max(0, this.openedAt + this.opts.cooldownMs - this.now());
+  }
+
+  onStateChange(listener: Listener): void {
+    this.listeners.push(listener);
+  }
+
+  // Whether a request may go out now. In half_open, true claims the one trial slot.
+  tryAcquire(): boolean {
+    this.checkCooldown();
+    if (this.state === "closed") return true;
+    if (this.state === "half_open" && !this.trialInFlight) {
+      this.trialInFlight = true;
+      return true;
+    }
+    return false;
+  }
+
+  recordSuccess(): void {
+    this.failures = 0;
+    this.trialInFlight = false;
+    if (this.state !== "closed") this.transition("closed");
+  }
+
+  recordFailure(): void {
+    this.trialInFlight = false;
+    this.failures++;
+    if (this.state === "half_open" || (this.state === "closed" && this.failures >= this.opts.threshold)) {
+      this.open();
+    }
+  }
+
+  // A request that neither proved nor disproved health (e.g. a 4xx) frees the trial slot.
+  release(): void {
+    this.trialInFlight = false;
+  }
+
+  private open(): void {
+    this.openedAt = this.now();
+    this.transition("open");
+    // Move to half_open on time even if nobody calls in (a paused worker won't)
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = setTimeout(() => this.checkCooldown(), this.opts.cooldownMs);
+    this.timer.unref();
+  }
+
+  private checkCooldown(): void {
+    if (this.state === "open" && this.now() - this.openedAt >= this.opts.cooldownMs) {
+      this.transition("half_open");
+    }
+  }
+
+  private transition(next: CircuitState): void {
+    const previous = this.state;
+    this.state = next;
+    if (next !== "open" && this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    for (const listener of this.listeners) listener(next, previous);
+  }
+}
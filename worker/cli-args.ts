@@ -0,0 +1,32 @@
+// cli-args.ts — `--flag value` parsing shared by the operator CLIs (audit-log.ts, send-job.ts)
+
+export type ParsedArgs = { positional: string[]; flags: Record<string, string>; switches: Set<string> };
+
+// `--key value` pairs become flags, the names in `switches` take no value,
+// and bare words are positional.
+export function parseArgs(argv: string[], switches: string[] = []): ParsedArgs {
+  const parsed: ParsedArgs = { positional: [], flags: {}, switches: new Set() };
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (!arg.startsWith("--")) {
+      parsed.positional.push(arg);
+      continue;
+    }
+    const name = arg.slice(2);
+    if (switches.includes(name)) {
+      parsed.switches.add(name);
+      continue;
+    }
+    const value = argv[i + 1];
+    if (value === undefined || value.startsWith("--")) throw new Error(`Missing value for ${arg}`);
+    parsed.flags[name] = value;
+    i++;
+  }
+  return parsed;
+}
+
+export function intFlag(flags: Record<string, string>, name: string, fallback: number, min = 1): number {
+  const n = Number(flags[name] ?? fallback);
+  if (!Number.isInteger(n) || n < min) throw new Error(`Invalid --${name} "${flags[name]}"`);
+  return n;
+}
@@ -0,0 +1,61 @@
+// comment-links.ts — case_comment_link: which SF CaseComments have crossed to or from Slack
+//
+// Every synced comment gets one row keyed by its Salesforce ID. `origin` records
+// where it was written: 'slack' rows come from add-case-comment and must never
+// be echoed back; 'salesforce' rows are agent comments already posted to the thread.
+import { pool } from "./db";
+
+export type CommentOrigin = "slack" | "salesforce";
+
+export type CommentLink = {
+  sf_comment_id: string;
+  case_id: string;
+  origin: CommentOrigin;
+  slack_ts: string | null;
+  created_at: Date;
+};
+
+export async function recordSlackComment(caseId: string, sfCommentId: string, slackTs?: string): Promise<void> {
+  await pool.query(
+    `INSERT INTO case_comment_link (sf_comment_id, case_id, origin, slack_ts)
+     VALUES ($1, $2, 'slack', $3) ON CONFLICT (sf_comment_id) DO NOTHING`,
+    [sfCommentId, caseId, slackTs ?? null]
+  );
+}
+
+// Posts an SF comment with `post` (returning the Slack ts) unless it is already
+// linked. A transaction-scoped advisory lock on the comment ID makes duplicate
+// events wait for the first, which then finds the row and skips.
+export async function postCommentOnce(
+  caseId: string,
+  sfCommentId: string,
+  post: () => Promise<string>
+): Promise<{ posted: true; slackTs: string } | { posted: false; existing: CommentLink }> {
+  const client = await pool.connect();
+  try {
+    await client.query("BEGIN");
+    await client.query("SELECT pg_advisory_xact_lock(hashtext('case_comment_link'), hashtext($1))", [sfCommentId]);
+
+    const { rows } = await client.query<CommentLink>(
+      "SELECT * FROM case_comment_link WHERE sf_comment_id = $1",
+      [sfCommentId]
+    );
+    if (rows[0]) {
+      await client.query("COMMIT");
+      return { posted: false, existing: rows[0] };
+    }
+
+    const slackTs = await post();
+    await client.query(
+      `INSERT INTO case_comment_link (sf_comment_id, case_id, origin, slack_ts) VALUES ($1, $2, 'salesforce', $3)`,
+      [sfCommentId, caseId, slackTs]
+    );
+    await client.query("COMMIT");
+    return { posted: true, slackTs };
+  } catch (err) {
+    await client.query("ROLLBACK").catch(() => undefined);
+    throw err;
+  } finally {
+    client.release();
+  }
+}
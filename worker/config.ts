@@ -0,0 +1,465 @@
+// config.ts — typed, validated settings for the connections and the worker itself
+//
+// Each section is read from the environment once, on first use, and every
+// problem in it is reported together. worker.ts calls loadConfig() with all
+// sections before connecting to anything, so a misconfigured deploy fails at
+// startup with the full list instead of halfway through a job. The CLIs only
+// touch the sections they need (migrate.ts never asks for Slack).
+//
+// Logging and feature settings (SLA targets, CSAT timing, retention…) are
+// sections too, so a bad value fails startup with the rest. logger.ts reads
+// its section once; the feature modules' xxxSettings() functions parse theirs
+// again on each call rather than caching them.
+import { createPrivateKey } from "node:crypto";
+import fs from "node:fs";
+import { URL } from "node:url";
+import type { ValidateUserResponse } from "./apex";
+import type { AuditRetentionSettings } from "./audit";
+import type { CaseFileLimits } from "./case-files";
+import type { CsatSettings } from "./csat";
+import type { HealthSettings } from "./health";
+import type { LogSettings } from "./logger";
+import type { ReopenSettings } from "./reopen";
+import type { SfLimitSettings } from "./sf-limits";
+import type { SlaSettings } from "./sla";
+import type { ValidationCacheSettings } from "./validation-cache";
+
+export type RedisConfig = {
+  host: string;
+  port: number;
+  username?: string;
+  password?: string;
+  tls?: Record<string, never>;
+};
+
+// disable: no TLS · no-verify: TLS without checking the certificate (Neon's
+// default, what db.ts always did) · verify-full: TLS checked against the
+// system CAs or DATABASE_SSL_CA.
+export type DatabaseSslMode = "disable" | "no-verify" | "verify-full";
+
+export type DatabaseConfig = {
+  url: string;
+  sslMode: DatabaseSslMode;
+  sslCa?: string; // PEM
+};
+
+// SF_AUTH_FLOW picks how the worker gets access tokens (salesforce-auth.ts):
+// refresh_token with a stored refresh token, or jwt_bearer signing an assertion
+// with the connected app's private key — no long-lived token to leak.
+export type SalesforceAuthConfig =
+  | { flow: "refresh_token"; refreshToken: string }
+  | { flow: "jwt_bearer"; username: string; privateKey: string; audience: string };
+
+export type SalesforceConfig = {
+  clientId: string;
+  clientSecret: string | null; // refresh_token needs it; introspection uses it when present
+  auth: SalesforceAuthConfig;
+  introspectTokens: boolean;
+  loginUrl: string;
+  apiVersion: string;
+  tokenSkewSeconds: number;
+  requestTimeoutMs: number;
+  maxRetries: number;
+  retryBaseMs: number;
+  breakerThreshold: number; // consecutive failures; 0 turns the breaker off
+  breakerCooldownMs: number;
+};
+
+// Each workspace that installs the app gets its own bot token (slack_installation,
+// filled by the OAuth flow). SLACK_BOT_TOKEN is the token for the app's home
+// workspace and for calls whose team has no installation; it is optional once
+// SLACK_CLIENT_ID and SLACK_CLIENT_SECRET are set.
+export type SlackConfig = {
+  botToken: string | null;
+  clientId: string | null;
+  clientSecret: string | null;
+  apiUrl: string;
+  maxRateLimitRetries: number;
+};
+
+export type WorkerConfig = {
+  concurrency: number;
+  casesPageSize: number;
+  commentsPageSize: number;
+  shutdownTimeoutMs: number;
+};
+
+export type Config = {
+  redis: RedisConfig;
+  database: DatabaseConfig;
+  salesforce: SalesforceConfig;
+  slack: SlackConfig;
+  worker: WorkerConfig;
+  logging: LogSettings;
+  health: HealthSettings;
+  caseFiles: CaseFileLimits;
+  csat: CsatSettings;
+  reopen: ReopenSettings;
+  sla: SlaSettings;
+  sfLimits: SfLimitSettings;
+  validationCache: ValidationCacheSettings;
+  audit: AuditRetentionSettings;
+};
+
+export type ConfigSection = keyof Config;
+
+// Every problem found, so one deploy fixes them all.
+export class ConfigError extends Error {
+  readonly issues: string[];
+
+  constructor(issues: string[]) {
+    super(`Invalid configuration:\n  - ${issues.join("\n  - ")}`);
+    this.name = "ConfigError";
+    this.issues = issues;
+  }
+}
+
+type Env = Record<string, string | undefined>;
+
+// ── Readers ───────────────────────────────────────────────────────────────────
+// Each records an issue and returns a placeholder when the value is bad; the
+// placeholder is never used because parseConfig() throws first.
+
+function required(env: Env, name: string, issues: string[]): string {
+  const value = env[name]?.trim();
+  if (!value) issues.push(`${name} is required`);
+  return value ?? "";
+}
+
+function integer(env: Env, name: string, fallback: number, min: number, max: number, issues: string[]): number {
+  const raw = env[name]?.trim();
+  if (!raw) return fallback;
+  const n = Number(raw);
+  if (!Number.isInteger(n) || n < min || n > max) {
+    issues.push(`${name} must be a whole number from ${min} to ${max} (got "${raw}")`);
+    return fallback;
+  }
+  return n;
+}
+
+// Like integer(), for durations where a fraction (half a day) makes sense.
+function decimal(env: Env, name: string, fallback: number, min: number, max: number, issues: string[]): number {
+  const raw = env[name]?.trim();
+  if (!raw) return fallback;
+  const n = Number(raw);
+  if (!Number.isFinite(n) || n < min || n > max) {
+    issues.push(`${name} must be a number from ${min} to ${max} (got "${raw}")`);
+    return fallback;
+  }
+  return n;
+}
+
+// The value as given (minus trailing slashes), once it parses with an allowed protocol.
+function url(env: Env, name: string, fallback: string | undefined, protocols: string[], issues: string[]): string | null {
+  const raw = (env[name]?.trim() || fallback)?.replace(/\/+$/, "");
+  if (!raw) {
+    issues.push(`${name} is required`);
+    return null;
+  }
+  try {
+    if (!protocols.includes(new URL(raw).protocol)) {
+      issues.push(`${name} must be a ${protocols.map((p) => `${p}//`).join(" or ")} URL`);
+      return null;
+    }
+    return raw;
+  } catch {
+    issues.push(`${name} is not a valid URL`);
+    return null;
+  }
+}
+
+function oneOf<T extends string>(env: Env, name: string, fallback: T, allowed: readonly T[], issues: string[]): T {
+  const raw = env[name]?.trim();
+  if (!raw) return fallback;
+  if (!allowed.includes(raw as T)) {
+    issues.push(`${name} must be one of ${allowed.join(", ")} (got "${raw}")`);
+    return fallback;
+  }
+  return raw as T;
+}
+
+// Comma-separated "key=minutes" entries ("High=60, Medium=240"), or `fallback`
+// when unset. `keys` limits the names an entry may use.
+function minutesByKey(
+  env: Env,
+  name: string,
+  fallback: Record<string, number>,
+  min: number,
+  issues: string[],
+  keys?: readonly string[]
+): Record<string, number> {
+  const raw = env[name]?.trim();
+  if (!raw) return { ...fallback };
+  const minutes: Record<string, number> = {};
+  for (const entry of raw.split(",").map((e) => e.trim()).filter(Boolean)) {
+    const match = /^([^=]+?)\s*=\s*(\d+)$/.exec(entry);
+    if (!match || Number(match[2]) < min) {
+      issues.push(`${name} entries must look like Key=minutes, minutes at least ${min} (got "${entry}")`);
+    } else if (keys && !keys.includes(match[1])) {
+      issues.push(`${name}: "${match[1]}" is not one of ${keys.join(", ")}`);
+    } else {
+      minutes[match[1]] = Number(match[2]);
+    }
+  }
+  return minutes;
+}
+
+// Comma-separated whole numbers from `min` to `max`, sorted and deduplicated.
+function integerList(env: Env, name: string, fallback: string, min: number, max: number, issues: string[]): number[] {
+  const raw = env[name]?.trim() || fallback;
+  const values: number[] = [];
+  for (const entry of raw.split(",").map((e) => e.trim()).filter(Boolean)) {
+    const n = Number(entry);
+    if (!Number.isInteger(n) || n < min || n > max) {
+      issues.push(`${name} entries must be whole numbers from ${min} to ${max} (got "${entry}")`);
+    } else {
+      values.push(n);
+    }
+  }
+  return [...new Set(values)].sort((a, b) => a - b);
+}
+
+// PEM from SF_JWT_PRIVATE_KEY (literal "\n"s allowed, for one-line env files)
+// or SF_JWT_PRIVATE_KEY_FILE, checked to be a usable private key.
+function privateKey(env: Env, issues: string[]): string {
+  const inline = env.SF_JWT_PRIVATE_KEY?.trim();
+  const file = env.SF_JWT_PRIVATE_KEY_FILE?.trim();
+  let pem = "";
+  if (inline) pem = inline.replace(/\\n/g, "\n");
+  else if (file) {
+    try {
+      pem = fs.readFileSync(file, "utf8");
+    } catch {
+      issues.push(`SF_JWT_PRIVATE_KEY_FILE: cannot read ${file}`);
+      return "";
+    }
+  } else {
+    issues.push("SF_JWT_PRIVATE_KEY or SF_JWT_PRIVATE_KEY_FILE is required for SF_AUTH_FLOW=jwt_bearer");
+    return "";
+  }
+  try {
+    createPrivateKey(pem);
+  } catch {
+    issues.push("SF JWT private key is not a valid PEM private key");
+  }
+  return pem;
+}
+
+// ── Sections ──────────────────────────────────────────────────────────────────
+
+const DEFAULT_ALLOWED_EXTENSIONS = [
+  "png", "jpg", "jpeg", "gif", "webp", "heic",
+  "pdf", "txt", "log", "csv", "json", "xml",
+  "doc", "docx", "xls", "xlsx", "ppt", "pptx",
+  "zip", "har", "mp4", "mov",
+];
+
+// Salesforce takes at most 50 MB of base64 in a REST ContentVersion insert,
+// which is about 37 MB of file
+const MAX_CASE_FILE_MB = 37;
+
+// Settled answers last longer than ones waiting on someone
+const DEFAULT_VALIDATION_TTL_MINUTES: Record<ValidateUserResponse["status"], number> = {
+  approved: 360,
+  channel_not_linked: 360,
+  no_entitlement: 60,
+  contact_not_found: 5,
+  pending_approval: 2,
+};
+
+const VALIDATION_STATUSES = Object.keys(DEFAULT_VALIDATION_TTL_MINUTES) as ValidateUserResponse["status"][];
+
+const SECTIONS: { [K in ConfigSection]: (env: Env, issues: string[]) => Config[K] } = {
+  redis(env, issues) {
+    const raw = url(env, "REDIS_URL", undefined, ["redis:", "rediss:"], issues);
+    if (!raw) return { host: "", port: 0 };
+    const parsed = new URL(raw);
+    return {
+      host: parsed.hostname,
+      port: parsed.port ? Number(parsed.port) : 6379,
+      username: parsed.username ? decodeURIComponent(parsed.username) : undefined,
+      password: parsed.password ? decodeURIComponent(parsed.password) : undefined,
+      ...(parsed.protocol === "rediss:" ? { tls: {} } : {}),
+    };
+  },
+
+  database(env, issues) {
+    const databaseUrl = url(env, "DATABASE_URL", undefined, ["postgres:", "postgresql:"], issues);
+    const sslMode = oneOf<DatabaseSslMode>(env, "DATABASE_SSL", "no-verify", ["disable", "no-verify", "verify-full"], issues);
+    let sslCa: string | undefined;
+    const caPath = env.DATABASE_SSL_CA?.trim();
+    if (caPath) {
+      if (sslMode !== "verify-full") issues.push("DATABASE_SSL_CA only applies with DATABASE_SSL=verify-full");
+      try {
+        sslCa = fs.readFileSync(caPath, "utf8");
+      } catch {
+        issues.push(`DATABASE_SSL_CA: cannot read ${caPath}`);
+      }
+    }
+    return { url: databaseUrl ?? "", sslMode, sslCa };
+  },
+
+  salesforce(env, issues) {
+    const loginUrl = url(env, "SF_LOGIN_URL", "https://login.salesforce.com", ["https:", "http:"], issues) ?? "";
+    const apiVersion = env.SF_API_VERSION?.trim() || "60.0";
+    if (!/^\d+\.0$/.test(apiVersion)) issues.push(`SF_API_VERSION must look like 60.0 (got "${apiVersion}")`);
+    const flow = oneOf(env, "SF_AUTH_FLOW", "refresh_token", ["refresh_token", "jwt_bearer"] as const, issues);
+    const clientSecret = env.SF_CLIENT_SECRET?.trim() || null;
+
+    let auth: SalesforceAuthConfig;
+    if (flow === "jwt_bearer") {
+      auth = {
+        flow,
+        username: required(env, "SF_USERNAME", issues),
+        privateKey: privateKey(env, issues),
+        audience: url(env, "SF_JWT_AUDIENCE", loginUrl || undefined, ["https:", "http:"], issues) ?? "",
+      };
+    } else {
+      if (!clientSecret) issues.push("SF_CLIENT_SECRET is required");
+      auth = { flow, refreshToken: required(env, "SF_REFRESH_TOKEN", issues) };
+    }
+
+    return {
+      clientId: required(env, "SF_CLIENT_ID", issues),
+      clientSecret,
+      auth,
+      introspectTokens: oneOf(env, "SF_TOKEN_INTROSPECTION", "on", ["on", "off"] as const, issues) === "on",
+      loginUrl,
+      apiVersion,
+      tokenSkewSeconds: integer(env, "SF_TOKEN_SKEW_SECONDS", 60, 0, 300, issues),
+      requestTimeoutMs: integer(env, "SF_TIMEOUT_SECONDS", 20, 1, 300, issues) * 1000,
+      maxRetries: integer(env, "SF_MAX_RETRIES", 2, 0, 10, issues),
+      retryBaseMs: integer(env, "SF_RETRY_BASE_MS", 500, 1, 60_000, issues),
+      breakerThreshold: integer(env, "SF_BREAKER_THRESHOLD", 5, 0, 1000, issues),
+      breakerCooldownMs: integer(env, "SF_BREAKER_COOLDOWN_SECONDS", 30, 1, 3600, issues) * 1000,
+    };
+  },
+
+  slack(env, issues) {
+    const botToken = env.SLACK_BOT_TOKEN?.trim() || null;
+    const clientId = env.SLACK_CLIENT_ID?.trim() || null;
+    const clientSecret = env.SLACK_CLIENT_SECRET?.trim() || null;
+    if (botToken && !botToken.startsWith("xoxb-")) issues.push("SLACK_BOT_TOKEN must be a bot token (xoxb-…)");
+    if (Boolean(clientId) !== Boolean(clientSecret)) issues.push("SLACK_CLIENT_ID and SLACK_CLIENT_SECRET must be set together");
+    if (!botToken && !clientId && !clientSecret) issues.push("SLACK_BOT_TOKEN is required unless SLACK_CLIENT_ID and SLACK_CLIENT_SECRET are set");
+    const apiUrl = url(env, "SLACK_API_URL", "https://slack.com/api", ["https:", "http:"], issues);
+    return {
+      botToken,
+      clientId,
+      clientSecret,
+      apiUrl: apiUrl ?? "",
+      maxRateLimitRetries: integer(env, "SLACK_MAX_RATE_LIMIT_RETRIES", 3, 0, 10, issues),
+    };
+  },
+
+  // Slack allows 100 blocks per message or modal, which caps the page sizes.
+  worker(env, issues) {
+    return {
+      concurrency: integer(env, "WORKER_CONCURRENCY", 5, 1, 100, issues),
+      casesPageSize: integer(env, "CASES_PAGE_SIZE", 5, 1, 25, issues),
+      commentsPageSize: integer(env, "COMMENTS_PAGE_SIZE", 10, 1, 25, issues),
+      shutdownTimeoutMs: integer(env, "SHUTDOWN_TIMEOUT_SECONDS", 30, 1, 3600, issues) * 1000,
+    };
+  },
+
+  logging(env, issues) {
+    return {
+      level: oneOf(env, "LOG_LEVEL", "info", ["debug", "info", "warn", "error"] as const, issues),
+      maxText: integer(env, "LOG_MAX_TEXT", 200, 1, 100_000, issues),
+    };
+  },
+
+  // 0 turns the health server off
+  health(env, issues) {
+    return { port: integer(env, "HEALTH_PORT", 9090, 0, 65535, issues) };
+  },
+
+  caseFiles(env, issues) {
+    const raw = env.CASE_FILE_ALLOWED_EXTENSIONS?.trim();
+    const allowed = raw
+      ? raw.split(",").map((e) => e.trim().toLowerCase().replace(/^\./, "")).filter(Boolean)
+      : DEFAULT_ALLOWED_EXTENSIONS;
+    if (raw && !allowed.length) issues.push("CASE_FILE_ALLOWED_EXTENSIONS must list at least one extension");
+    return {
+      maxBytes: integer(env, "CASE_FILE_MAX_MB", 20, 1, MAX_CASE_FILE_MB, issues) * 1024 * 1024,
+      allowedExtensions: new Set(allowed),
+    };
+  },
+
+  csat(env, issues) {
+    return {
+      delayMs: decimal(env, "CSAT_SURVEY_DELAY_MINUTES", 60, 0, 10_080, issues) * 60_000,
+      reminderMs: decimal(env, "CSAT_REMINDER_DAYS", 0, 0, 90, issues) * 86_400_000,
+    };
+  },
+
+  reopen(env, issues) {
+    return { graceMs: decimal(env, "CASE_REOPEN_GRACE_DAYS", 7, 0, 365, issues) * 86_400_000 };
+  },
+
+  sla(env, issues) {
+    return {
+      firstResponse: minutesByKey(env, "SLA_FIRST_RESPONSE_MINUTES", { High: 60, Medium: 240, Low: 480 }, 1, issues),
+      timeInStatus: minutesByKey(env, "SLA_TIME_IN_STATUS_MINUTES", { High: 240, Medium: 1440, Low: 2880 }, 1, issues),
+      alertChannel: env.SLA_ALERT_CHANNEL?.trim() || null,
+      scanIntervalMs: integer(env, "SLA_SCAN_INTERVAL_MINUTES", 5, 0, 1440, issues) * 60_000,
+    };
+  },
+
+  sfLimits(env, issues) {
+    return {
+      alertThresholds: integerList(env, "SF_API_ALERT_THRESHOLDS", "80,90,95", 1, 100, issues),
+      throttlePercent: integer(env, "SF_API_THROTTLE_PERCENT", 90, 0, 100, issues),
+      throttleIntervalMs: integer(env, "SF_API_THROTTLE_INTERVAL_SECONDS", 30, 1, 3600, issues) * 1000,
+      deferPercent: integer(env, "SF_API_DEFER_PERCENT", 95, 0, 100, issues),
+      deferMs: integer(env, "SF_API_DEFER_MINUTES", 15, 1, 1440, issues) * 60_000,
+      alertChannel: env.SF_API_ALERT_CHANNEL?.trim() || null,
+    };
+  },
+
+  validationCache(env, issues) {
+    // Overrides single statuses; the rest keep their defaults
+    const minutes = {
+      ...DEFAULT_VALIDATION_TTL_MINUTES,
+      ...minutesByKey(env, "VALIDATION_CACHE_TTL_MINUTES", {}, 0, issues, VALIDATION_STATUSES),
+    };
+    return {
+      ttlMs: Object.fromEntries(VALIDATION_STATUSES.map((status) => [status, minutes[status] * 60_000])) as ValidationCacheSettings["ttlMs"],
+      refreshPercent: integer(env, "VALIDATION_CACHE_REFRESH_PERCENT", 50, 1, 100, issues),
+    };
+  },
+
+  audit(env, issues) {
+    return {
+      compactAfterDays: decimal(env, "AUDIT_COMPACT_DAYS", 14, 0, 3650, issues),
+      deleteAfterDays: decimal(env, "AUDIT_RETENTION_DAYS", 90, 0, 3650, issues),
+    };
+  },
+};
+
+// Parses `sections` from `env`, throwing one ConfigError listing every issue.
+export function parseConfig<K extends ConfigSection>(sections: readonly K[], env: Env = process.env): Pick<Config, K> {
+  const issues: string[] = [];
+  const config = Object.fromEntries(sections.map((name) => [name, SECTIONS[name](env, issues)])) as Pick<Config, K>;
+  if (issues.length) throw new ConfigError(issues);
+  return config;
+}
+
+// ── Cached access ─────────────────────────────────────────────────────────────
+
+const ALL_SECTIONS = Object.keys(SECTIONS) as ConfigSection[];
+
+const loaded: Partial<Config> = {};
+
+// Validates and caches `sections` (all of them by default) from process.env.
+export function loadConfig<K extends ConfigSection>(sections: readonly K[] = ALL_SECTIONS as K[]): Pick<Config, K> {
+  const missing = sections.filter((s) => !(s in loaded));
+  Object.assign(loaded, parseConfig(missing));
+  return loaded as Pick<Config, K>;
+}
+
+export const redisConfig = (): RedisConfig => loadConfig(["redis"]).redis;
+export const databaseConfig = (): DatabaseConfig => loadConfig(["database"]).database;
+export const salesforceConfig = (): SalesforceConfig => loadConfig(["salesforce"]).salesforce;
+export const slackConfig = (): SlackConfig => loadConfig(["slack"]).slack;
+export const workerConfig = (): WorkerConfig => loadConfig(["worker"]).worker;
@@ -0,0 +1,149 @@
+// csat.ts — CSAT survey scheduling, the csat_survey table and the survey DM blocks
+//
+// Closing a case (from Slack or Salesforce) schedules one survey DM to whoever
+// raised it. The send runs as a delayed `send-csat-survey` job; a second
+// delayed run sends a single reminder if nobody has rated the case by then.
+import type { CaseLink } from "./case-links";
+import { parseConfig } from "./config";
+import { pool } from "./db";
+import type { Translator } from "./i18n";
+import type { JobContext } from "./jobs/types";
+import { log } from "./logger";
+import { enqueueFollowUp } from "./queue";
+
+export type CsatSurvey = {
+  case_id: string;
+  case_number: string;
+  slack_user_id: string;
+  status: "scheduled" | "sending" | "sent" | "responded";
+  scheduled_for: Date;
+  dm_channel_id: string | null;
+  message_ts: string | null;
+  sent_at: Date | null;
+  reminder_sent_at: Date | null;
+  rating: number | null;
+  responded_at: Date | null;
+  created_at: Date;
+};
+
+export type CsatSettings = { delayMs: number; reminderMs: number };
+
+// CSAT_SURVEY_DELAY_MINUTES defaults to 60; CSAT_REMINDER_DAYS of 0 (the default) disables reminders.
+export function csatSettings(): CsatSettings {
+  return parseConfig(["csat"]).csat;
+}
+
+// ── Scheduling ────────────────────────────────────────────────────────────────
+
+export async function scheduleCsatSurvey(ctx: JobContext, link: CaseLink): Promise<void> {
+  if (!link.raised_by) {
+    log.info("Case has no Slack requester — no survey", { case_id: link.case_id });
+    return;
+  }
+
+  const { delayMs } = csatSettings();
+  const { rows } = await pool.query<CsatSurvey>(
+    `INSERT INTO csat_survey (case_id, case_number, slack_user_id, scheduled_for)
+     VALUES ($1, $2, $3, NOW() + $4 * INTERVAL '1 millisecond')
+     ON CONFLICT (case_id) DO UPDATE SET case_id = EXCLUDED.case_id
+     RETURNING *`,
+    [link.case_id, link.case_number, link.raised_by, delayMs]
+  );
+  const survey = rows[0];
+
+  // Only a survey that hasn't gone out is (re-)enqueued; the fixed job ID makes
+  // a repeat after a crash between insert and enqueue a no-op in BullMQ.
+  if (survey.status !== "scheduled") {
+    log.info("Case already surveyed — skipping", { case_id: link.case_id });
+    return;
+  }
+  await enqueueFollowUp(ctx, "send-csat-survey", { case_id: link.case_id }, {
+    jobId: `csat-survey-${link.case_id}`,
+    delay: Math.max(0, survey.scheduled_for.getTime() - Date.now()),
+  });
+  log.info("CSAT survey scheduled", { case_id: link.case_id, scheduled_for: survey.scheduled_for.toISOString() });
+}
+
+export async function scheduleCsatReminder(ctx: JobContext, caseId: string): Promise<void> {
+  const { reminderMs } = csatSettings();
+  if (!reminderMs) return;
+  await enqueueFollowUp(ctx, "send-csat-survey", { case_id: caseId, reminder: true }, {
+    jobId: `csat-reminder-${caseId}`,
+    delay: reminderMs,
+  });
+}
+
+// ── csat_survey ───────────────────────────────────────────────────────────────
+
+// Claims a survey for sending. Returns null once it was sent, so repeated jobs
+// post the DM once. A 'sending' row is taken over: it is left behind by an
+// attempt that failed or stalled after posting, and send-csat-survey's job
+// steps keep the retry from posting the DM again.
+export async function claimSurveyForSend(caseId: string): Promise<CsatSurvey | null> {
+  const { rows } = await pool.query<CsatSurvey>(
+    "UPDATE csat_survey SET status = 'sending' WHERE case_id = $1 AND status IN ('scheduled', 'sending') RETURNING *",
+    [caseId]
+  );
+  return rows[0] ?? null;
+}
+
+export async function releaseSurveyClaim(caseId: string): Promise<void> {
+  await pool.query("UPDATE csat_survey SET status = 'scheduled' WHERE case_id = $1 AND status = 'sending'", [caseId]);
+}
+
+export async function markSurveySent(caseId: string, dmChannelId: string, messageTs: string): Promise<void> {
+  await pool.query(
+    `UPDATE csat_survey SET status = 'sent', dm_channel_id = $2, message_ts = $3, sent_at = NOW()
+     WHERE case_id = $1`,
+    [caseId, dmChannelId, messageTs]
+  );
+}
+
+// Same claim pattern for the single reminder: only unanswered, unreminded surveys.
+export async function claimSurveyForReminder(caseId: string): Promise<CsatSurvey | null> {
+  const { rows } = await pool.query<CsatSurvey>(
+    `UPDATE csat_survey SET reminder_sent_at = NOW()
+     WHERE case_id = $1 AND status = 'sent' AND reminder_sent_at IS NULL RETURNING *`,
+    [caseId]
+  );
+  return rows[0] ?? null;
+}
+
+export async function releaseReminderClaim(caseId: string): Promise<void> {
+  await pool.query("UPDATE csat_survey SET reminder_sent_at = NULL WHERE case_id = $1", [caseId]);
+}
+
+export async function markSurveyResponded(caseId: string, rating: number): Promise<void> {
+  await pool.query(
+    "UPDATE csat_survey SET status = 'responded', rating = $2, responded_at = NOW() WHERE case_id = $1",
+    [caseId, rating]
+  );
+}
+
+// ── Survey DM ─────────────────────────────────────────────────────────────────
+
+// Each button feeds the existing csat-response job with the same value shape
+// the feedback button already uses.
+export function buildCsatSurveyBlocks(caseId: string, caseNumber: string, t: Translator, reminder = false): unknown[] {
+  const intro = t.t(reminder ? "csat.reminderIntro" : "csat.intro", { caseNumber });
+
+  return [
+    {
+      type: "section",
+      text: { type: "mrkdwn", text: intro },
+    },
+    {
+      type: "actions",
+      elements: [1, 2, 3, 4, 5].map((rating) => ({
+        type: "button",
+        action_id: `barry_csat_rate_${rating}`,
+        text: { type: "plain_text", text: "⭐".repeat(rating) },
+        value: JSON.stringify({ case_id: caseId, case_number: caseNumber, rating }),
+      })),
+    },
+    {
+      type: "context",
+      elements: [{ type: "mrkdwn", text: t.t("csat.scale") }],
+    },
+  ];
+}
@@ -1,14 +1,16 @@
+// db.ts — the shared Postgres pool
 import { Pool } from "pg";
+import { databaseConfig, type DatabaseConfig } from "./config";
 
-function requireEnv(name: string): string {
-  const v = process.env[name];
-  if (!v) throw new Error(`Missing ${name} in environment variables`);
-  return v;
+function sslOptions({ sslMode, sslCa }: DatabaseConfig) {
+  if (sslMode === "disable") return false;
+  if (sslMode === "no-verify") return { rejectUnauthorized: false }; // Neon requires SSL
+  return { rejectUnauthorized: true, ca: sslCa };
 }
 
-const databaseUrl = requireEnv("DATABASE_URL");
+const database = databaseConfig();
 
 export const pool = new Pool({
-  connectionString: databaseUrl,
-  ssl: { rejectUnauthorized: false }, // Neon requires SSL
-});
\ No newline at end of file
+  connectionString: database.url,
+  ssl: sslOptions(database),
+});
@@ -0,0 +1,84 @@
+// digest-subscriptions.ts — the channel_digest table and the cases a digest lists
+import { pool } from "./db";
+import { nextDigestRun, type DigestCase, type DigestSchedule } from "./digest";
+
+export type DigestSubscription = DigestSchedule & {
+  channel_id: string;
+  team_id: string;
+  subscribed_by: string;
+  next_run_at: Date;
+  last_sent_at: Date | null;
+  created_at: Date;
+  updated_at: Date;
+};
+
+export async function findDigestSubscription(channelId: string): Promise<DigestSubscription | null> {
+  const { rows } = await pool.query<DigestSubscription>("SELECT * FROM channel_digest WHERE channel_id = $1", [channelId]);
+  return rows[0] ?? null;
+}
+
+// Subscribing again replaces the schedule but keeps last_sent_at, so the next
+// digest still reports everything closed since the previous one.
+export async function saveDigestSubscription(
+  channelId: string,
+  teamId: string,
+  userId: string,
+  schedule: DigestSchedule,
+  now = new Date()
+): Promise<DigestSubscription> {
+  const { rows } = await pool.query<DigestSubscription>(
+    `INSERT INTO channel_digest (channel_id, team_id, frequency, weekday, hour, minute, timezone, subscribed_by, next_run_at)
+     VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+     ON CONFLICT (channel_id) DO UPDATE SET
+       team_id = EXCLUDED.team_id, frequency = EXCLUDED.frequency, weekday = EXCLUDED.weekday,
+       hour = EXCLUDED.hour, minute = EXCLUDED.minute, timezone = EXCLUDED.timezone,
+       subscribed_by = EXCLUDED.subscribed_by, next_run_at = EXCLUDED.next_run_at, updated_at = NOW()
+     RETURNING *`,
+    [channelId, teamId, schedule.frequency, schedule.weekday, schedule.hour, schedule.minute, schedule.timezone, userId, nextDigestRun(schedule, now)]
+  );
+  return rows[0];
+}
+
+export async function deleteDigestSubscription(channelId: string): Promise<boolean> {
+  const { rowCount } = await pool.query("DELETE FROM channel_digest WHERE channel_id = $1", [channelId]);
+  return (rowCount ?? 0) > 0;
+}
+
+export async function dueDigestSubscriptions(now = new Date()): Promise<DigestSubscription[]> {
+  const { rows } = await pool.query<DigestSubscription>(
+    "SELECT * FROM channel_digest WHERE next_run_at <= $1 ORDER BY next_run_at",
+    [now]
+  );
+  return rows;
+}
+
+// Moves a due subscription on to its next run. Only the scan that still sees
+// the old next_run_at wins, so overlapping scans don't both advance it (compared
+// at millisecond precision, which is all a JS Date carries).
+export async function advanceDigestSubscription(sub: DigestSubscription, now = new Date()): Promise<boolean> {
+  const { rowCount } = await pool.query(
+    "UPDATE channel_digest SET next_run_at = $3 WHERE channel_id = $1 AND date_trunc('milliseconds', next_run_at) = $2",
+    [sub.channel_id, sub.next_run_at, nextDigestRun(sub, now)]
+  );
+  return (rowCount ?? 0) > 0;
+}
+
+export async function markDigestSent(channelId: string, sentAt: Date): Promise<void> {
+  await pool.query("UPDATE channel_digest SET last_sent_at = $2 WHERE channel_id = $1", [channelId, sentAt]);
+}
+
+// Open cases in the channel, and those closed after `closedSince`. Cases whose
+// status was never mirrored are left out rather than listed as open.
+export async function digestCases(channelId: string, closedSince: Date): Promise<{ open: DigestCase[]; closed: DigestCase[] }> {
+  const { rows } = await pool.query<DigestCase & { status_changed_at: Date | null }>(
+    `SELECT case_id, case_number, channel_id, message_ts, subject, priority, status, status_changed_at
+     FROM case_slack_link
+     WHERE channel_id = $1 AND status IS NOT NULL AND (status <> 'Closed' OR status_changed_at > $2)
+     ORDER BY created_at`,
+    [channelId, closedSince]
+  );
+  return {
+    open: rows.filter((r) => r.status !== "Closed"),
+    closed: rows.filter((r) => r.status === "Closed"),
+  };
+}
@@ -0,0 +1,186 @@
+// digest.ts — opt-in channel digests: /case-digest syntax, schedules in local time, digest blocks
+//
+//   /case-digest daily 9:00 Europe/London
+//   /case-digest weekly fri 4pm America/New_York
+//   /case-digest off
+//
+// A repeatable `digest-scan` job enqueues `send-digest` for every channel
+// whose next_run_at has passed (see digest-subscriptions.ts). Cases come from
+// the case_slack_link mirror, so each one links straight to its thread.
+import { STATUS_EMOJI, STATUS_ORDER, priorityLabel, statusName } from "./cases";
+import { canonicalTimezone, translator, type Translator } from "./i18n";
+import { upsertRepeatableJob } from "./queue";
+import { messageLink } from "./slack";
+
+export type DigestSchedule = {
+  frequency: "daily" | "weekly";
+  weekday: number | null; // weekly only, 0 = Sunday
+  hour: number;
+  minute: number;
+  timezone: string;
+};
+
+export type DigestCommand =
+  | { action: "status" }
+  | { action: "unsubscribe" }
+  | { action: "subscribe"; schedule: DigestSchedule }
+  | { action: "invalid"; error: "unknown_action" | "unknown_word"; word: string };
+
+const WEEKDAYS = ["sunday", "monday", "tuesday", "wednesday", "thursday", "friday", "saturday"];
+
+// 9, 09:30, 9am, 4:15pm
+const TIME = /^(\d{1,2})(?::(\d{2}))?\s*(am|pm)?$/i;
+
+function parseTime(token: string): { hour: number; minute: number } | null {
+  const m = TIME.exec(token);
+  if (!m) return null;
+  let hour = Number(m[1]);
+  const minute = Number(m[2] ?? 0);
+  if (m[3]) {
+    if (hour < 1 || hour > 12) return null;
+    hour = (hour % 12) + (m[3].toLowerCase() === "pm" ? 12 : 0);
+  }
+  return hour <= 23 && minute <= 59 ? { hour, minute } : null;
+}
+
+export function parseDigestCommand(text: string | undefined): DigestCommand {
+  const tokens = (text ?? "").trim().split(/\s+/).filter(Boolean);
+  const first = tokens.shift()?.toLowerCase();
+
+  if (!first || first === "status") return { action: "status" };
+  if (["off", "stop", "unsubscribe"].includes(first)) return { action: "unsubscribe" };
+  if (first !== "daily" && first !== "weekly") return { action: "invalid", error: "unknown_action", word: first };
+
+  const schedule: DigestSchedule = { frequency: first, weekday: first === "weekly" ? 1 : null, hour: 9, minute: 0, timezone: "UTC" };
+  for (const token of tokens) {
+    const lower = token.toLowerCase();
+    const day = lower.length >= 3 ? WEEKDAYS.findIndex((d) => d.startsWith(lower)) : -1;
+    const time = parseTime(token);
+
+    if (day >= 0 && first === "weekly") schedule.weekday = day;
+    else if (time) Object.assign(schedule, time);
+    else if (canonicalTimezone(token)) schedule.timezone = canonicalTimezone(token)!;
+    else return { action: "invalid", error: "unknown_word", word: token };
+  }
+  return { action: "subscribe", schedule };
+}
+
+export function describeSchedule(s: DigestSchedule, t: Translator): string {
+  const time = `${String(s.hour).padStart(2, "0")}:${String(s.minute).padStart(2, "0")}`;
+  return s.frequency === "weekly" && s.weekday !== null
+    ? t.t("digest.weekly", { weekday: t.weekday(s.weekday), time, timezone: s.timezone })
+    : t.t("digest.daily", { time, timezone: s.timezone });
+}
+
+// ── Local time ────────────────────────────────────────────────────────────────
+
+type LocalParts = { year: number; month: number; day: number; hour: number; minute: number };
+
+function localParts(date: Date, timezone: string): LocalParts {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone: timezone, hourCycle: "h23",
+    year: "numeric", month: "numeric", day: "numeric", hour: "numeric", minute: "numeric",
+  }).formatToParts(date);
+  const get = (type: string) => Number(parts.find((p) => p.type === type)?.value);
+  return { year: get("year"), month: get("month"), day: get("day"), hour: get("hour"), minute: get("minute") };
+}
+
+// Offset of `timezone` from UTC at `date`, in ms (positive east of UTC).
+function offsetMs(date: Date, timezone: string): number {
+  const p = localParts(date, timezone);
+  const wall = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute);
+  return wall - Math.floor(date.getTime() / 60_000) * 60_000;
+}
+
+// A wall-clock time in `timezone` as a UTC instant. Re-checking the offset at
+// the first guess keeps runs on the right side of DST changes.
+function fromLocal(year: number, month: number, day: number, hour: number, minute: number, timezone: string): Date {
+  const wall = Date.UTC(year, month - 1, day, hour, minute);
+  const guess = wall - offsetMs(new Date(wall), timezone);
+  return new Date(wall - offsetMs(new Date(guess), timezone));
+}
+
+// First scheduled time strictly after `after`.
+export function nextDigestRun(s: DigestSchedule, after: Date): Date {
+  const today = localParts(after, s.timezone);
+  for (let i = 0; i <= 8; i++) {
+    const day = new Date(Date.UTC(today.year, today.month - 1, today.day + i));
+    if (s.frequency === "weekly" && day.getUTCDay() !== s.weekday) continue;
+    const run = fromLocal(day.getUTCFullYear(), day.getUTCMonth() + 1, day.getUTCDate(), s.hour, s.minute, s.timezone);
+    if (run > after) return run;
+  }
+  throw new Error(`No digest run found for ${describeSchedule(s, translator())}`);
+}
+
+// ── Scheduling ────────────────────────────────────────────────────────────────
+
+const DIGEST_SCAN_INTERVAL_MS = 5 * 60_000;
+
+export async function scheduleDigestScan(queueName: string): Promise<void> {
+  await upsertRepeatableJob(queueName, "digest-scan", DIGEST_SCAN_INTERVAL_MS, "digest-scan");
+}
+
+// ── Digest message ────────────────────────────────────────────────────────────
+
+export type DigestCase = {
+  case_id: string;
+  case_number: string;
+  channel_id: string;
+  message_ts: string;
+  subject: string | null;
+  priority: string | null;
+  status: string;
+};
+
+const MAX_LINES_PER_SECTION = 15;
+
+function caseLines(cases: DigestCase[], t: Translator): string {
+  const lines = cases.slice(0, MAX_LINES_PER_SECTION).map((c) =>
+    `• <${messageLink(c.channel_id, c.message_ts)}|#${c.case_number}> ${c.subject ?? t.t("common.noSubject")}` +
+    (c.priority ? ` — ${priorityLabel(c.priority, t)}` : "")
+  );
+  if (cases.length > MAX_LINES_PER_SECTION) lines.push(t.t("digest.more", { count: cases.length - MAX_LINES_PER_SECTION }));
+  return lines.join("\n");
+}
+
+function section(title: string, cases: DigestCase[], t: Translator) {
+  return { type: "section", text: { type: "mrkdwn", text: `*${title}* (${t.number(cases.length)})\n${caseLines(cases, t)}` } };
+}
+
+// `open` is every open case in the channel, `closed` those closed since the last digest.
+export function buildDigestBlocks(open: DigestCase[], closed: DigestCase[], schedule: DigestSchedule, t: Translator): unknown[] {
+  const waiting = open.filter((c) => c.status === "Waiting on Client");
+  const others = open.filter((c) => c.status !== "Waiting on Client");
+  const statuses = [...new Set(others.map((c) => c.status))]
+    .sort((a, b) => (STATUS_ORDER[a] ?? 99) - (STATUS_ORDER[b] ?? 99));
+
+  const blocks: unknown[] = [
+    {
+      type: "header",
+      text: { type: "plain_text", text: t.t(schedule.frequency === "weekly" ? "digest.headerWeekly" : "digest.headerDaily") },
+    },
+    {
+      type: "context",
+      elements: [{ type: "mrkdwn", text: t.t("digest.summary", { open: open.length, waiting: waiting.length, closed: closed.length }) }],
+    },
+  ];
+
+  if (waiting.length) {
+    blocks.push(section(`${STATUS_EMOJI["Waiting on Client"]} ${t.t("digest.waiting")}`, waiting, t));
+  }
+  for (const status of statuses) {
+    blocks.push(section(`${STATUS_EMOJI[status] ?? "🏷️"} ${statusName(status, t)}`, others.filter((c) => c.status === status), t));
+  }
+  if (closed.length) {
+    blocks.push(section(`${STATUS_EMOJI["Closed"]} ${t.t("digest.closedSince")}`, closed, t));
+  }
+  if (!open.length) {
+    blocks.push({ type: "section", text: { type: "mrkdwn", text: t.t("digest.noOpen") } });
+  }
+
+  blocks.push({
+    type: "context",
+    elements: [{ type: "mrkdwn", text: t.t("digest.footer", { schedule: describeSchedule(schedule, t) }) }],
+  });
+  return blocks;
+}
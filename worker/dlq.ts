@@ -0,0 +1,120 @@
+// dlq.ts — dead-letter queue: jobs that ran out of attempts, kept for inspection and replay
+//
+// When a job fails for the last time (attempts exhausted, or an unrecoverable
+// error such as a bad payload) the worker copies it to `<queue>-dlq` —
+// `barry-jobs-dlq` in production — with its payload, last error and the
+// stacktrace of every attempt. Nothing consumes the DLQ; entries wait there
+// until an operator replays or removes them with send-job.ts.
+import { UnrecoverableError, type Job, type JobsOptions, type Worker } from "bullmq";
+import { log } from "./logger";
+import { getQueue } from "./queue";
+
+export type DeadLetter = {
+  job_name: string;
+  source_queue: string;
+  source_job_id: string;
+  payload: Record<string, unknown>;
+  error: string;
+  stacktraces: string[]; // one per failed attempt, oldest first
+  attempts_made: number;
+  max_attempts: number;
+  backoff?: JobsOptions["backoff"]; // as first enqueued; reused on replay
+  enqueued_at: string;
+  first_attempt_at: string | null;
+  failed_at: string;
+  edited_at?: string;
+};
+
+export type DeadLetterEntry = { id: string; deadLetter: DeadLetter };
+
+export function dlqName(queueName: string): string {
+  return `${queueName}-dlq`;
+}
+
+// Job IDs can't contain ":" in BullMQ 5 (scheduler-made IDs do)
+const safeId = (id: string) => id.replace(/:/g, "-");
+
+export function isExhausted(job: Job, err: Error): boolean {
+  return err instanceof UnrecoverableError || err.name === "UnrecoverableError" || job.attemptsMade >= (job.opts.attempts ?? 1);
+}
+
+export async function moveToDeadLetter(job: Job, err: Error): Promise<string> {
+  const deadLetter: DeadLetter = {
+    job_name: job.name,
+    source_queue: job.queueName,
+    source_job_id: String(job.id),
+    payload: (job.data ?? {}) as Record<string, unknown>,
+    error: err.message,
+    stacktraces: job.stacktrace ?? [],
+    attempts_made: job.attemptsMade,
+    max_attempts: job.opts.attempts ?? 1,
+    backoff: job.opts.backoff,
+    enqueued_at: new Date(job.timestamp).toISOString(),
+    first_attempt_at: job.processedOn ? new Date(job.processedOn).toISOString() : null,
+    failed_at: new Date(job.finishedOn ?? Date.now()).toISOString(),
+  };
+  // Keyed by the source job, so a repeated "failed" event can't add it twice
+  const dead = await getQueue(dlqName(job.queueName)).add(job.name, deadLetter, {
+    jobId: safeId(`${job.queueName}-${job.id}`),
+  });
+  return dead.id!;
+}
+
+// Repeatable jobs (SLA scan, digests, retention) run again on their own, so
+// only one-off jobs are dead-lettered.
+export function attachDeadLetterQueue(worker: Worker): void {
+  worker.on("failed", (job, err) => {
+    if (!job || job.repeatJobKey || !isExhausted(job, err)) return;
+    const fields = { job_id: job.id, job_name: job.name, correlation_id: job.data?.correlation_id, dlq: dlqName(job.queueName) };
+    moveToDeadLetter(job, err).then(
+      (id) => log.error("Job moved to the dead-letter queue", { ...fields, dlq_id: id }),
+      (dlqErr) => log.error("Could not dead-letter job", { ...fields, error: dlqErr })
+    );
+  });
+}
+
+// ── Operator side (send-job.ts) ───────────────────────────────────────────────
+
+export async function listDeadLetters(queueName: string, opts: { jobName?: string; limit: number }): Promise<DeadLetterEntry[]> {
+  const jobs = await getQueue(dlqName(queueName)).getJobs(["waiting", "paused", "delayed"], 0, -1, true);
+  return jobs
+    .filter((j) => !opts.jobName || j.name === opts.jobName)
+    .slice(0, opts.limit)
+    .map((j) => ({ id: j.id!, deadLetter: j.data as DeadLetter }));
+}
+
+async function deadLetterJob(queueName: string, id: string): Promise<Job> {
+  const job = await getQueue(dlqName(queueName)).getJob(id);
+  if (!job) throw new Error(`No dead letter ${id} in ${dlqName(queueName)}`);
+  return job;
+}
+
+export async function getDeadLetter(queueName: string, id: string): Promise<DeadLetter> {
+  return (await deadLetterJob(queueName, id)).data as DeadLetter;
+}
+
+export async function editDeadLetter(queueName: string, id: string, payload: Record<string, unknown>): Promise<void> {
+  const job = await deadLetterJob(queueName, id);
+  await job.updateData({ ...(job.data as DeadLetter), payload, edited_at: new Date().toISOString() });
+}
+
+// Re-enqueues the (possibly edited) payload on the source queue under the
+// same correlation ID, so audit-log.ts shows the replay on the original
+// timeline, then drops the DLQ entry. The replay gets the retry policy the
+// job was first enqueued with, so a one-shot job stays one-shot.
+export async function replayDeadLetter(queueName: string, id: string): Promise<string> {
+  const job = await deadLetterJob(queueName, id);
+  const { job_name, source_queue, payload, max_attempts, backoff } = job.data as DeadLetter;
+  const replayed = await getQueue(source_queue).add(job_name, payload, {
+    attempts: max_attempts,
+    backoff,
+    removeOnComplete: true,
+    removeOnFail: false,
+  });
+  await job.remove();
+  return replayed.id!;
+}
+
+export async function removeDeadLetter(queueName: string, id: string): Promise<void> {
+  await (await deadLetterJob(queueName, id)).remove();
+}
@@ -0,0 +1,101 @@
+// health.ts — the worker's HTTP surface for the orchestrator and Prometheus
+//
+//   GET /healthz   liveness: the process is up and serving
+//   GET /readyz    readiness: every dependency check passes (503 with details otherwise)
+//   GET /metrics   Prometheus text format (metrics.ts)
+//
+// worker.ts passes in the checks (Redis, Postgres, Salesforce token) so this
+// module stays free of connections of its own. HEALTH_PORT (default 9090)
+// picks the port; worker.ts skips the server when it is 0.
+import http from "node:http";
+import type { AddressInfo } from "node:net";
+import { parseConfig } from "./config";
+import { log } from "./logger";
+import { renderMetrics } from "./metrics";
+
+export type ReadinessCheck = () => Promise<unknown>;
+
+export type CheckResult = { ok: boolean; ms: number; error?: string };
+
+const CHECK_TIMEOUT_MS = 5_000;
+
+export type HealthSettings = { port: number };
+
+export function healthSettings(): HealthSettings {
+  return parseConfig(["health"]).health;
+}
+
+function withTimeout<T>(promise: Promise<T>, ms: number): Promise<T> {
+  let timer: NodeJS.Timeout;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new Error(`timed out after ${ms}ms`)), ms);
+  });
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
+
+// Runs every check in parallel; a check passes when it resolves within the timeout.
+export async function runReadinessChecks(
+  checks: Record<string, ReadinessCheck>,
+  timeoutMs = CHECK_TIMEOUT_MS
+): Promise<{ ready: boolean; checks: Record<string, CheckResult> }> {
+  const entries = await Promise.all(
+    Object.entries(checks).map(async ([name, check]): Promise<[string, CheckResult]> => {
+      const started = Date.now();
+      try {
+        await withTimeout(Promise.resolve().then(check), timeoutMs);
+        return [name, { ok: true, ms: Date.now() - started }];
+      } catch (err) {
+        return [name, { ok: false, ms: Date.now() - started, error: err instanceof Error ? err.message : String(err) }];
+      }
+    })
+  );
+  return { ready: entries.every(([, r]) => r.ok), checks: Object.fromEntries(entries) };
+}
+
+function sendJson(res: http.ServerResponse, status: number, body: unknown) {
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(JSON.stringify(body));
+}
+
+export async function startHealthServer(
+  checks: Record<string, ReadinessCheck>,
+  port = healthSettings().port
+): Promise<http.Server> {
+  const server = http.createServer((req, res) => {
+    const path = (req.url ?? "/").split("?")[0];
+    if (req.method !== "GET") return sendJson(res, 405, { error: "method not allowed" });
+
+    if (path === "/healthz") return sendJson(res, 200, { status: "ok" });
+
+    if (path === "/readyz") {
+      runReadinessChecks(checks).then(
+        (result) => {
+          if (!result.ready) log.warn("Readiness check failed", { checks: result.checks });
+          sendJson(res, result.ready ? 200 : 503, { status: result.ready ? "ready" : "not ready", checks: result.checks });
+        },
+        (err) => sendJson(res, 500, { error: String(err) })
+      );
+      return;
+    }
+
+    if (path === "/metrics") {
+      renderMetrics().then(
+        (text) => {
+          res.writeHead(200, { "Content-Type": "text/plain; version=0.0.4; charset=utf-8" });
+          res.end(text);
+        },
+        (err) => sendJson(res, 500, { error: String(err) })
+      );
+      return;
+    }
+
+    sendJson(res, 404, { error: "not found" });
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    server.once("error", reject);
+    server.listen(port, () => resolve());
+  });
+  log.info("Health server listening", { port: (server.address() as AddressInfo).port });
+  return server;
+}
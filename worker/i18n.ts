@@ -0,0 +1,144 @@
+// i18n.ts — message catalogues, per-locale formatting and the /case-language syntax
+//
+//   /case-language de Europe/Berlin
+//   /case-language fr
+//   /case-language off
+//
+// Every user-visible string lives in locales/*.ts under a flat key. English
+// (locales/en.ts) is complete and defines the keys; other catalogues may leave
+// keys out, and those fall back to English. Messages take `{name}` params and
+// may have plural forms, chosen by `count` with Intl.PluralRules.
+//
+// A Translator fixes the locale and timezone for one audience; which ones
+// apply to a message is decided in locale-settings.ts.
+import { de } from "./locales/de";
+import { en } from "./locales/en";
+import { fr } from "./locales/fr";
+
+export const LOCALES = ["en", "de", "fr"] as const;
+export type Locale = (typeof LOCALES)[number];
+export const DEFAULT_LOCALE: Locale = "en";
+
+export type PluralMessage = Partial<Record<Intl.LDMLPluralRule, string>> & { other: string };
+export type Message = string | PluralMessage;
+export type MessageKey = keyof typeof en;
+export type Catalogue = Partial<Record<MessageKey, Message>>;
+export type MessageParams = Record<string, string | number>;
+
+const CATALOGUES: Record<Locale, Catalogue> = { en, de, fr };
+
+// The regional formats dates and numbers follow. en-GB keeps "3 Mar 2024".
+const INTL_TAGS: Record<Locale, string> = { en: "en-GB", de: "de-DE", fr: "fr-FR" };
+
+// "de", "de-DE", "fr_CA" → the supported language, or null.
+export function supportedLocale(tag: string | null | undefined): Locale | null {
+  const language = (tag ?? "").trim().toLowerCase().split(/[-_]/)[0];
+  return (LOCALES as readonly string[]).includes(language) ? (language as Locale) : null;
+}
+
+// IANA name as Intl spells it ("europe/london" → "Europe/London"), or null if unknown.
+export function canonicalTimezone(tz: string): string | null {
+  try {
+    return new Intl.DateTimeFormat("en-US", { timeZone: tz }).resolvedOptions().timeZone;
+  } catch {
+    return null;
+  }
+}
+
+// ── Translator ────────────────────────────────────────────────────────────────
+
+export type Translator = {
+  locale: Locale;
+  timeZone: string;
+  t(key: MessageKey, params?: MessageParams): string;
+  date(value: Date | string): string; // 3 Mar 2024
+  dateTime(value: Date | string): string; // 3 Mar 2024, 14:05 UTC
+  number(value: number, options?: Intl.NumberFormatOptions): string;
+  duration(minutes: number): string; // 45m, 3h, 3d
+  fileSize(bytes: number): string;
+  weekday(day: number): string; // 0 = Sunday
+  languageName(locale: Locale): string;
+  slackDate(value: Date): string; // rendered by Slack in each viewer's timezone
+};
+
+function pick(message: Message, count: unknown, rules: Intl.PluralRules): string {
+  if (typeof message === "string") return message;
+  return (typeof count === "number" ? message[rules.select(count)] : undefined) ?? message.other;
+}
+
+// Only params that are given are replaced, so Slack's own {date_short_pretty}
+// tokens pass through untouched.
+function interpolate(text: string, params: MessageParams, formatNumber: (n: number) => string): string {
+  return text.replace(/\{(\w+)\}/g, (token, name: string) => {
+    if (!Object.prototype.hasOwnProperty.call(params, name)) return token;
+    const value = params[name];
+    return typeof value === "number" ? formatNumber(value) : value;
+  });
+}
+
+export function translator(locale: Locale = DEFAULT_LOCALE, timeZone = "UTC"): Translator {
+  const tag = INTL_TAGS[locale];
+  const rules = new Intl.PluralRules(tag);
+  const numbers = new Intl.NumberFormat(tag);
+  const dates = new Intl.DateTimeFormat(tag, { day: "numeric", month: "short", year: "numeric", timeZone });
+  const dateTimes = new Intl.DateTimeFormat(tag, {
+    day: "numeric", month: "short", year: "numeric", hour: "2-digit", minute: "2-digit", timeZone, timeZoneName: "short",
+  });
+  const unit = (name: string, value: number, unitDisplay: "narrow" | "short", maximumFractionDigits = 0) =>
+    new Intl.NumberFormat(tag, { style: "unit", unit: name, unitDisplay, maximumFractionDigits }).format(value);
+
+  const self: Translator = {
+    locale,
+    timeZone,
+    t(key, params = {}) {
+      const message = CATALOGUES[locale][key] ?? en[key];
+      if (message === undefined) return key;
+      return interpolate(pick(message, params.count, rules), params, (n) => numbers.format(n));
+    },
+    date: (value) => dates.format(new Date(value)),
+    dateTime: (value) => dateTimes.format(new Date(value)),
+    number: (value, options) => (options ? new Intl.NumberFormat(tag, options) : numbers).format(value),
+    duration(minutes) {
+      if (minutes < 60) return unit("minute", Math.round(minutes), "narrow");
+      if (minutes < 48 * 60) return unit("hour", Math.round(minutes / 60), "narrow");
+      return unit("day", Math.round(minutes / 1440), "narrow");
+    },
+    fileSize(bytes) {
+      if (bytes >= 1024 * 1024) return unit("megabyte", bytes / (1024 * 1024), "short", 1);
+      if (bytes >= 1024) return unit("kilobyte", bytes / 1024, "short");
+      return unit("byte", bytes, "short");
+    },
+    // 7 January 2024 was a Sunday
+    weekday: (day) => new Intl.DateTimeFormat(tag, { weekday: "long", timeZone: "UTC" }).format(Date.UTC(2024, 0, 7 + day)),
+    languageName: (other) => new Intl.DisplayNames([tag], { type: "language" }).of(other) ?? other,
+    slackDate: (value) =>
+      `<!date^${Math.floor(value.getTime() / 1000)}^${self.t("slack.dateAt")}|${self.dateTime(value)}>`,
+  };
+  return self;
+}
+
+// ── /case-language ────────────────────────────────────────────────────────────
+
+export type LocaleCommand =
+  | { action: "status" }
+  | { action: "clear" }
+  | { action: "set"; locale: Locale; timezone: string | null }
+  | { action: "invalid"; word: string | null }; // null: no language given
+
+export function parseLocaleCommand(text: string | undefined): LocaleCommand {
+  const tokens = (text ?? "").trim().split(/\s+/).filter(Boolean);
+  const first = tokens[0]?.toLowerCase();
+
+  if (!first || first === "status") return { action: "status" };
+  if (["off", "auto", "reset"].includes(first)) return { action: "clear" };
+
+  let locale: Locale | null = null;
+  let timezone: string | null = null;
+  for (const token of tokens) {
+    const language = supportedLocale(token);
+    if (language && !locale) locale = language;
+    else if (canonicalTimezone(token)) timezone = canonicalTimezone(token);
+    else return { action: "invalid", word: token };
+  }
+  return locale ? { action: "set", locale, timezone } : { action: "invalid", word: null };
+}
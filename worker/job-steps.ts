@@ -0,0 +1,87 @@
+// job-steps.ts — per-step progress for jobs that must not repeat side effects on retry
+//
+// A multi-step job (create-case: SF case → announcement → thread ts → button)
+// wraps each side effect in `steps.once(name, fn)`. The result of every
+// completed step is stored in `job_step`, so a BullMQ retry — or a duplicate
+// job carrying the same idempotency key — replays recorded results and only
+// runs the steps that never finished.
+import type { PoolClient } from "pg";
+import { pool } from "./db";
+import type { JobContext } from "./jobs/types";
+import { log } from "./logger";
+
+// Thrown when another attempt holds the key. Plain Error so BullMQ retries later.
+export class JobStepsLockedError extends Error {
+  constructor(key: string) {
+    super(`Another attempt is already processing idempotency key ${key}`);
+    this.name = "JobStepsLockedError";
+  }
+}
+
+// Callers may pass an explicit `idempotency_key`; otherwise the correlation ID
+// from the edge function, and finally the BullMQ job ID, which is stable
+// across retries of the same job.
+export function idempotencyKeyFor({ job }: JobContext): string {
+  const data = (job.data ?? {}) as { idempotency_key?: unknown; correlation_id?: unknown };
+  if (typeof data.idempotency_key === "string" && data.idempotency_key) return data.idempotency_key;
+  if (typeof data.correlation_id === "string" && data.correlation_id) return data.correlation_id;
+  return `${job.queueName}:${job.id}`;
+}
+
+export class JobSteps {
+  private constructor(
+    readonly key: string,
+    readonly jobName: string,
+    private readonly completed: Map<string, unknown>
+  ) {}
+
+  static async load(client: PoolClient, key: string, jobName: string): Promise<JobSteps> {
+    const { rows } = await client.query<{ step: string; result: unknown }>(
+      "SELECT step, result FROM job_step WHERE idempotency_key = $1",
+      [key]
+    );
+    return new JobSteps(key, jobName, new Map(rows.map((r) => [r.step, r.result])));
+  }
+
+  // Run `fn` unless `step` already completed for this key; either way return its result.
+  async once<T>(step: string, fn: () => Promise<T>): Promise<T> {
+    if (this.completed.has(step)) {
+      log.info("Step already done — skipping", { key: this.key, step });
+      return this.completed.get(step) as T;
+    }
+
+    const result = await fn();
+    await pool.query(
+      `INSERT INTO job_step (idempotency_key, job_name, step, result) VALUES ($1, $2, $3, $4)
+       ON CONFLICT (idempotency_key, step) DO NOTHING`,
+      [this.key, this.jobName, step, JSON.stringify(result ?? null)]
+    );
+    this.completed.set(step, result ?? null);
+    return result;
+  }
+}
+
+// Serialises attempts for one key with a session-level advisory lock, which
+// Postgres releases on its own if the worker dies mid-job.
+export async function withJobSteps<T>(
+  key: string,
+  jobName: string,
+  fn: (steps: JobSteps) => Promise<T>
+): Promise<T> {
+  const client = await pool.connect();
+  try {
+    const { rows } = await client.query<{ locked: boolean }>(
+      "SELECT pg_try_advisory_lock(hashtext('job_step'), hashtext($1)) AS locked",
+      [key]
+    );
+    if (!rows[0].locked) throw new JobStepsLockedError(key);
+
+    try {
+      return await fn(await JobSteps.load(client, key, jobName));
+    } finally {
+      await client.query("SELECT pg_advisory_unlock(hashtext('job_step'), hashtext($1))", [key]);
+    }
+  } finally {
+    client.release();
+  }
+}
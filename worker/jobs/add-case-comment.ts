@@ -0,0 +1,31 @@
+// jobs/add-case-comment.ts — Slack thread reply → SF CaseComment
+import { sfAddCaseComment } from "../apex";
+import { recordSlackComment } from "../comment-links";
+import { log } from "../logger";
+import { s } from "./schema";
+import { defineJob } from "./types";
+
+const schema = s.object({
+  case_id: s.string(),
+  case_number: s.optional(s.string()),
+  comment_body: s.string(),
+  author_name: s.string(),
+  message_ts: s.optional(s.string()), // the Slack reply, when known
+});
+
+export default defineJob({
+  schema,
+  async handle({ case_id, comment_body, author_name, message_ts }) {
+    const sfRes = await sfAddCaseComment(case_id, comment_body, author_name);
+
+    if (!sfRes.success) {
+      log.error("Salesforce comment failed", { case_id, error: sfRes.error });
+      return;
+    }
+
+    // Remember it came from Slack so sf-comment-added never posts it back
+    if (sfRes.commentId) await recordSlackComment(case_id, sfRes.commentId, message_ts);
+
+    log.info("Comment added to Salesforce case", { case_id, comment_id: sfRes.commentId });
+  },
+});
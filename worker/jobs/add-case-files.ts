@@ -0,0 +1,136 @@
+// jobs/add-case-files.ts — files shared in a case thread → SF ContentVersion + ContentDocumentLink
+//
+// Enqueued for thread messages that carry files. Each file is checked against
+// the limits in case-files.ts, uploaded at most once per case, and the outcome
+// is reported back in the thread.
+import { sfCreateContentVersion, sfLinkDocumentToCase } from "../apex";
+import {
+  caseFileLimits,
+  fileExtension,
+  findFileLink,
+  markFileLinksConfirmed,
+  recordFileLink,
+  rejectionReason,
+  unconfirmedFileLinks,
+  type CaseFileLink,
+} from "../case-files";
+import { findCaseLinkByThread } from "../case-links";
+import type { Translator } from "../i18n";
+import { withJobSteps } from "../job-steps";
+import { translatorFor } from "../locale-settings";
+import { log } from "../logger";
+import { downloadSlackFile, slack } from "../slack";
+import { s, type Infer } from "./schema";
+import { defineJob } from "./types";
+
+const fileSchema = s.object({
+  id: s.string(),
+  name: s.string(),
+  size: s.number({ integer: true, min: 0 }),
+  mimetype: s.optional(s.string()),
+  url_private_download: s.string(),
+});
+
+const schema = s.object({
+  channel_id: s.string(),
+  thread_ts: s.string(),
+  user_id: s.optional(s.string()),
+  files: s.array(fileSchema),
+});
+
+type SlackFile = Infer<typeof fileSchema>;
+
+async function syncFile(file: SlackFile, caseId: string, userId: string | undefined): Promise<void> {
+  if (await findFileLink(file.id, caseId)) {
+    log.info("File already handled — skipping", { file_id: file.id, case_id: caseId });
+    return;
+  }
+
+  const base = { slackFileId: file.id, caseId, fileName: file.name, sizeBytes: file.size };
+  const reason = rejectionReason(file);
+  if (reason) {
+    await recordFileLink({ ...base, status: "rejected", reason });
+    log.info("File rejected", { file_id: file.id, file_name: file.name, case_id: caseId, reason });
+    return;
+  }
+
+  // Version and link are separate SF inserts; job steps keep a retry from
+  // creating a second ContentVersion when only the link failed.
+  await withJobSteps(`slack-file:${caseId}:${file.id}`, "add-case-files", async (steps) => {
+    const uploaded = await steps.once("content_version_created", async () => {
+      const data = await downloadSlackFile(file.url_private_download);
+      // The event's size is Slack's claim; enforce the limit on what we actually got
+      const { maxBytes } = caseFileLimits();
+      if (data.length > maxBytes) {
+        await recordFileLink({ ...base, sizeBytes: data.length, status: "rejected", reason: "size" });
+        return null;
+      }
+      return sfCreateContentVersion(file.name, data, `Shared in the case's Slack thread${userId ? ` by ${userId}` : ""}`);
+    });
+    if (!uploaded) return;
+
+    await steps.once("document_linked", () => sfLinkDocumentToCase(uploaded.contentDocumentId, caseId));
+    await recordFileLink({ ...base, status: "uploaded", ...uploaded });
+    log.info("File uploaded", { file_id: file.id, file_name: file.name, case_id: caseId, content_document_id: uploaded.contentDocumentId });
+  });
+}
+
+function reasonText(link: CaseFileLink, t: Translator): string {
+  switch (link.reason) {
+    case "type":
+      return t.t("files.reasonType", { ext: fileExtension(link.file_name) || "?" });
+    case "size":
+      return t.t("files.reasonSize", {
+        size: t.fileSize(Number(link.size_bytes ?? 0)),
+        limit: t.fileSize(caseFileLimits().maxBytes),
+      });
+    default:
+      return link.reason ?? "";
+  }
+}
+
+function confirmationText(caseNumber: string, links: CaseFileLink[], t: Translator): string {
+  const uploaded = links.filter((l) => l.status === "uploaded");
+  const rejected = links.filter((l) => l.status === "rejected");
+  const lines: string[] = [];
+
+  if (uploaded.length) {
+    lines.push(t.t("files.attached", { caseNumber, files: uploaded.map((l) => `*${l.file_name}*`).join(", ") }));
+  }
+  for (const l of rejected) {
+    lines.push(t.t("files.rejected", { file: l.file_name, reason: reasonText(l, t) }));
+  }
+  if (rejected.length) {
+    lines.push(t.t("files.shareAnotherWay", { count: rejected.length }));
+  }
+  return lines.join("\n");
+}
+
+export default defineJob({
+  schema,
+  async handle({ channel_id, thread_ts, user_id, files }) {
+    const link = await findCaseLinkByThread(channel_id, thread_ts);
+    if (!link) {
+      log.info("Not a case thread — skipping", { channel_id, thread_ts });
+      return;
+    }
+
+    for (const file of files) {
+      await syncFile(file, link.case_id, user_id);
+    }
+
+    // Report everything from this message that hasn't been reported yet, so a
+    // retry after a failed post still confirms but a duplicate event stays quiet.
+    const fileIds = files.map((f) => f.id);
+    const pending = await unconfirmedFileLinks(link.case_id, fileIds);
+    if (!pending.length) return;
+
+    const t = await translatorFor({ channelId: channel_id });
+    await slack.postMessage({
+      channel: channel_id,
+      thread_ts,
+      text: confirmationText(link.case_number, pending, t),
+    });
+    await markFileLinksConfirmed(link.case_id, pending.map((l) => l.slack_file_id));
+  },
+});
@@ -0,0 +1,18 @@
+// jobs/audit-retention.ts — daily repeatable job: prune, then compact, old audit_log rows
+import { applyAuditRetention, auditRetentionSettings } from "../audit";
+import { log } from "../logger";
+import { s } from "./schema";
+import { defineJob } from "./types";
+
+const schema = s.object({});
+
+export default defineJob({
+  schema,
+  async handle() {
+    const { compactAfterDays, deleteAfterDays } = auditRetentionSettings();
+    const { compacted, deleted } = await applyAuditRetention();
+    log.info("Audit retention applied", {
+      deleted, delete_after_days: deleteAfterDays || null, compacted, compact_after_days: compactAfterDays || null,
+    });
+  },
+});
@@ -0,0 +1,67 @@
+// jobs/case-detail.ts — "View details" on an announcement or /view-cases row → case detail modal
+//
+// The edge function passes `view_id` when it has already opened a loading
+// modal (trigger_ids expire after 3s), or `trigger_id` to open one here. The
+// modal's Older/Newer buttons come back through this job with a `page`.
+import { sfGetCaseDetail } from "../apex";
+import { COMMENTS_PAGE_SIZE, buildCaseDetailView } from "../cases";
+import type { Translator } from "../i18n";
+import { translatorFor } from "../locale-settings";
+import { log } from "../logger";
+import { slack, type ModalView } from "../slack";
+import { PayloadValidationError, s } from "./schema";
+import { defineJob } from "./types";
+
+const schema = s.object({
+  case_id: s.string(),
+  case_number: s.optional(s.string()),
+  user_id: s.string(),
+  team_id: s.optional(s.string()),
+  channel_id: s.optional(s.string()),
+  trigger_id: s.optional(s.string()),
+  view_id: s.optional(s.string()),
+  page: s.withDefault(s.number({ integer: true, min: 0 }), 0),
+});
+
+function messageView(caseNumber: string | undefined, text: string, t: Translator): ModalView {
+  return {
+    type: "modal",
+    callback_id: "barry_case_detail",
+    title: { type: "plain_text", text: (caseNumber ? t.t("detail.title", { caseNumber }) : t.t("detail.fallbackTitle")).slice(0, 24) },
+    close: { type: "plain_text", text: t.t("common.close") },
+    blocks: [{ type: "section", text: { type: "mrkdwn", text } }],
+  };
+}
+
+export default defineJob({
+  schema,
+  async handle({ case_id, case_number, user_id, team_id, channel_id, trigger_id, view_id, page }) {
+    if (!trigger_id && !view_id) {
+      throw new PayloadValidationError("case-detail", ["one of trigger_id or view_id is required"]);
+    }
+    const t = await translatorFor({ channelId: channel_id, userId: user_id, teamId: team_id });
+    const show = (view: ModalView) => (view_id ? slack.viewsUpdate(view_id, view) : slack.viewsOpen(trigger_id!, view));
+
+    const sfRes = await sfGetCaseDetail({
+      caseId: case_id,
+      slackTeamId: team_id,
+      slackChannelId: channel_id,
+      commentOffset: page * COMMENTS_PAGE_SIZE,
+      commentLimit: COMMENTS_PAGE_SIZE,
+    });
+
+    if (!sfRes.success || !sfRes.case) {
+      log.error("Salesforce case lookup failed", { case_id, error: sfRes.error });
+      await show(messageView(case_number, t.t("detail.loadFailed", { error: sfRes.error ?? t.t("common.unknownError") }), t));
+      return;
+    }
+
+    await show(buildCaseDetailView(sfRes.case, sfRes.comments ?? [], {
+      channelId: channel_id,
+      page,
+      totalComments: sfRes.totalComments ?? sfRes.comments?.length ?? 0,
+    }, t));
+
+    log.info("Case detail shown", { case_id, case_number: sfRes.case.caseNumber, page: page + 1, user_id });
+  },
+});
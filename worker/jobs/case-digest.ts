@@ -0,0 +1,72 @@
+// jobs/case-digest.ts — /case-digest: subscribe a linked channel to a case digest, change or stop it
+import { lookupSlackUserEmail } from "../access";
+import { describeSchedule, parseDigestCommand } from "../digest";
+import { deleteDigestSubscription, findDigestSubscription, saveDigestSubscription } from "../digest-subscriptions";
+import { translatorFor } from "../locale-settings";
+import { log } from "../logger";
+import { replyToResponseUrl, slack } from "../slack";
+import { validateUser } from "../user-validation";
+import { s } from "./schema";
+import { defineJob } from "./types";
+
+const schema = s.object({
+  team_id: s.string(),
+  channel_id: s.string(),
+  user_id: s.string(),
+  response_url: s.string(),
+  text: s.optional(s.string({ allowEmpty: true })),
+});
+
+export default defineJob({
+  schema,
+  async handle({ team_id, channel_id, user_id, response_url, text }, ctx) {
+    const reply = (message: string) => replyToResponseUrl(response_url, { replace_original: true, text: message });
+    const t = await translatorFor({ channelId: channel_id, userId: user_id, teamId: team_id });
+    const command = parseDigestCommand(text);
+
+    switch (command.action) {
+      case "invalid": {
+        const error = command.error === "unknown_action" ? "digest.unknownAction" : "digest.unknownWord";
+        await reply(`⚠️ ${t.t(error, { word: command.word })}\n${t.t("digest.usage")}`);
+        return;
+      }
+
+      case "status": {
+        const sub = await findDigestSubscription(channel_id);
+        await reply(sub
+          ? t.t("digest.status", { schedule: describeSchedule(sub, t), next: t.slackDate(sub.next_run_at) })
+          : `${t.t("digest.notSubscribed")}\n${t.t("digest.usage")}`);
+        return;
+      }
+
+      case "unsubscribe": {
+        const removed = await deleteDigestSubscription(channel_id);
+        await reply(t.t(removed ? "digest.off" : "digest.wasNotSubscribed"));
+        if (removed) log.info("Channel unsubscribed from digests", { channel_id, user_id });
+        return;
+      }
+
+      case "subscribe": {
+        // Digests only make sense for channels linked to an account
+        const email = (await lookupSlackUserEmail(team_id, user_id)) || "";
+        const validation = await validateUser(ctx, { teamId: team_id, channelId: channel_id, userId: user_id, email });
+        if (validation.status === "channel_not_linked") {
+          await reply(t.t("common.channelNotLinked"));
+          return;
+        }
+
+        const sub = await saveDigestSubscription(channel_id, team_id, user_id, command.schedule);
+        await reply(t.t("digest.on", { schedule: describeSchedule(sub, t), next: t.slackDate(sub.next_run_at) }));
+        const channelT = await translatorFor({ channelId: channel_id });
+        await slack.postMessage({
+          channel: channel_id,
+          text: channelT.t("digest.announce", { user: user_id, schedule: describeSchedule(sub, channelT) }),
+        });
+        log.info("Channel subscribed to digests", {
+          channel_id, user_id, frequency: sub.frequency, weekday: sub.weekday, hour: sub.hour, minute: sub.minute, timezone: sub.timezone,
+        });
+        return;
+      }
+    }
+  },
+});
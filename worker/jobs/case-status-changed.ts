@@ -0,0 +1,110 @@
+// jobs/case-status-changed.ts — SF case status change → refresh the Slack announcement
+//
+// Enqueued from the Salesforce status-change event (see simulate-sf-event.ts to
+// fire one locally). Rebuilds the announcement with the new status and, for
+// transitions customers should notice, posts a short note in the case thread.
+import { announcementFromLink, findCaseLink, updateCaseLinkStatus } from "../case-links";
+import { STATUS_EMOJI, buildAnnouncementBlocks, buildResolveActions, statusName } from "../cases";
+import { scheduleCsatSurvey } from "../csat";
+import type { MessageKey } from "../i18n";
+import { translatorFor } from "../locale-settings";
+import { log } from "../logger";
+import { buildClosedAnnouncement, scheduleReopenExpiry } from "../reopen";
+import { slack } from "../slack";
+import { s } from "./schema";
+import { defineJob } from "./types";
+
+const schema = s.object({
+  case_id: s.string(),
+  status: s.string(),
+  previous_status: s.optional(s.string()),
+  changed_at: s.optional(s.string()), // ISO timestamp from Salesforce LastModifiedDate
+  case_number: s.optional(s.string()),
+  subject: s.optional(s.string()),
+  priority: s.optional(s.string()),
+  type: s.optional(s.string()),
+});
+
+// Statuses worth a thread note. Everything else only updates the announcement.
+const THREAD_NOTES: Record<string, MessageKey> = {
+  "In Progress": "note.inProgress",
+  "Waiting on Client": "note.waitingOnClient",
+  "Escalated": "note.escalated",
+  "On Hold": "note.onHold",
+  "Re-opened": "note.reopened",
+  "Closed": "note.closed",
+};
+
+export default defineJob({
+  schema,
+  async handle(event, ctx) {
+    const { case_id, status, changed_at } = event;
+
+    const link = await findCaseLink(case_id);
+    if (!link) {
+      // Case wasn't raised from Slack — nothing to update
+      log.info("No Slack link for case — skipping", { case_id });
+      return;
+    }
+
+    const changedAt = changed_at ? new Date(changed_at) : new Date();
+    if (Number.isNaN(changedAt.getTime())) throw new Error(`Invalid changed_at: ${changed_at}`);
+
+    // Events can arrive out of order; never let an older change overwrite a newer one
+    if (link.status_changed_at && link.status_changed_at > changedAt) {
+      log.info("Stale status event — skipping", { case_id, status });
+      return;
+    }
+    if (link.status === status) {
+      log.info("Case already in this status — nothing to do", { case_id, status });
+      return;
+    }
+
+    const t = await translatorFor({ channelId: link.channel_id });
+    const announcement = {
+      ...announcementFromLink(link),
+      ...(event.case_number ? { caseNumber: event.case_number } : {}),
+      ...(event.subject ? { subject: event.subject } : {}),
+      ...(event.priority ? { priority: event.priority } : {}),
+      ...(event.type ? { type: event.type } : {}),
+      status,
+    };
+
+    const updated = { ...link, case_number: announcement.caseNumber, status, status_changed_at: changedAt, closed_by: null };
+
+    if (status === "Closed") {
+      await slack.update({
+        channel: link.channel_id,
+        ts: link.message_ts,
+        text: t.t("case.closedText", { caseNumber: announcement.caseNumber }),
+        blocks: buildClosedAnnouncement(updated, t),
+      });
+    } else {
+      await slack.update({
+        channel: link.channel_id,
+        ts: link.message_ts,
+        text: t.t("case.statusText", { caseNumber: announcement.caseNumber, status: statusName(status, t) }),
+        blocks: [...buildAnnouncementBlocks(announcement, t), buildResolveActions(announcement, t)],
+      });
+    }
+
+    const note = THREAD_NOTES[status];
+    if (note) {
+      await slack.postMessage({
+        channel: link.channel_id,
+        thread_ts: link.message_ts,
+        text: `${STATUS_EMOJI[status]} ${t.t(note, { mention: link.raised_by ? `<@${link.raised_by}> ` : "" })}`,
+      });
+    }
+
+    // Recorded last so a failed Slack call is retried rather than marked as synced
+    await updateCaseLinkStatus(case_id, status, changedAt);
+
+    if (status === "Closed") {
+      await scheduleCsatSurvey(ctx, link);
+      await scheduleReopenExpiry(ctx, updated);
+    }
+
+    log.info("Case status synced to Slack", { case_id, case_number: announcement.caseNumber, previous: link.status, status });
+  },
+});
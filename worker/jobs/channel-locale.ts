@@ -0,0 +1,79 @@
+// jobs/channel-locale.ts — /case-language: set, show or clear a channel's language and default timezone
+import { lookupSlackUserEmail } from "../access";
+import { parseLocaleCommand, translator } from "../i18n";
+import { deleteChannelLocale, findChannelLocale, saveChannelLocale, translatorFor } from "../locale-settings";
+import { log } from "../logger";
+import { replyToResponseUrl, slack } from "../slack";
+import { validateUser } from "../user-validation";
+import { s } from "./schema";
+import { defineJob } from "./types";
+
+const schema = s.object({
+  team_id: s.string(),
+  channel_id: s.string(),
+  user_id: s.string(),
+  response_url: s.string(),
+  text: s.optional(s.string({ allowEmpty: true })),
+});
+
+export default defineJob({
+  schema,
+  async handle({ team_id, channel_id, user_id, response_url, text }, ctx) {
+    const reply = (message: string) => replyToResponseUrl(response_url, { replace_original: true, text: message });
+    const t = await translatorFor({ channelId: channel_id, userId: user_id, teamId: team_id });
+    const command = parseLocaleCommand(text);
+
+    switch (command.action) {
+      case "invalid":
+        await reply(command.word
+          ? `⚠️ ${t.t("locale.invalid", { word: command.word })}\n${t.t("locale.usage")}`
+          : t.t("locale.usage"));
+        return;
+
+      case "status": {
+        const setting = await findChannelLocale(channel_id);
+        if (!setting) {
+          await reply(`${t.t("locale.unset")}\n${t.t("locale.usage")}`);
+          return;
+        }
+        const language = t.languageName(setting.locale);
+        await reply(setting.timezone
+          ? t.t("locale.currentTimezone", { language, timezone: setting.timezone })
+          : t.t("locale.current", { language }));
+        return;
+      }
+
+      case "clear": {
+        const removed = await deleteChannelLocale(channel_id);
+        // Without the setting the caller's own Slack language applies again
+        const after = removed ? await translatorFor({ userId: user_id, teamId: team_id }) : t;
+        await reply(after.t(removed ? "locale.cleared" : "locale.wasUnset"));
+        if (removed) log.info("Channel language cleared", { channel_id, user_id });
+        return;
+      }
+
+      case "set": {
+        // Same rule as digests: only channels linked to an account are configured
+        const email = (await lookupSlackUserEmail(team_id, user_id)) || "";
+        const validation = await validateUser(ctx, { teamId: team_id, channelId: channel_id, userId: user_id, email });
+        if (validation.status === "channel_not_linked") {
+          await reply(t.t("common.channelNotLinked"));
+          return;
+        }
+
+        const setting = await saveChannelLocale(channel_id, team_id, user_id, command.locale, command.timezone);
+        const after = translator(setting.locale, t.timeZone);
+        const language = after.languageName(setting.locale);
+        await reply(setting.timezone
+          ? after.t("locale.savedTimezone", { language, timezone: setting.timezone })
+          : after.t("locale.saved", { language }));
+        await slack.postMessage({
+          channel: channel_id,
+          text: after.t("locale.announce", { user: user_id, language }),
+        });
+        log.info("Channel language set", { channel_id, user_id, locale: setting.locale, timezone: setting.timezone });
+        return;
+      }
+    }
+  },
+});
@@ -0,0 +1,59 @@
+// jobs/close-case.ts — called when user clicks "Mark as Resolved" in Slack
+import { sfCloseCase } from "../apex";
+import { findCaseLink, updateCaseLinkStatus } from "../case-links";
+import { scheduleCsatSurvey } from "../csat";
+import { translatorFor } from "../locale-settings";
+import { log } from "../logger";
+import { buildClosedAnnouncement, scheduleReopenExpiry } from "../reopen";
+import { slack } from "../slack";
+import { s } from "./schema";
+import { defineJob } from "./types";
+
+const schema = s.object({
+  case_id: s.string(),
+  case_number: s.string(),
+  channel_id: s.string(),
+  user_id: s.string(),
+});
+
+export default defineJob({
+  schema,
+  async handle({ case_id, case_number, channel_id, user_id }, ctx) {
+    const sfRes = await sfCloseCase(case_id);
+
+    if (!sfRes.success) {
+      log.error("Salesforce close failed", { case_id, error: sfRes.error });
+      return;
+    }
+
+    // Look up the original announcement message_ts
+    const link = await findCaseLink(case_id);
+
+    if (link) {
+      const message_ts = link.message_ts;
+      const closed = { ...link, status: "Closed", status_changed_at: new Date(), closed_by: user_id };
+      await updateCaseLinkStatus(case_id, "Closed", closed.status_changed_at, user_id);
+      const t = await translatorFor({ channelId: channel_id });
+
+      // Update announcement: replace "Mark as Resolved" button with a CLOSED badge (and Reopen, if allowed)
+      await slack.update({
+        channel: channel_id,
+        ts: message_ts,
+        text: t.t("case.resolvedText", { caseNumber: case_number }),
+        blocks: buildClosedAnnouncement(closed, t),
+      });
+
+      // Thread reply confirming closure
+      await slack.postMessage({
+        channel: channel_id,
+        thread_ts: message_ts,
+        text: t.t("case.resolvedBy", { caseNumber: case_number, user: user_id }),
+      });
+
+      await scheduleCsatSurvey(ctx, link);
+      await scheduleReopenExpiry(ctx, closed);
+    }
+
+    log.info("Case closed", { case_id, case_number, user_id });
+  },
+});
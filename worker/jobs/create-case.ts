@@ -0,0 +1,150 @@
+// jobs/create-case.ts — case submission: creates the SF Case and the channel announcement
+//
+// Runs with retries, so every side effect is a recorded step (see job-steps.ts):
+// a retry after e.g. a failed chat.update resumes there instead of raising a
+// second Salesforce Case and a second public announcement.
+import { sfCreateCase, sfUpdateCaseThreadTs, type CreateCaseResponse } from "../apex";
+import { insertCaseLink } from "../case-links";
+import { buildAnnouncementBlocks, buildResolveActions } from "../cases";
+import { idempotencyKeyFor, withJobSteps } from "../job-steps";
+import { translatorFor } from "../locale-settings";
+import { log } from "../logger";
+import { replyToResponseUrl, slack } from "../slack";
+import { s } from "./schema";
+import { defineJob } from "./types";
+
+// Salesforce answered but refused the case. Thrown out of the step so the
+// refusal isn't recorded: a rerun with the same key asks Salesforce again.
+class CaseRejectedError extends Error {
+  readonly response: CreateCaseResponse;
+
+  constructor(response: CreateCaseResponse) {
+    super(response.error ?? "Salesforce refused the case");
+    this.name = "CaseRejectedError";
+    this.response = response;
+  }
+}
+
+const schema = s.object({
+  team_id: s.optional(s.string()),
+  channel_id: s.string(),
+  user_id: s.string(),
+  email: s.optional(s.string()),
+  account_id: s.string(),
+  contact_id: s.string(),
+  subject: s.string(),
+  description: s.withDefault(s.string({ allowEmpty: true }), ""),
+  priority: s.withDefault(s.string(), "Medium"),
+  type: s.withDefault(s.string(), "Question"),
+  response_url: s.optional(s.string()),
+  idempotency_key: s.optional(s.string()),
+});
+
+export default defineJob({
+  schema,
+  async handle(data, ctx) {
+    const {
+      account_id, contact_id, subject, description,
+      priority, type, response_url, user_id, channel_id, team_id,
+    } = data;
+
+    log.info("Creating case", { user_id, channel_id, subject });
+
+    if (!response_url) {
+      log.warn("No response_url — cannot notify user");
+    }
+
+    // The confirmation is for the submitter; the announcement follows the channel
+    const userT = await translatorFor({ channelId: channel_id, userId: user_id, teamId: team_id });
+    const t = await translatorFor({ channelId: channel_id });
+
+    await withJobSteps(idempotencyKeyFor(ctx), "create-case", async (steps) => {
+      let sfRes: CreateCaseResponse;
+      try {
+        sfRes = await steps.once("sf_case_created", async () => {
+          const res = await sfCreateCase({
+            accountId: account_id,
+            contactId: contact_id,
+            subject,
+            description,
+            priority,
+            type,
+            channelId: channel_id,
+          });
+          if (!res.success || !res.caseId || !res.caseNumber) throw new CaseRejectedError(res);
+          return res;
+        });
+      } catch (err) {
+        if (!(err instanceof CaseRejectedError)) throw err;
+        sfRes = err.response;
+      }
+
+      if (!sfRes.success || !sfRes.caseId || !sfRes.caseNumber) {
+        log.error("Salesforce case create failed", { error: sfRes.error });
+        if (response_url) {
+          await replyToResponseUrl(response_url, {
+            replace_original: true,
+            text: userT.t("case.createFailed", { error: sfRes.error ?? userT.t("common.unknownError") }),
+          });
+        }
+        return;
+      }
+
+      const { caseId, caseNumber } = sfRes;
+      log.info("Case created", { case_id: caseId, case_number: caseNumber });
+
+      // 1) Short private confirmation — replaces the ephemeral "Open Case Form" button
+      if (response_url) {
+        await steps.once("user_confirmed", () =>
+          replyToResponseUrl(response_url, {
+            replace_original: true,
+            text: userT.t("case.created", { caseNumber }),
+          })
+        );
+      }
+
+      // 2) Public channel announcement — visible to everyone
+      const announcement = {
+        caseId,
+        caseNumber,
+        subject,
+        description,
+        priority,
+        type,
+        raisedBy: user_id,
+        channelId: channel_id,
+      };
+      const announcementBlocks = buildAnnouncementBlocks(announcement, t);
+      const fallbackText = t.t("case.newText", { caseNumber, subject });
+
+      const { ts } = await steps.once("announcement_posted", async () => {
+        const msg = await slack.postMessage({ channel: channel_id, text: fallbackText, blocks: announcementBlocks });
+        return { ts: msg.ts };
+      });
+
+      // Save the Case → Slack message mapping for status updates, comments and close
+      await insertCaseLink({ ...announcement, raisedBy: user_id, messageTs: ts, teamId: team_id });
+
+      // 3) Write the Slack thread timestamp via Apex — only available after the message posts.
+      // A failure fails the job: the steps above are recorded, so the BullMQ retry
+      // resumes here.
+      try {
+        await steps.once("thread_ts_written", () => sfUpdateCaseThreadTs(caseId, ts));
+        log.info("Slack_Thread_Ts__c written", { case_id: caseId });
+      } catch (threadErr) {
+        log.error("Could not write Slack_Thread_Ts__c", { case_id: caseId, error: threadErr });
+        throw threadErr;
+      }
+
+      // 4) Add "Mark as Resolved" button via chat.update
+      await steps.once("resolve_button_added", async () => {
+        await slack.update({
+          channel: channel_id,
+          ts,
+          text: fallbackText,
+          blocks: [...announcementBlocks, buildResolveActions(announcement, t)],
+        });
+      });
+    });
+  },
+});
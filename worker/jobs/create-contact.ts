@@ -0,0 +1,69 @@
+// jobs/create-contact.ts — create a Salesforce Contact for users not yet in the system
+import { sfCreateContact } from "../apex";
+import { translatorFor } from "../locale-settings";
+import { log } from "../logger";
+import { replyToResponseUrl } from "../slack";
+import { invalidateValidations } from "../user-validation";
+import { s } from "./schema";
+import { defineJob } from "./types";
+
+const schema = s.object({
+  team_id: s.string(),
+  user_id: s.string(),
+  email: s.string(),
+  channel_id: s.string(),
+  account_id: s.string(),
+  first_name: s.string(),
+  last_name: s.string(),
+  phone: s.optional(s.string()),
+  job_title: s.optional(s.string()),
+  response_url: s.optional(s.string()),
+});
+
+export default defineJob({
+  schema,
+  async handle(data) {
+    const {
+      team_id, user_id, email, channel_id, account_id,
+      first_name, last_name, phone, job_title, response_url,
+    } = data;
+    const t = await translatorFor({ channelId: channel_id, userId: user_id, teamId: team_id });
+
+    if (!response_url) {
+      log.warn("No response_url — cannot notify user");
+    }
+
+    const sfRes = await sfCreateContact({
+      accountId: account_id,
+      email,
+      firstName: first_name,
+      lastName: last_name,
+      phone,
+      jobTitle: job_title,
+      slackUserId: user_id,
+      slackTeamId: team_id,
+    });
+
+    if (!sfRes.success) {
+      log.error("Salesforce contact create failed", { error: sfRes.error });
+      if (response_url) {
+        await replyToResponseUrl(response_url, {
+          replace_original: true,
+          text: t.t("contact.failed", { error: sfRes.error ?? t.t("common.unknownError") }),
+        });
+      }
+      return;
+    }
+
+    log.info("Contact created", { contact_id: sfRes.contactId });
+    // The cached "contact_not_found" is now wrong; the next command sees pending approval
+    await invalidateValidations({ teamId: team_id, userId: user_id });
+
+    if (response_url) {
+      await replyToResponseUrl(response_url, {
+        replace_original: true,
+        text: t.t("contact.submitted"),
+      });
+    }
+  },
+});
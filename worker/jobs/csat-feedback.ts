@@ -0,0 +1,19 @@
+// jobs/csat-feedback.ts — save optional written feedback to CSAT_Feedback__c
+import { sfSaveCsatFeedback } from "../apex";
+import { log } from "../logger";
+import { s } from "./schema";
+import { defineJob } from "./types";
+
+const schema = s.object({
+  case_id: s.string(),
+  case_number: s.string(),
+  feedback: s.string(),
+});
+
+export default defineJob({
+  schema,
+  async handle({ case_id, case_number, feedback }) {
+    await sfSaveCsatFeedback(case_id, feedback);
+    log.info("CSAT feedback saved", { case_id, case_number });
+  },
+});
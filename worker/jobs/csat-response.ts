@@ -0,0 +1,68 @@
+// jobs/csat-response.ts — user clicked a rating button on the survey DM
+import { sfSaveCsat } from "../apex";
+import { findCaseLink } from "../case-links";
+import { markSurveyResponded } from "../csat";
+import { translatorFor } from "../locale-settings";
+import { log } from "../logger";
+import { replyToResponseUrl } from "../slack";
+import { s } from "./schema";
+import { defineJob } from "./types";
+
+const schema = s.object({
+  case_id: s.string(),
+  case_number: s.string(),
+  rating: s.number({ integer: true, min: 1, max: 5 }),
+  response_url: s.optional(s.string()),
+  user_id: s.optional(s.string()), // who clicked; defaults to whoever raised the case (the survey's recipient)
+});
+
+export default defineJob({
+  schema,
+  async handle({ case_id, case_number, rating, response_url, user_id }) {
+    const sfRes = await sfSaveCsat(case_id, rating);
+
+    if (!sfRes.success) {
+      log.error("Salesforce CSAT save failed", { case_id, rating, error: sfRes.error });
+    } else {
+      await markSurveyResponded(case_id, rating);
+      log.info("CSAT score saved", { case_id, case_number, rating });
+    }
+
+    // Update the DM — show thank-you + optional feedback prompt
+    if (response_url) {
+      const link = await findCaseLink(case_id);
+      const t = await translatorFor({
+        channelId: link?.channel_id,
+        userId: user_id ?? link?.raised_by ?? undefined,
+        teamId: link?.team_id ?? undefined,
+      });
+      const stars = "⭐".repeat(rating);
+      await replyToResponseUrl(response_url, {
+        replace_original: true,
+        text: t.t("csat.thanksText", { caseNumber: case_number, stars, rating }),
+        blocks: [
+          {
+            type: "section",
+            text: { type: "mrkdwn", text: t.t("csat.thanks", { caseNumber: case_number, stars, rating }) },
+          },
+          {
+            type: "section",
+            text: { type: "mrkdwn", text: t.t("csat.moreAsk") },
+          },
+          {
+            type: "actions",
+            elements: [
+              {
+                type: "button",
+                action_id: "barry_csat_feedback_open",
+                style: "primary",
+                text: { type: "plain_text", text: t.t("csat.moreButton") },
+                value: JSON.stringify({ case_id, case_number, rating }),
+              },
+            ],
+          },
+        ],
+      });
+    }
+  },
+});
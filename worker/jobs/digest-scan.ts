@@ -0,0 +1,28 @@
+// jobs/digest-scan.ts — repeatable job: enqueue send-digest for every channel whose digest is due
+import { advanceDigestSubscription, dueDigestSubscriptions } from "../digest-subscriptions";
+import { log } from "../logger";
+import { enqueueFollowUp } from "../queue";
+import { s } from "./schema";
+import { defineJob } from "./types";
+
+const schema = s.object({});
+
+export default defineJob({
+  schema,
+  async handle(_payload, ctx) {
+    const now = new Date();
+    const due = await dueDigestSubscriptions(now);
+
+    for (const sub of due) {
+      // Enqueue before advancing: a crash in between re-enqueues the same job
+      // ID on the next scan, which BullMQ ignores.
+      const runAt = sub.next_run_at.toISOString();
+      await enqueueFollowUp(ctx, "send-digest", { channel_id: sub.channel_id, run_at: runAt }, {
+        jobId: `digest-${sub.channel_id}-${sub.next_run_at.getTime()}`,
+      });
+      await advanceDigestSubscription(sub, now);
+    }
+
+    if (due.length) log.info("Digests enqueued", { count: due.length });
+  },
+});
@@ -0,0 +1,181 @@
+// jobs/get-cases.ts — /view-cases command (with search, see case-query.ts) and pagination buttons
+import { lookupSlackUserEmail } from "../access";
+import { sfGetCases } from "../apex";
+import { buildQueryChips, formatCaseQuery, isEmptyQuery, matchesCaseQuery, parseCaseQuery } from "../case-query";
+import { CASES_PAGE_SIZE, STATUS_ORDER, buildViewDetailsButton, priorityLabel, statusLabel } from "../cases";
+import { translatorFor } from "../locale-settings";
+import { log } from "../logger";
+import { replyToResponseUrl } from "../slack";
+import { validateUser } from "../user-validation";
+import { s } from "./schema";
+import { defineJob } from "./types";
+
+const schema = s.object({
+  channel_id: s.string(),
+  user_id: s.string(),
+  team_id: s.optional(s.string()),
+  response_url: s.string(),
+  page: s.withDefault(s.number({ integer: true, min: 0 }), 0),
+  filter: s.withDefault(s.oneOf(["open", "closed"] as const), "open"),
+  query: s.optional(s.string({ allowEmpty: true })), // /view-cases text, or the canonical query from a button
+  account_id: s.optional(s.string()), // present on pagination/filter button clicks
+  contact_id: s.optional(s.string()), // ditto — the caller's Contact, for `mine`
+});
+
+const EMPTY_KEYS = { open: "cases.noneOpen", closed: "cases.noneClosed" } as const;
+const NO_MATCH_KEYS = { open: "cases.noMatchOpen", closed: "cases.noMatchClosed", matching: "cases.noMatch" } as const;
+const SHOWING_KEYS = { open: "cases.showingOpen", closed: "cases.showingClosed", matching: "cases.showingMatching" } as const;
+
+export default defineJob({
+  schema,
+  async handle({ channel_id, user_id, team_id, response_url, page, filter, query: rawQuery, account_id, contact_id }, ctx) {
+    // Pagination buttons already carry account_id — skip SF channel lookup
+    let accountId = account_id;
+    let contactId = contact_id;
+    const t = await translatorFor({ channelId: channel_id, userId: user_id, teamId: team_id });
+
+    if (!accountId) {
+      // Fresh /view-cases command — need to resolve accountId from channel
+      const email = (await lookupSlackUserEmail(team_id || "", user_id)) || "";
+      const validation = await validateUser(ctx, { teamId: team_id || "", channelId: channel_id, userId: user_id, email });
+
+      if (validation.status === "channel_not_linked") {
+        await replyToResponseUrl(response_url, {
+          replace_original: true,
+          text: t.t("common.channelNotLinked"),
+        });
+        return;
+      }
+      accountId = validation.accountId;
+      contactId = validation.contactId;
+    }
+
+    if (!accountId) {
+      await replyToResponseUrl(response_url, { replace_original: true, text: t.t("cases.noAccount") });
+      return;
+    }
+
+    const sfRes = await sfGetCases(accountId);
+
+    if (!sfRes.success || !sfRes.cases) {
+      await replyToResponseUrl(response_url, { replace_original: true, text: t.t("cases.fetchFailed", { error: sfRes.error ?? t.t("common.unknownError") }) });
+      return;
+    }
+
+    // Filter by open/closed (unless the query names a status) and the query,
+    // then sort by custom status order
+    const query = parseCaseQuery(rawQuery);
+    const queryText = formatCaseQuery(query);
+    const searching = !isEmptyQuery(query);
+    const isClosed = filter === "closed";
+    const filtered = sfRes.cases.filter(c =>
+      (query.status || (isClosed ? c.status === "Closed" : c.status !== "Closed")) &&
+      matchesCaseQuery(c, query, contactId)
+    );
+    const sorted = [...filtered].sort((a, b) => {
+      const orderA = STATUS_ORDER[a.status] ?? 99;
+      const orderB = STATUS_ORDER[b.status] ?? 99;
+      if (orderA !== orderB) return orderA - orderB;
+      return new Date(b.createdDate).getTime() - new Date(a.createdDate).getTime();
+    });
+
+    const total = sorted.length;
+    const totalPages = Math.max(1, Math.ceil(total / CASES_PAGE_SIZE));
+    const safePage = Math.min(Math.max(0, page), totalPages - 1);
+    const slice = sorted.slice(safePage * CASES_PAGE_SIZE, (safePage + 1) * CASES_PAGE_SIZE);
+
+    // Build blocks. Every button carries the full query so it survives paging.
+    const buttonValue = (f: string, p: number, q: string) =>
+      JSON.stringify({ account_id: accountId, contact_id: contactId, channel_id, filter: f, page: p, query: q, response_url });
+    // Open/Closed replace a status: term rather than fight it
+    const toggleQuery = query.status ? formatCaseQuery({ ...query, status: undefined }) : queryText;
+    const scope = query.status ? "matching" : isClosed ? "closed" : "open";
+
+    const blocks: unknown[] = [
+      {
+        type: "header",
+        text: { type: "plain_text", text: t.t("cases.header") },
+      },
+      ...(searching ? [{ type: "context", elements: buildQueryChips(query, t) }] : []),
+      {
+        type: "actions",
+        elements: [
+          {
+            type: "button",
+            action_id: "barry_cases_filter_open",
+            text: { type: "plain_text", text: t.t("cases.open") },
+            ...(isClosed || query.status ? {} : { style: "primary" }),
+            value: buttonValue("open", 0, toggleQuery),
+          },
+          {
+            type: "button",
+            action_id: "barry_cases_filter_closed",
+            text: { type: "plain_text", text: t.t("cases.closed") },
+            ...(isClosed && !query.status ? { style: "primary" } : {}),
+            value: buttonValue("closed", 0, toggleQuery),
+          },
+          ...(searching ? [{
+            type: "button",
+            action_id: "barry_cases_clear_search",
+            text: { type: "plain_text", text: t.t("cases.clearSearch") },
+            value: buttonValue(filter, 0, ""),
+          }] : []),
+        ],
+      },
+      {
+        type: "context",
+        elements: [{
+          type: "mrkdwn",
+          text: total === 0
+            ? (searching ? t.t(NO_MATCH_KEYS[scope], { query: queryText }) : t.t(EMPTY_KEYS[isClosed ? "closed" : "open"]))
+            : t.t(SHOWING_KEYS[scope], {
+              from: safePage * CASES_PAGE_SIZE + 1,
+              to: safePage * CASES_PAGE_SIZE + slice.length,
+              count: total,
+              page: safePage + 1,
+              pages: totalPages,
+            }),
+        }],
+      },
+      { type: "divider" },
+    ];
+
+    for (const c of slice) {
+      const raisedBy = c.contactName ? ` · ${t.t("cases.raisedBy", { name: c.contactName })}` : "";
+      blocks.push({
+        type: "section",
+        text: {
+          type: "mrkdwn",
+          text:
+            `*#${c.caseNumber}* · ${statusLabel(c.status, t)} · ${priorityLabel(c.priority, t)}\n` +
+            `_${c.subject}_` +
+            (c.type ? ` · ${c.type}` : "") +
+            `\n_${t.t("cases.opened", { date: t.date(c.createdDate) })}${raisedBy}_`,
+        },
+        accessory: buildViewDetailsButton({ caseId: c.id, caseNumber: c.caseNumber, channelId: channel_id }, t),
+      });
+      blocks.push({ type: "divider" });
+    }
+
+    // Pagination nav
+    if (totalPages > 1) {
+      const navValue = buttonValue(filter, safePage, queryText);
+      const navElements: unknown[] = [];
+      if (safePage > 0) {
+        navElements.push({ type: "button", action_id: "barry_cases_prev", text: { type: "plain_text", text: t.t("cases.previous") }, value: navValue });
+      }
+      if (safePage < totalPages - 1) {
+        navElements.push({ type: "button", action_id: "barry_cases_next", style: "primary", text: { type: "plain_text", text: t.t("cases.next") }, value: navValue });
+      }
+      if (navElements.length > 0) blocks.push({ type: "actions", elements: navElements });
+    }
+
+    await replyToResponseUrl(response_url, {
+      replace_original: true,
+      text: t.t("cases.text", { page: safePage + 1, pages: totalPages }),
+      blocks,
+    });
+
+    log.info("Case list sent", { user_id, page: safePage + 1, pages: totalPages, cases: slice.length, query: searching ? queryText : undefined });
+  },
+});
@@ -0,0 +1,75 @@
+// jobs/index.ts — job name → handler registry for the barry-jobs queue
+//
+// To add a job type: create jobs/<job-name>.ts exporting `defineJob({ schema, handle })`
+// and register it below. Payloads are validated against `schema` before `handle` runs.
+import type { AnyJobHandler } from "./types";
+import addCaseComment from "./add-case-comment";
+import addCaseFiles from "./add-case-files";
+import auditRetention from "./audit-retention";
+import caseDetail from "./case-detail";
+import caseDigest from "./case-digest";
+import caseStatusChanged from "./case-status-changed";
+import channelLocale from "./channel-locale";
+import closeCase from "./close-case";
+import createCase from "./create-case";
+import createContact from "./create-contact";
+import csatFeedback from "./csat-feedback";
+import csatResponse from "./csat-response";
+import digestScan from "./digest-scan";
+import getCases from "./get-cases";
+import invalidateValidation from "./invalidate-validation";
+import reopenCase from "./reopen-case";
+import refreshValidation from "./refresh-validation";
+import reopenExpired from "./reopen-expired";
+import sendCsatSurvey from "./send-csat-survey";
+import sendDigest from "./send-digest";
+import sfCommentAdded from "./sf-comment-added";
+import slaScan from "./sla-scan";
+import slackCommand from "./slack-command";
+import slackInteraction from "./slack-interaction";
+import slackOauthCallback from "./slack-oauth-callback";
+import slackUninstall from "./slack-uninstall";
+import test from "./test";
+import verifyUser from "./verify-user";
+
+const registry: Record<string, AnyJobHandler> = {
+  "slack-interaction": slackInteraction,
+  "slack-command": slackCommand,
+  "slack-oauth-callback": slackOauthCallback,
+  "slack-uninstall": slackUninstall,
+  "verify-user": verifyUser,
+  "refresh-validation": refreshValidation,
+  "invalidate-validation": invalidateValidation,
+  "create-contact": createContact,
+  "create-case": createCase,
+  "add-case-comment": addCaseComment,
+  "add-case-files": addCaseFiles,
+  "csat-response": csatResponse,
+  "csat-feedback": csatFeedback,
+  "send-csat-survey": sendCsatSurvey,
+  "get-cases": getCases,
+  "case-detail": caseDetail,
+  "case-digest": caseDigest,
+  "digest-scan": digestScan,
+  "send-digest": sendDigest,
+  "channel-locale": channelLocale,
+  "close-case": closeCase,
+  "reopen-case": reopenCase,
+  "reopen-expired": reopenExpired,
+  "case-status-changed": caseStatusChanged,
+  "sf-comment-added": sfCommentAdded,
+  "sla-scan": slaScan,
+  "audit-retention": auditRetention,
+  "test": test,
+};
+
+export function getJobHandler(name: string): AnyJobHandler | undefined {
+  return Object.prototype.hasOwnProperty.call(registry, name) ? registry[name] : undefined;
+}
+
+export function jobNames(): string[] {
+  return Object.keys(registry);
+}
+
+export { PayloadValidationError, parsePayload } from "./schema";
+export type { AnyJobHandler, JobContext, JobHandler } from "./types";
@@ -0,0 +1,30 @@
+// jobs/invalidate-validation.ts — drop cached validate-user answers that Salesforce or an admin knows are out of date
+//
+// Enqueued by Salesforce (contact approved, channel relinked, entitlement
+// changed) or by `npm run jobs -- invalidate-validation`. Every given field
+// must match; `all: true` clears the whole cache.
+import { log } from "../logger";
+import { invalidateValidations } from "../user-validation";
+import { PayloadValidationError, s } from "./schema";
+import { defineJob } from "./types";
+
+const schema = s.object({
+  team_id: s.optional(s.string()),
+  channel_id: s.optional(s.string()),
+  user_id: s.optional(s.string()),
+  email: s.optional(s.string()),
+  account_id: s.optional(s.string()),
+  all: s.optional(s.boolean()),
+});
+
+export default defineJob({
+  schema,
+  async handle({ team_id, channel_id, user_id, email, account_id, all }) {
+    const filter = { teamId: team_id, channelId: channel_id, userId: user_id, email, accountId: account_id, all };
+    if (!team_id && !channel_id && !user_id && !email && !account_id && !all) {
+      throw new PayloadValidationError("invalidate-validation", ["needs at least one of team_id, channel_id, user_id, email, account_id or all"]);
+    }
+    const removed = await invalidateValidations(filter);
+    log.info("validate-user cache invalidated", { removed, filter });
+  },
+});
@@ -0,0 +1,20 @@
+// jobs/refresh-validation.ts — background refresh of a stale validate-user cache entry (user-validation.ts)
+import { log } from "../logger";
+import { validateUser } from "../user-validation";
+import { s } from "./schema";
+import { defineJob } from "./types";
+
+const schema = s.object({
+  team_id: s.string(),
+  channel_id: s.string(),
+  user_id: s.string(),
+  email: s.string(),
+});
+
+export default defineJob({
+  schema,
+  async handle({ team_id, channel_id, user_id, email }, ctx) {
+    const result = await validateUser(ctx, { teamId: team_id, channelId: channel_id, userId: user_id, email }, { fresh: true });
+    log.info("validate-user cache refreshed", { status: result.status });
+  },
+});
@@ -0,0 +1,123 @@
+// jobs/reopen-case.ts — user clicked "Reopen case" on a closed announcement
+//
+// Only whoever raised the case or an admin of the linked account may reopen it,
+// and only within the grace period (see reopen.ts). Refusals are ephemeral;
+// a reopen restores the live announcement and is recorded in audit_log.
+import { sfReopenCase } from "../apex";
+import { lookupSlackUserEmail } from "../access";
+import { writeAuditLog } from "../audit";
+import { announcementFromLink, findCaseLink, updateCaseLinkStatus, type CaseLink } from "../case-links";
+import { STATUS_EMOJI, buildAnnouncementBlocks, buildResolveActions } from "../cases";
+import { idempotencyKeyFor, withJobSteps } from "../job-steps";
+import { translatorFor } from "../locale-settings";
+import { log } from "../logger";
+import { buildClosedAnnouncement, isReopenable } from "../reopen";
+import { slack } from "../slack";
+import { validateUser } from "../user-validation";
+import { s } from "./schema";
+import { defineJob, type JobContext } from "./types";
+
+const schema = s.object({
+  case_id: s.string(),
+  case_number: s.string(),
+  channel_id: s.string(),
+  user_id: s.string(),
+  team_id: s.optional(s.string()),
+});
+
+// "raiser" or "admin" when the user may reopen the case, null otherwise.
+async function reopenPermission(ctx: JobContext, link: CaseLink, userId: string, teamId?: string): Promise<"raiser" | "admin" | null> {
+  if (link.raised_by === userId) return "raiser";
+  if (!teamId) return null;
+
+  const email = await lookupSlackUserEmail(teamId, userId);
+  if (!email) return null;
+  // A permission check: ask Salesforce rather than trust a cached admin flag
+  const result = await validateUser(ctx, { teamId, channelId: link.channel_id, userId, email }, { fresh: true });
+  return result.status === "approved" && result.isAccountAdmin ? "admin" : null;
+}
+
+export default defineJob({
+  schema,
+  async handle({ case_id, case_number, channel_id, user_id, team_id }, ctx) {
+    const refuse = async (status: string, text: string) => {
+      await slack.postEphemeral({ channel: channel_id, user: user_id, text });
+      await writeAuditLog({
+        source: "slack", action: "reopen-case", status, correlationId: ctx.correlationId,
+        payload: { case_id, case_number, user_id },
+      });
+      log.info("Reopen refused", { case_id, user_id, status });
+    };
+
+    const link = await findCaseLink(case_id);
+    if (!link) {
+      log.info("No Slack link for case — skipping", { case_id });
+      return;
+    }
+    // Refusals are for the clicker; everything posted in the channel follows the channel
+    const userT = await translatorFor({ channelId: channel_id, userId: user_id, teamId: team_id });
+    const t = await translatorFor({ channelId: link.channel_id });
+    if (link.status !== "Closed") {
+      await refuse("not_closed", userT.t("reopen.notClosed", { caseNumber: case_number }));
+      return;
+    }
+    if (!isReopenable(link)) {
+      // The expiry job may not have run yet; take the stale button away now
+      await slack.update({
+        channel: link.channel_id,
+        ts: link.message_ts,
+        text: t.t("case.closedText", { caseNumber: case_number }),
+        blocks: buildClosedAnnouncement(link, t),
+      });
+      await refuse("expired", userT.t("reopen.expired", { caseNumber: case_number }));
+      return;
+    }
+
+    const via = await reopenPermission(ctx, link, user_id, team_id);
+    if (!via) {
+      await refuse("denied", userT.t("reopen.denied", { caseNumber: case_number }));
+      return;
+    }
+
+    const reopened = await withJobSteps(idempotencyKeyFor(ctx), "reopen-case", async (steps) => {
+      const sfRes = await steps.once("sf_reopened", () => sfReopenCase(case_id, user_id));
+      if (!sfRes.success) {
+        log.error("Salesforce reopen failed", { case_id, error: sfRes.error });
+        await slack.postEphemeral({
+          channel: channel_id,
+          user: user_id,
+          text: userT.t("reopen.failed", { caseNumber: case_number, error: sfRes.error ?? userT.t("common.unknownError") }),
+        });
+        return false;
+      }
+
+      const announcement = { ...announcementFromLink(link), status: "Re-opened" };
+      await steps.once("announcement_restored", () =>
+        slack.update({
+          channel: link.channel_id,
+          ts: link.message_ts,
+          text: t.t("reopen.reopenedText", { caseNumber: case_number }),
+          blocks: [...buildAnnouncementBlocks(announcement, t), buildResolveActions(announcement, t)],
+        })
+      );
+      await steps.once("thread_notified", () =>
+        slack.postMessage({
+          channel: link.channel_id,
+          thread_ts: link.message_ts,
+          text: `${STATUS_EMOJI["Re-opened"]} ${t.t("reopen.reopenedBy", { caseNumber: case_number, user: user_id })}`,
+        })
+      );
+      return true;
+    });
+    if (!reopened) return;
+
+    // Recorded last so a failed Slack call is retried rather than marked as synced
+    await updateCaseLinkStatus(case_id, "Re-opened");
+    await writeAuditLog({
+      source: "slack", action: "reopen-case", status: "reopened", correlationId: ctx.correlationId,
+      payload: { case_id, case_number, user_id, via, closed_at: link.status_changed_at?.toISOString() ?? null },
+    });
+
+    log.info("Case re-opened", { case_id, case_number, user_id, via });
+  },
+});
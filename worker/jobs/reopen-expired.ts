@@ -0,0 +1,34 @@
+// jobs/reopen-expired.ts — delayed job that removes the Reopen button once the grace period ends
+import { findCaseLink } from "../case-links";
+import { translatorFor } from "../locale-settings";
+import { log } from "../logger";
+import { buildClosedAnnouncement, isReopenable } from "../reopen";
+import { slack } from "../slack";
+import { s } from "./schema";
+import { defineJob } from "./types";
+
+const schema = s.object({
+  case_id: s.string(),
+});
+
+export default defineJob({
+  schema,
+  async handle({ case_id }) {
+    const link = await findCaseLink(case_id);
+
+    // Reopened since, or closed again later (that close scheduled its own expiry)
+    if (!link || link.status !== "Closed" || isReopenable(link)) {
+      log.info("Case not due for Reopen expiry — skipping", { case_id });
+      return;
+    }
+
+    const t = await translatorFor({ channelId: link.channel_id });
+    await slack.update({
+      channel: link.channel_id,
+      ts: link.message_ts,
+      text: t.t("case.closedText", { caseNumber: link.case_number }),
+      blocks: buildClosedAnnouncement(link, t),
+    });
+    log.info("Removed Reopen button", { case_id, case_number: link.case_number });
+  },
+});
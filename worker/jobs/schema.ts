@@ -0,0 +1,124 @@
+// jobs/schema.ts — minimal runtime payload validation for job handlers
+import { UnrecoverableError } from "bullmq";
+
+// A schema checks `value` at `path`, pushing a message to `issues` for every
+// problem it finds. The returned value is only meaningful when no issues were
+// recorded, which lets one pass report every bad field at once.
+export type Schema<T> = (value: unknown, path: string, issues: string[]) => T;
+
+export type Infer<S> = S extends Schema<infer T> ? T : never;
+
+// Thrown for malformed job payloads. Extends UnrecoverableError so BullMQ
+// fails the job immediately instead of retrying a payload that can never pass.
+export class PayloadValidationError extends UnrecoverableError {
+  readonly jobName: string;
+  readonly issues: string[];
+
+  constructor(jobName: string, issues: string[]) {
+    super(`Invalid payload for job "${jobName}": ${issues.join("; ")}`);
+    this.name = "PayloadValidationError";
+    this.jobName = jobName;
+    this.issues = issues;
+  }
+}
+
+function describe(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  return typeof value;
+}
+
+function string(opts: { allowEmpty?: boolean } = {}): Schema<string> {
+  return (value, path, issues) => {
+    if (typeof value !== "string") {
+      issues.push(`${path} must be a string (got ${describe(value)})`);
+    } else if (!opts.allowEmpty && value.trim() === "") {
+      issues.push(`${path} must not be empty`);
+    }
+    return value as string;
+  };
+}
+
+function number(opts: { integer?: boolean; min?: number; max?: number } = {}): Schema<number> {
+  return (value, path, issues) => {
+    if (typeof value !== "number" || Number.isNaN(value)) {
+      issues.push(`${path} must be a number (got ${describe(value)})`);
+      return value as number;
+    }
+    if (opts.integer && !Number.isInteger(value)) issues.push(`${path} must be an integer`);
+    if (opts.min !== undefined && value < opts.min) issues.push(`${path} must be >= ${opts.min}`);
+    if (opts.max !== undefined && value > opts.max) issues.push(`${path} must be <= ${opts.max}`);
+    return value;
+  };
+}
+
+function boolean(): Schema<boolean> {
+  return (value, path, issues) => {
+    if (typeof value !== "boolean") issues.push(`${path} must be a boolean (got ${describe(value)})`);
+    return value as boolean;
+  };
+}
+
+function oneOf<T extends string>(values: readonly T[]): Schema<T> {
+  return (value, path, issues) => {
+    if (typeof value !== "string" || !values.includes(value as T)) {
+      issues.push(`${path} must be one of ${values.map((v) => `"${v}"`).join(", ")}`);
+    }
+    return value as T;
+  };
+}
+
+// Missing, null and "" all count as absent so optional Slack fields that the
+// edge function forwards as empty strings don't trip validation.
+function optional<T>(inner: Schema<T>): Schema<T | undefined> {
+  return (value, path, issues) => {
+    if (value === undefined || value === null || value === "") return undefined;
+    return inner(value, path, issues);
+  };
+}
+
+function withDefault<T>(inner: Schema<T>, fallback: T): Schema<T> {
+  return (value, path, issues) => {
+    if (value === undefined || value === null || value === "") return fallback;
+    return inner(value, path, issues);
+  };
+}
+
+function array<T>(item: Schema<T>): Schema<T[]> {
+  return (value, path, issues) => {
+    if (!Array.isArray(value)) {
+      issues.push(`${path} must be an array (got ${describe(value)})`);
+      return [];
+    }
+    return value.map((v, i) => item(v, `${path}[${i}]`, issues));
+  };
+}
+
+// Unknown keys are ignored rather than rejected: payloads carry envelope
+// fields such as correlation_id that individual handlers don't care about.
+function object<S extends Record<string, Schema<unknown>>>(
+  shape: S
+): Schema<{ [K in keyof S]: Infer<S[K]> }> {
+  return (value, path, issues) => {
+    if (typeof value !== "object" || value === null || Array.isArray(value)) {
+      issues.push(`${path} must be an object (got ${describe(value)})`);
+      return {} as { [K in keyof S]: Infer<S[K]> };
+    }
+    const input = value as Record<string, unknown>;
+    const out: Record<string, unknown> = {};
+    for (const key of Object.keys(shape)) {
+      const parsed = shape[key](input[key], path ? `${path}.${key}` : key, issues);
+      if (parsed !== undefined) out[key] = parsed;
+    }
+    return out as { [K in keyof S]: Infer<S[K]> };
+  };
+}
+
+export const s = { string, number, boolean, oneOf, optional, withDefault, array, object };
+
+export function parsePayload<T>(jobName: string, schema: Schema<T>, data: unknown): T {
+  const issues: string[] = [];
+  const value = schema(data ?? {}, "", issues);
+  if (issues.length > 0) throw new PayloadValidationError(jobName, issues);
+  return value;
+}
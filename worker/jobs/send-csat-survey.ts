@@ -0,0 +1,83 @@
+// jobs/send-csat-survey.ts — delayed follow-up of a case close: DM the CSAT survey (or its reminder)
+import { findCaseLink } from "../case-links";
+import {
+  buildCsatSurveyBlocks,
+  claimSurveyForReminder,
+  claimSurveyForSend,
+  markSurveySent,
+  releaseReminderClaim,
+  releaseSurveyClaim,
+  scheduleCsatReminder,
+} from "../csat";
+import { withJobSteps } from "../job-steps";
+import { translatorFor } from "../locale-settings";
+import { log } from "../logger";
+import { slack } from "../slack";
+import { s } from "./schema";
+import { defineJob } from "./types";
+
+const schema = s.object({
+  case_id: s.string(),
+  reminder: s.withDefault(s.boolean(), false),
+});
+
+export default defineJob({
+  schema,
+  async handle({ case_id, reminder }, ctx) {
+    // DMs name no team or case channel; the case's workspace has the bot to send them
+    const link = await findCaseLink(case_id);
+    const teamId = link?.team_id ?? undefined;
+
+    if (reminder) {
+      const survey = await claimSurveyForReminder(case_id);
+      if (!survey) {
+        log.info("Survey answered or already reminded — no reminder", { case_id });
+        return;
+      }
+      try {
+        const t = await translatorFor({ channelId: link?.channel_id, userId: survey.slack_user_id, teamId });
+        await slack.postMessage({
+          channel: survey.dm_channel_id!,
+          text: t.t("csat.reminderText", { caseNumber: survey.case_number }),
+          blocks: buildCsatSurveyBlocks(case_id, survey.case_number, t, true),
+        }, { teamId });
+      } catch (err) {
+        await releaseReminderClaim(case_id);
+        throw err;
+      }
+      log.info("CSAT reminder sent", { case_id, case_number: survey.case_number });
+      return;
+    }
+
+    const survey = await claimSurveyForSend(case_id);
+    if (!survey) {
+      log.info("Survey already sent — skipping", { case_id });
+      return;
+    }
+
+    // A retry after the DM went out (say markSurveySent failed, or the worker
+    // died) replays the recorded post instead of sending a second DM
+    const { channel: dmChannel, ts } = await withJobSteps(`csat-survey:${case_id}`, "send-csat-survey", (steps) =>
+      steps.once("posted", async () => {
+        try {
+          const t = await translatorFor({ channelId: link?.channel_id, userId: survey.slack_user_id, teamId });
+          const channel = await slack.openDm(survey.slack_user_id, { teamId });
+          const { ts } = await slack.postMessage({
+            channel,
+            text: t.t("csat.text", { caseNumber: survey.case_number }),
+            blocks: buildCsatSurveyBlocks(case_id, survey.case_number, t),
+          }, { teamId });
+          return { channel, ts };
+        } catch (err) {
+          // Nothing went out: the survey is back to scheduled
+          await releaseSurveyClaim(case_id);
+          throw err;
+        }
+      })
+    );
+
+    await markSurveySent(case_id, dmChannel, ts);
+    await scheduleCsatReminder(ctx, case_id);
+    log.info("CSAT survey sent", { case_id, case_number: survey.case_number, slack_user_id: survey.slack_user_id });
+  },
+});
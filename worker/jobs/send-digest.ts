@@ -0,0 +1,46 @@
+// jobs/send-digest.ts — post one channel's case digest (enqueued by digest-scan)
+import { buildDigestBlocks } from "../digest";
+import { digestCases, findDigestSubscription, markDigestSent } from "../digest-subscriptions";
+import { withJobSteps } from "../job-steps";
+import { translatorFor } from "../locale-settings";
+import { log } from "../logger";
+import { slack } from "../slack";
+import { s } from "./schema";
+import { defineJob } from "./types";
+
+const schema = s.object({
+  channel_id: s.string(),
+  run_at: s.string(), // the scheduled run this digest is for
+});
+
+const PERIOD_MS = { daily: 86_400_000, weekly: 7 * 86_400_000 };
+
+export default defineJob({
+  schema,
+  async handle({ channel_id, run_at }) {
+    const sub = await findDigestSubscription(channel_id);
+    if (!sub) {
+      log.info("Channel unsubscribed since the digest was queued — skipping", { channel_id });
+      return;
+    }
+
+    const now = new Date();
+    const closedSince = sub.last_sent_at ?? new Date(now.getTime() - PERIOD_MS[sub.frequency]);
+    const { open, closed } = await digestCases(channel_id, closedSince);
+    const t = await translatorFor({ channelId: channel_id });
+
+    await withJobSteps(`digest:${channel_id}:${run_at}`, "send-digest", async (steps) => {
+      await steps.once("posted", () =>
+        slack.postMessage({
+          channel: channel_id,
+          text: t.t("digest.text", { open: open.length, closed: closed.length }),
+          blocks: buildDigestBlocks(open, closed, sub, t),
+          unfurl_links: false,
+        })
+      );
+    });
+    await markDigestSent(channel_id, now);
+
+    log.info("Digest sent", { channel_id, open: open.length, closed: closed.length });
+  },
+});
@@ -0,0 +1,69 @@
+// jobs/sf-comment-added.ts — SF agent CaseComment → the case's Slack thread
+//
+// Enqueued from the Salesforce comment trigger. Only public comments are posted,
+// each at most once (case_comment_link), and never ones that came from Slack.
+import { findCaseLink } from "../case-links";
+import { postCommentOnce } from "../comment-links";
+import { translatorFor } from "../locale-settings";
+import { log } from "../logger";
+import { slack } from "../slack";
+import { s } from "./schema";
+import { defineJob } from "./types";
+
+const schema = s.object({
+  case_id: s.string(),
+  comment_id: s.string(),
+  body: s.string(),
+  author_name: s.optional(s.string()), // "Support Team" in the channel's language when missing
+  is_public: s.withDefault(s.boolean(), true),
+  source: s.optional(s.string()), // "slack" when written through add-case-comment
+});
+
+export default defineJob({
+  schema,
+  async handle({ case_id, comment_id, body, author_name, is_public, source }) {
+    if (!is_public) {
+      log.info("Comment is internal — not posting", { case_id, comment_id });
+      return;
+    }
+    if (source === "slack") {
+      log.info("Comment came from Slack — not echoing", { case_id, comment_id });
+      return;
+    }
+
+    const link = await findCaseLink(case_id);
+    if (!link) {
+      log.info("No Slack link for case — skipping", { case_id });
+      return;
+    }
+
+    const t = await translatorFor({ channelId: link.channel_id });
+    const author = author_name ?? t.t("comment.defaultAuthor");
+    const result = await postCommentOnce(case_id, comment_id, async () => {
+      const { ts } = await slack.postMessage({
+        channel: link.channel_id,
+        thread_ts: link.message_ts,
+        text: t.t("comment.text", { author, caseNumber: link.case_number, body }),
+        blocks: [
+          {
+            type: "context",
+            elements: [{ type: "mrkdwn", text: t.t("comment.header", { author }) }],
+          },
+          {
+            type: "section",
+            text: { type: "mrkdwn", text: body },
+          },
+        ],
+      });
+      return ts;
+    });
+
+    if (!result.posted) {
+      const why = result.existing.origin === "slack" ? "came from Slack" : "already posted";
+      log.info(`Comment ${why} — skipping`, { case_id, comment_id });
+      return;
+    }
+
+    log.info("Comment posted to case thread", { case_id, case_number: link.case_number, comment_id });
+  },
+});
@@ -0,0 +1,93 @@
+// jobs/sla-scan.ts — repeatable job: find SLA breaches on open cases and alert each one once
+//
+// Breaches are recorded first, then every un-alerted breach is claimed and
+// gets a reminder in the case thread plus an alert in SLA_ALERT_CHANNEL. The
+// two posts are tracked separately, so a failed alert is retried by the next
+// scan without repeating the thread reminder.
+import { priorityEmoji, priorityName, statusName } from "../cases";
+import type { Translator } from "../i18n";
+import { translatorFor } from "../locale-settings";
+import { log } from "../logger";
+import { detectBreaches, slaSettings, type SlaBreach } from "../sla";
+import {
+  claimPendingBreaches,
+  markBreachAlerted,
+  markBreachNotified,
+  openCasesForSla,
+  recordBreach,
+  releaseBreachClaim,
+} from "../sla-breaches";
+import { slack } from "../slack";
+import { s } from "./schema";
+import { defineJob } from "./types";
+
+const schema = s.object({});
+
+function overdueBy(b: SlaBreach, now: Date, t: Translator): string {
+  return t.duration((now.getTime() - b.since.getTime()) / 60_000);
+}
+
+function threadReminder(b: SlaBreach, now: Date, t: Translator): string {
+  const times = { overdue: overdueBy(b, now, t), target: t.duration(b.target_minutes) };
+  return b.kind === "first_response"
+    ? t.t("sla.firstResponse", times)
+    : t.t("sla.timeInStatus", { ...times, status: statusName(b.case_status, t) });
+}
+
+function internalAlert(b: SlaBreach, now: Date, t: Translator): string {
+  const what = b.kind === "first_response"
+    ? t.t("sla.alertFirstResponse", { overdue: overdueBy(b, now, t) })
+    : t.t("sla.alertTimeInStatus", { status: statusName(b.case_status, t), overdue: overdueBy(b, now, t) });
+  return t.t("sla.alert", {
+    caseNumber: b.case_number,
+    priority: `${priorityEmoji(b.priority ?? undefined)} ${b.priority ? priorityName(b.priority, t) : t.t("priority.none")}`,
+    channel: b.channel_id,
+    breach: what,
+    target: t.duration(b.target_minutes),
+  });
+}
+
+async function alertBreach(b: SlaBreach, alertChannel: string | null, now: Date): Promise<void> {
+  if (!b.thread_notified_at) {
+    const t = await translatorFor({ channelId: b.channel_id });
+    await slack.postMessage({ channel: b.channel_id, thread_ts: b.message_ts, text: threadReminder(b, now, t) });
+    await markBreachNotified(b, "thread_notified_at");
+  }
+  if (alertChannel && !b.alerted_at) {
+    const t = await translatorFor({ channelId: alertChannel });
+    await slack.postMessage({ channel: alertChannel, text: internalAlert(b, now, t) });
+    await markBreachNotified(b, "alerted_at");
+  }
+  await markBreachAlerted(b);
+}
+
+export default defineJob({
+  schema,
+  async handle() {
+    const settings = slaSettings();
+    const now = new Date();
+
+    let recorded = 0;
+    for (const c of await openCasesForSla()) {
+      for (const breach of detectBreaches(c, settings, now)) {
+        if (await recordBreach(breach)) recorded++;
+      }
+    }
+
+    const pending = await claimPendingBreaches();
+    const failures: string[] = [];
+    for (const b of pending) {
+      try {
+        await alertBreach(b, settings.alertChannel, now);
+      } catch (err) {
+        await releaseBreachClaim(b);
+        failures.push(`${b.case_id}/${b.kind}: ${err instanceof Error ? err.message : String(err)}`);
+      }
+    }
+
+    log.info("SLA scan finished", { recorded, alerted: pending.length - failures.length, failed: failures.length });
+    // Failed breaches are back to pending and the next scan retries them; the
+    // scheduler sets no attempts, so throwing only marks this run as failed
+    if (failures.length) throw new Error(`SLA alerts failed for ${failures.join("; ")}`);
+  },
+});
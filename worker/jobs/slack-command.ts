@@ -0,0 +1,47 @@
+// jobs/slack-command.ts — /create-case (and /raise-case) for already-verified users
+import { handleValidationResult, lookupSlackUserEmail } from "../access";
+import { translatorFor } from "../locale-settings";
+import { replyToResponseUrl } from "../slack";
+import { validateUser } from "../user-validation";
+import { s } from "./schema";
+import { defineJob } from "./types";
+
+const schema = s.object({
+  payload: s.object({
+    team_id: s.string(),
+    channel_id: s.string(),
+    user_id: s.string(),
+    command: s.withDefault(s.string(), ""),
+    text: s.optional(s.string({ allowEmpty: true })),
+    response_url: s.string(),
+    trigger_id: s.optional(s.string()),
+  }),
+});
+
+export default defineJob({
+  schema,
+  async handle({ payload }, ctx) {
+    const { command, response_url, team_id, channel_id, user_id } = payload;
+    if (command !== "/create-case" && command !== "/raise-case") return;
+
+    const t = await translatorFor({ channelId: channel_id, userId: user_id });
+    await replyToResponseUrl(response_url, {
+      replace_original: true,
+      text: t.t("access.verifying"),
+    });
+
+    // Get email from DB — user was pre-verified in vercel
+    const email = await lookupSlackUserEmail(team_id, user_id);
+    if (!email) {
+      await replyToResponseUrl(response_url, {
+        replace_original: true,
+        text: t.t("access.emailNotVerified"),
+      });
+      return;
+    }
+
+    // Full Salesforce validation (cached — see user-validation.ts)
+    const result = await validateUser(ctx, { teamId: team_id, channelId: channel_id, userId: user_id, email });
+    await handleValidationResult(result, { team_id, user_id, email, channel_id, response_url });
+  },
+});
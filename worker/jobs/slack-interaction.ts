@@ -0,0 +1,37 @@
+// jobs/slack-interaction.ts — legacy button clicks that don't have a specific handler
+import { log } from "../logger";
+import { slack } from "../slack";
+import { s } from "./schema";
+import { defineJob } from "./types";
+
+const schema = s.object({
+  correlation_id: s.optional(s.string()),
+  payload: s.optional(
+    s.object({
+      channel: s.optional(s.object({ id: s.optional(s.string()) })),
+      message: s.optional(s.object({ ts: s.optional(s.string()) })),
+    })
+  ),
+});
+
+export default defineJob({
+  schema,
+  async handle({ payload }) {
+    const channel = payload?.channel?.id;
+    const ts      = payload?.message?.ts;
+
+    if (!channel || !ts) {
+      // Ephemeral/app-home interactions don't carry channel+ts — nothing to update, skip.
+      log.info("No channel/ts in payload — skipping");
+      return;
+    }
+
+    const text = "✅ *Barry received your click (via worker)*";
+    await slack.update({
+      channel,
+      ts,
+      text,
+      blocks: [{ type: "section", text: { type: "mrkdwn", text } }],
+    });
+  },
+});
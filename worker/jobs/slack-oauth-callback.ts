@@ -0,0 +1,43 @@
+// jobs/slack-oauth-callback.ts — finishes an "Add to Slack" install
+//
+// The edge function receives Slack's OAuth redirect, checks its `state`, and
+// queues the `code` here (codes are good for ten minutes and one use). The
+// code is exchanged for the workspace's bot token, which slack_installation
+// keeps; a reinstall replaces the token and clears an earlier uninstall.
+import { UnrecoverableError } from "bullmq";
+import { log } from "../logger";
+import { saveInstallation } from "../slack-installations";
+import { exchangeOAuthCode, SlackApiError } from "../slack";
+import { s } from "./schema";
+import { defineJob } from "./types";
+
+const schema = s.object({
+  code: s.string(),
+  redirect_uri: s.optional(s.string()), // must match the one the install started with
+});
+
+// The code is spent or was never good: retrying can't help.
+const DEAD_CODE_ERRORS = new Set(["invalid_code", "code_already_used", "bad_redirect_uri", "invalid_client_id", "bad_client_secret"]);
+
+export default defineJob({
+  schema,
+  async handle({ code, redirect_uri }) {
+    let access;
+    try {
+      access = await exchangeOAuthCode(code, redirect_uri);
+    } catch (err) {
+      if (err instanceof SlackApiError && DEAD_CODE_ERRORS.has(err.code)) throw new UnrecoverableError(err.message);
+      throw err;
+    }
+    if (!access.team) throw new UnrecoverableError("Org-wide (Enterprise Grid) installs are not supported");
+
+    const installation = await saveInstallation(access);
+    log.info("Slack app installed", {
+      team_id: installation.team_id,
+      team_name: installation.team_name,
+      bot_user_id: installation.bot_user_id,
+      scopes: installation.scopes,
+      installed_by: installation.installed_by,
+    });
+  },
+});
@@ -0,0 +1,38 @@
+// jobs/slack-uninstall.ts — app_uninstalled and tokens_revoked events: forget the workspace's token
+//
+// The edge function forwards both Events API callbacks as they arrive (the
+// envelope, with `team_id` and `event`). Slack has already invalidated the
+// token by then; clearing it here stops jobs for that workspace from calling
+// Slack at all (slack-installations.ts), rather than retrying into
+// invalid_auth. tokens_revoked for user tokens only is ignored — the app
+// keeps none.
+import { log } from "../logger";
+import { revokeInstallation } from "../slack-installations";
+import { s } from "./schema";
+import { defineJob } from "./types";
+
+const schema = s.object({
+  team_id: s.string(),
+  event: s.object({
+    type: s.oneOf(["app_uninstalled", "tokens_revoked"] as const),
+    tokens: s.optional(
+      s.object({
+        oauth: s.optional(s.array(s.string())),
+        bot: s.optional(s.array(s.string())), // bot user IDs
+      })
+    ),
+  }),
+});
+
+export default defineJob({
+  schema,
+  async handle({ team_id, event }) {
+    if (event.type === "tokens_revoked" && !event.tokens?.bot?.length) {
+      log.info("Slack user tokens revoked — no bot token affected", { team_id });
+      return;
+    }
+    const botUserIds = event.type === "tokens_revoked" ? event.tokens?.bot : undefined;
+    const revoked = await revokeInstallation(team_id, botUserIds);
+    log.info("Slack installation revoked", { team_id, event: event.type, revoked });
+  },
+});
@@ -0,0 +1,16 @@
+// jobs/test.ts — smoke-test job enqueued by send-job.ts
+import { log } from "../logger";
+import { s } from "./schema";
+import { defineJob } from "./types";
+
+const schema = s.object({
+  message: s.string(),
+  when: s.optional(s.string()),
+});
+
+export default defineJob({
+  schema,
+  async handle({ message, when }) {
+    log.info("Test job", { message, when });
+  },
+});
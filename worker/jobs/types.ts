@@ -0,0 +1,29 @@
+// jobs/types.ts — shared shape of a barry-jobs handler
+import type { Job } from "bullmq";
+import type { Infer, Schema } from "./schema";
+
+export type JobContext = {
+  job: Job;
+  correlationId: string;
+};
+
+export type JobHandler<T> = {
+  // Validated before `handle` runs; a failing payload is never retried.
+  schema: Schema<T>;
+  handle: (payload: T, ctx: JobContext) => Promise<void>;
+};
+
+// A handler with its payload type hidden, as the registry stores it. Its
+// `handle` only ever receives what its own `schema` returned (processor.ts
+// parses with one and passes the result to the other).
+export type AnyJobHandler = JobHandler<unknown>;
+
+// Identity helper so each module gets `payload` typed from its own schema.
+// The one cast to the registry's type lives here, where schema and handler
+// are known to match.
+export function defineJob<S extends Schema<unknown>>(handler: {
+  schema: S;
+  handle: (payload: Infer<S>, ctx: JobContext) => Promise<void>;
+}): AnyJobHandler {
+  return handler as AnyJobHandler;
+}
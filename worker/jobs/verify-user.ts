@@ -0,0 +1,36 @@
+// jobs/verify-user.ts — full SF validation, runs after first-time email capture
+import { handleValidationResult } from "../access";
+import { translatorFor } from "../locale-settings";
+import { log } from "../logger";
+import { replyToResponseUrl } from "../slack";
+import { validateUser } from "../user-validation";
+import { s } from "./schema";
+import { defineJob } from "./types";
+
+const schema = s.object({
+  team_id: s.string(),
+  channel_id: s.string(),
+  user_id: s.string(),
+  email: s.string(),
+  response_url: s.optional(s.string()),
+});
+
+export default defineJob({
+  schema,
+  async handle({ team_id, channel_id, user_id, email, response_url }, ctx) {
+    if (!response_url) {
+      log.warn("No response_url — cannot notify user");
+      return;
+    }
+
+    const t = await translatorFor({ channelId: channel_id, userId: user_id });
+    await replyToResponseUrl(response_url, {
+      replace_original: true,
+      text: t.t("access.verifying"),
+    });
+
+    // Just verified their email: ask Salesforce, not the cache
+    const result = await validateUser(ctx, { teamId: team_id, channelId: channel_id, userId: user_id, email }, { fresh: true });
+    await handleValidationResult(result, { team_id, user_id, email, channel_id, response_url });
+  },
+});
@@ -0,0 +1,100 @@
+// lifecycle.ts — graceful shutdown: stop taking jobs, drain the running ones, close connections
+//
+// On SIGTERM or SIGINT the worker stops fetching new jobs and waits up to
+// SHUTDOWN_TIMEOUT_SECONDS for in-flight jobs to finish, so a container restart
+// doesn't cut a case creation off halfway. Jobs still running at the deadline
+// are abandoned: BullMQ sees their locks lapse and hands them to another
+// worker, and withJobSteps() skips the steps they already completed. A second
+// signal skips the wait.
+import { log } from "./logger";
+
+// The slice of BullMQ's Worker the drain needs.
+export type Drainable = {
+  pause(doNotWaitActive?: boolean): Promise<void>;
+  close(force?: boolean): Promise<void>;
+};
+
+export type Closer = { name: string; close: () => Promise<unknown> };
+
+export type ShutdownOptions = {
+  worker: Drainable;
+  closers: Closer[]; // closed in order once the worker has stopped
+  drainTimeoutMs: number;
+  exit?: (code: number) => void;
+};
+
+export type Lifecycle = {
+  shutdown(reason: string): Promise<void>;
+  isShuttingDown(): boolean;
+  handleSignals(signals?: NodeJS.Signals[]): void;
+};
+
+function getErrorMessage(err: unknown): string {
+  if (err instanceof Error) return err.message;
+  return String(err);
+}
+
+export function createLifecycle(opts: ShutdownOptions): Lifecycle {
+  const exit = opts.exit ?? ((code: number) => process.exit(code));
+  let shuttingDown: Promise<void> | null = null;
+  let forceDrain: (() => void) | null = null;
+
+  async function drain(): Promise<boolean> {
+    let timer: NodeJS.Timeout | undefined;
+    const deadline = new Promise<false>((resolve) => {
+      forceDrain = () => resolve(false);
+      timer = setTimeout(() => resolve(false), opts.drainTimeoutMs);
+    });
+    try {
+      // pause() without doNotWaitActive stops fetching and resolves once the active jobs finish
+      return await Promise.race([opts.worker.pause().then(() => true), deadline]);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  async function run(reason: string): Promise<void> {
+    const started = Date.now();
+    log.info("Shutting down: draining in-flight jobs", { reason, timeout_ms: opts.drainTimeoutMs });
+
+    const drained = await drain();
+    if (!drained) log.warn("Drain timed out — abandoning running jobs for another worker to retry");
+
+    let failed = !drained;
+    const steps: Closer[] = [{ name: "worker", close: () => opts.worker.close(!drained) }, ...opts.closers];
+    for (const { name, close } of steps) {
+      try {
+        await close();
+      } catch (err) {
+        failed = true;
+        log.error("Shutdown step failed", { step: name, error: getErrorMessage(err) });
+      }
+    }
+
+    log.info("Shutdown complete", { drained, shutdown_ms: Date.now() - started });
+    exit(failed ? 1 : 0);
+  }
+
+  const lifecycle: Lifecycle = {
+    shutdown(reason) {
+      if (shuttingDown) {
+        forceDrain?.();
+        return shuttingDown;
+      }
+      shuttingDown = run(reason);
+      return shuttingDown;
+    },
+
+    isShuttingDown: () => shuttingDown !== null,
+
+    handleSignals(signals = ["SIGTERM", "SIGINT"]) {
+      for (const signal of signals) {
+        process.on(signal, () => {
+          if (shuttingDown) log.warn("Second signal — not waiting for running jobs", { signal });
+          void lifecycle.shutdown(signal);
+        });
+      }
+    },
+  };
+  return lifecycle;
+}
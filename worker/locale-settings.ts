@@ -0,0 +1,102 @@
+// locale-settings.ts — which language and timezone a message uses: channel_locale and Slack profiles
+//
+// A message to one person (response_url replies, ephemerals, DMs, modals) is
+// written in the channel's /case-language setting if it has one, otherwise in
+// that person's Slack language, with dates in their own Slack timezone before
+// the channel's. A channel post is read by everyone, so it only follows the
+// channel setting. Anything unset or unsupported falls back to English and UTC.
+//
+// Slack profiles (users.info) are cached in-process for an hour. A workspace
+// that hasn't granted users:read, or an unknown user, just has no profile.
+import { pool } from "./db";
+import { DEFAULT_LOCALE, canonicalTimezone, supportedLocale, translator, type Locale, type Translator } from "./i18n";
+import { log } from "./logger";
+import { SlackApiError, slack } from "./slack";
+
+const PROFILE_TTL_MS = 60 * 60_000;
+
+export type ChannelLocale = {
+  channel_id: string;
+  team_id: string;
+  locale: Locale;
+  timezone: string | null;
+  set_by: string;
+  created_at: Date;
+  updated_at: Date;
+};
+
+type SlackProfile = { locale: Locale | null; timezone: string | null };
+
+const profiles = new Map<string, SlackProfile & { expiresAt: number }>();
+
+function getErrorMessage(err: unknown): string {
+  if (err instanceof Error) return err.message;
+  return String(err);
+}
+
+// ── channel_locale ────────────────────────────────────────────────────────────
+
+export async function findChannelLocale(channelId: string): Promise<ChannelLocale | null> {
+  const { rows } = await pool.query<ChannelLocale>("SELECT * FROM channel_locale WHERE channel_id = $1", [channelId]);
+  return rows[0] ?? null;
+}
+
+export async function saveChannelLocale(
+  channelId: string,
+  teamId: string,
+  userId: string,
+  locale: Locale,
+  timezone: string | null
+): Promise<ChannelLocale> {
+  const { rows } = await pool.query<ChannelLocale>(
+    `INSERT INTO channel_locale (channel_id, team_id, locale, timezone, set_by)
+     VALUES ($1, $2, $3, $4, $5)
+     ON CONFLICT (channel_id) DO UPDATE SET
+       team_id = EXCLUDED.team_id, locale = EXCLUDED.locale, timezone = EXCLUDED.timezone,
+       set_by = EXCLUDED.set_by, updated_at = NOW()
+     RETURNING *`,
+    [channelId, teamId, locale, timezone, userId]
+  );
+  return rows[0];
+}
+
+export async function deleteChannelLocale(channelId: string): Promise<boolean> {
+  const { rowCount } = await pool.query("DELETE FROM channel_locale WHERE channel_id = $1", [channelId]);
+  return (rowCount ?? 0) > 0;
+}
+
+// ── Slack profiles ────────────────────────────────────────────────────────────
+
+export function forgetSlackProfiles(): void {
+  profiles.clear();
+}
+
+async function slackProfile(userId: string, teamId?: string): Promise<SlackProfile> {
+  const cached = profiles.get(userId);
+  if (cached && cached.expiresAt > Date.now()) return cached;
+
+  try {
+    const user = await slack.usersInfo(userId, { teamId });
+    const profile = { locale: supportedLocale(user.locale), timezone: user.tz ? canonicalTimezone(user.tz) : null };
+    profiles.set(userId, { ...profile, expiresAt: Date.now() + PROFILE_TTL_MS });
+    return profile;
+  } catch (err) {
+    // Slack's answer (missing_scope, user_not_found) won't change soon; a network error might
+    if (err instanceof SlackApiError) profiles.set(userId, { locale: null, timezone: null, expiresAt: Date.now() + PROFILE_TTL_MS });
+    log.warn("Could not read Slack profile for language and timezone", { user_id: userId, error: getErrorMessage(err) });
+    return { locale: null, timezone: null };
+  }
+}
+
+// ── Translators ───────────────────────────────────────────────────────────────
+
+// `channelId` alone is a channel post; with `userId` the message is for that
+// person. `teamId` is only needed outside the job's own workspace (DMs).
+export type LocaleAudience = { channelId?: string; userId?: string; teamId?: string };
+
+export async function translatorFor(audience: LocaleAudience): Promise<Translator> {
+  const channel = audience.channelId ? await findChannelLocale(audience.channelId) : null;
+  const profile = audience.userId ? await slackProfile(audience.userId, audience.teamId) : null;
+  const locale = supportedLocale(channel?.locale) ?? profile?.locale ?? DEFAULT_LOCALE;
+  return translator(locale, profile?.timezone ?? channel?.timezone ?? "UTC");
+}
@@ -0,0 +1,223 @@
+// locales/de.ts — German messages (formal "Sie"); missing keys fall back to English
+import type { Catalogue } from "../i18n";
+
+export const de: Catalogue = {
+  // ── Shared ──
+  "common.unknownError": "unbekannter Fehler",
+  "common.cancel": "Abbrechen",
+  "common.close": "Schließen",
+  "common.page": "Seite {page} von {pages}",
+  "common.noSubject": "(kein Betreff)",
+  "common.channelNotLinked": "❌ Dieser Channel ist noch nicht mit einem Salesforce-Konto verbunden.",
+  "slack.dateAt": "{date_short_pretty} um {time}",
+
+  "status.new": "Neu",
+  "status.inProgress": "In Bearbeitung",
+  "status.waitingOnClient": "Wartet auf Kunde",
+  "status.clientResponded": "Kunde hat geantwortet",
+  "status.onHold": "Pausiert",
+  "status.escalated": "Eskaliert",
+  "status.waitingToBeClosed": "Wartet auf Abschluss",
+  "status.reopened": "Wieder geöffnet",
+  "status.closed": "Geschlossen",
+  "priority.high": "Hoch",
+  "priority.medium": "Mittel",
+  "priority.low": "Niedrig",
+  "priority.none": "Keine Priorität",
+
+  "field.caseNumber": "Fallnummer",
+  "field.status": "Status",
+  "field.priority": "Priorität",
+  "field.type": "Typ",
+  "field.raisedBy": "Eröffnet von",
+  "field.subject": "Betreff",
+  "field.description": "Beschreibung",
+  "field.owner": "Zuständig",
+  "field.lastUpdated": "Zuletzt aktualisiert",
+
+  // ── Access checks ──
+  "access.verifying": "🔍 Ihr Zugang wird überprüft…",
+  "access.emailNotVerified":
+    "⚠️ Ihre E-Mail-Adresse ist noch nicht bestätigt. Bitte führen Sie `/create-case` erneut aus, um die Einrichtung abzuschließen.",
+  "access.channelNotLinked": "❌ Dieser Channel ist noch nicht mit einem Kundenkonto verbunden.",
+  "access.channelNotLinkedNotice":
+    "⚠️ Dieser Slack-Channel ist noch nicht mit einem Salesforce-Konto verknüpft. Ein Account Manager muss ihn einrichten, bevor hier Fälle eröffnet werden können.",
+  "access.channelNotLinkedBlock":
+    "⚠️ *Dieser Channel ist mit keinem Salesforce-Konto verbunden.*\n\nBevor hier Support-Fälle eröffnet werden können, muss ein Account Manager diesen Channel in Salesforce mit dem passenden Kundenkonto verknüpfen.\n\nBitte wenden Sie sich dazu an Ihren Account Manager.",
+  "access.noEntitlement":
+    "❌ Das mit diesem Channel verknüpfte Konto hat keinen aktiven Supportvertrag. Bitte wenden Sie sich an Ihren Account Manager.",
+  "access.contactNotFound": "Wir konnten für Ihre E-Mail-Adresse keinen Salesforce-Kontakt in diesem Konto finden.",
+  "access.contactNotFoundBlock":
+    "Wir konnten für *{email}* keinen Salesforce-Kontakt in diesem Konto finden.\nBitte legen Sie Ihr Profil an, um Zugang zu beantragen.",
+  "access.createProfile": "Profil anlegen",
+  "access.pendingApproval":
+    "⏳ Ihre Zugangsanfrage wartet auf Freigabe. Barry schickt Ihnen eine Direktnachricht, sobald sie freigegeben ist.",
+  "access.approved": "✅ Alle Prüfungen bestanden.",
+  "access.approvedBlock": "✅ *Alle Prüfungen bestanden.* Klicken Sie unten, um das Formular für einen neuen Fall zu öffnen.",
+  "access.openCaseForm": "Formular öffnen",
+
+  "contact.failed": "❌ Ihr Profil konnte nicht angelegt werden: {error}. Bitte wenden Sie sich an Ihren Konto-Administrator.",
+  "contact.submitted":
+    "✅ *Profil zur Freigabe eingereicht.*\nBarry schickt Ihnen eine Direktnachricht, sobald Ihr Zugang freigegeben ist.",
+
+  // ── Announcement and case thread ──
+  "case.createFailed":
+    "❌ Ihr Fall konnte nicht angelegt werden: {error}. Bitte versuchen Sie es erneut oder wenden Sie sich an Ihren Konto-Administrator.",
+  "case.created": "✅ Fall *#{caseNumber}* wurde erfolgreich eröffnet.",
+  "case.newText": "Neuer Support-Fall eröffnet: #{caseNumber} — {subject}",
+  "case.newHeader": "🆕 Neuer Support-Fall eröffnet",
+  "case.newLogged": "<!channel> Ein neuer Fall wurde eröffnet und in Salesforce erfasst. Unser Team meldet sich bei Ihnen.",
+  "case.replyHint":
+    "💬 *Antworten Sie in diesem Thread*, um Informationen zu ergänzen oder den Fall zu besprechen — Ihre Antworten werden automatisch in Salesforce erfasst.",
+  "case.viewDetails": "Details anzeigen",
+  "case.resolveButton": "Als gelöst markieren ✓",
+  "case.resolveConfirmTitle": "Diesen Fall schließen?",
+  "case.resolveConfirmText": "*Fall #{caseNumber}* wird in Salesforce als geschlossen markiert.",
+  "case.resolveConfirm": "Ja, schließen",
+  "case.statusText": "Fall #{caseNumber} hat jetzt den Status {status}",
+  "case.closedText": "Fall #{caseNumber} wurde geschlossen.",
+  "case.resolvedText": "Fall #{caseNumber} wurde als gelöst markiert.",
+  "case.resolvedBy": "✅ Fall #{caseNumber} wurde von <@{user}> als gelöst markiert.",
+  "case.closedHeader": "✅ Support-Fall geschlossen",
+  "case.closedByUser": "*Fall #{caseNumber}* wurde von <@{user}> als gelöst markiert.",
+  "case.closedBySupport": "*Fall #{caseNumber}* wurde von unserem Support-Team geschlossen.",
+  "case.reopenButton": "Fall wieder öffnen ↺",
+  "case.reopenConfirmTitle": "Diesen Fall wieder öffnen?",
+  "case.reopenConfirmText": "*Fall #{caseNumber}* wird in Salesforce wieder geöffnet und unser Support-Team benachrichtigt.",
+  "case.reopenConfirm": "Ja, wieder öffnen",
+  "case.reopenHint": "Doch nicht gelöst? Wer den Fall eröffnet hat oder ein Konto-Administrator kann ihn bis {until} wieder öffnen.",
+
+  "note.inProgress": "Ein Mitarbeiter bearbeitet diesen Fall jetzt.",
+  "note.waitingOnClient": "{mention}Wir benötigen noch etwas mehr Informationen von Ihnen — bitte antworten Sie in diesem Thread.",
+  "note.escalated": "Dieser Fall wurde zur weiteren Untersuchung eskaliert.",
+  "note.onHold": "Dieser Fall ist pausiert. Wir melden uns in diesem Thread, sobald es weitergeht.",
+  "note.reopened": "Dieser Fall wurde wieder geöffnet.",
+  "note.closed": "Dieser Fall wurde von unserem Support-Team geschlossen.",
+
+  "reopen.notClosed": "Fall #{caseNumber} ist nicht mehr geschlossen — es gibt nichts wieder zu öffnen.",
+  "reopen.expired": "Fall #{caseNumber} kann nicht mehr wieder geöffnet werden. Bitte eröffnen Sie mit `/raise-case` einen neuen Fall.",
+  "reopen.denied": "Nur wer Fall #{caseNumber} eröffnet hat oder ein Konto-Administrator kann ihn wieder öffnen.",
+  "reopen.failed": "❌ Fall #{caseNumber} konnte nicht wieder geöffnet werden: {error}",
+  "reopen.reopenedText": "Fall #{caseNumber} wurde wieder geöffnet.",
+  "reopen.reopenedBy": "Fall #{caseNumber} wurde von <@{user}> wieder geöffnet. Unser Support-Team ist informiert.",
+
+  "comment.defaultAuthor": "Support-Team",
+  "comment.text": "{author} hat auf Fall #{caseNumber} geantwortet: {body}",
+  "comment.header": "💬 *{author}* hat aus unserem Support-Team geantwortet",
+
+  "files.attached": "📎 In Salesforce an Fall #{caseNumber} angehängt: {files}",
+  "files.rejected": "⚠️ *{file}* wurde nicht angehängt — {reason}.",
+  "files.reasonType": ".{ext}-Dateien werden nicht angenommen",
+  "files.reasonSize": "die Datei ist {size} groß (Limit {limit})",
+  "files.shareAnotherWay": {
+    one: "Bitte teilen Sie die abgelehnte Datei auf anderem Weg oder fragen Sie unser Support-Team.",
+    other: "Bitte teilen Sie die abgelehnten Dateien auf anderem Weg oder fragen Sie unser Support-Team.",
+  },
+
+  "sla.firstResponse": "⏰ Dieser Fall wartet seit {overdue} auf eine erste Antwort (Ziel: {target}). Unser Support-Team wurde erinnert.",
+  "sla.timeInStatus": "⏰ Dieser Fall ist seit {overdue} im Status *{status}* (Ziel: {target}). Unser Support-Team wurde erinnert.",
+  "sla.alert": "🚨 SLA-Verletzung bei *Fall #{caseNumber}* {priority} in <#{channel}> — {breach} (Ziel: {target}).",
+  "sla.alertFirstResponse": "nach {overdue} noch keine erste Antwort",
+  "sla.alertTimeInStatus": "seit {overdue} *{status}*",
+
+  // ── Case detail modal ──
+  "detail.title": "Fall #{caseNumber}",
+  "detail.fallbackTitle": "Falldetails",
+  "detail.loadFailed": "❌ Dieser Fall konnte nicht geladen werden: {error}",
+  "detail.noDescription": "_Keine Beschreibung_",
+  "detail.unassigned": "Nicht zugewiesen",
+  "detail.comments": "💬 Kommentare ({count})",
+  "detail.noComments": "Noch keine Kommentare.",
+  "detail.newer": "← Neuere",
+  "detail.older": "Ältere →",
+
+  // ── /view-cases ──
+  "cases.header": "📋 Fälle des Kontos",
+  "cases.open": "📂 Offen",
+  "cases.closed": "🤝 Geschlossen",
+  "cases.clearSearch": "✖ Suche zurücksetzen",
+  "cases.noneOpen": "Für dieses Konto gibt es keine offenen Fälle.",
+  "cases.noneClosed": "Für dieses Konto gibt es keine geschlossenen Fälle.",
+  "cases.noMatchOpen": "Keine offenen Fälle passen zu `{query}`.",
+  "cases.noMatchClosed": "Keine geschlossenen Fälle passen zu `{query}`.",
+  "cases.noMatch": "Keine Fälle passen zu `{query}`.",
+  "cases.showingOpen": {
+    one: "*{from}–{to}* von *{count}* offenem Fall · Seite {page} von {pages}",
+    other: "*{from}–{to}* von *{count}* offenen Fällen · Seite {page} von {pages}",
+  },
+  "cases.showingClosed": {
+    one: "*{from}–{to}* von *{count}* geschlossenem Fall · Seite {page} von {pages}",
+    other: "*{from}–{to}* von *{count}* geschlossenen Fällen · Seite {page} von {pages}",
+  },
+  "cases.showingMatching": {
+    one: "*{from}–{to}* von *{count}* passendem Fall · Seite {page} von {pages}",
+    other: "*{from}–{to}* von *{count}* passenden Fällen · Seite {page} von {pages}",
+  },
+  "cases.opened": "Eröffnet am {date}",
+  "cases.raisedBy": "Eröffnet von {name}",
+  "cases.previous": "← Zurück",
+  "cases.next": "Weiter →",
+  "cases.text": "Ihre Fälle — Seite {page} von {pages}",
+  "cases.noAccount": "❌ Das Konto für diesen Channel konnte nicht ermittelt werden.",
+  "cases.fetchFailed": "❌ Die Fälle konnten nicht abgerufen werden: {error}",
+  "query.mine": "👤 Meine",
+  "query.priority": "Priorität: {value}",
+  "query.status": "Status: {value}",
+  "query.type": "🏷️ Typ: {value}",
+
+  // ── Digests ──
+  "digest.usage":
+    "Verwendung: `/case-digest daily [Uhrzeit] [Zeitzone]`, `/case-digest weekly [Tag] [Uhrzeit] [Zeitzone]` oder `/case-digest off`.\n" +
+    "Zum Beispiel `/case-digest weekly mon 9:00 Europe/Berlin`. Ohne Angabe gelten 09:00 Uhr und die Zeitzone UTC.",
+  "digest.unknownAction": "„{word}“ kenne ich nicht.",
+  "digest.unknownWord": "„{word}“ ist kein Tag, keine Uhrzeit und keine Zeitzone, die ich kenne.",
+  "digest.daily": "täglich um {time} ({timezone})",
+  "digest.weekly": "jeden {weekday} um {time} ({timezone})",
+  "digest.status": "📋 Dieser Channel erhält {schedule} eine Fallübersicht. Nächste: {next}.",
+  "digest.notSubscribed": "Dieser Channel hat keine Fallübersicht abonniert.",
+  "digest.off": "🔕 Fallübersichten für diesen Channel sind abbestellt.",
+  "digest.wasNotSubscribed": "Dieser Channel hatte keine Fallübersicht abonniert.",
+  "digest.on": "✅ Fallübersicht abonniert — {schedule}. Erste: {next}.",
+  "digest.announce": "📋 <@{user}> hat für diesen Channel eine Fallübersicht eingerichtet, {schedule}.",
+  "digest.text": "📋 Fallübersicht: {open} offen, {closed} seit der letzten Übersicht geschlossen",
+  "digest.headerDaily": "📋 Tägliche Fallübersicht",
+  "digest.headerWeekly": "📋 Wöchentliche Fallübersicht",
+  "digest.summary": "*{open}* offen · *{waiting}* warten auf Sie · *{closed}* seit der letzten Übersicht geschlossen",
+  "digest.waiting": "Warten auf Sie — bitte im Thread antworten",
+  "digest.closedSince": "Seit der letzten Übersicht geschlossen",
+  "digest.noOpen": "✨ Zurzeit keine offenen Fälle.",
+  "digest.more": "_…und {count} weitere_",
+  "digest.footer": "Versand {schedule} · Abbestellen mit `/case-digest off`",
+
+  // ── /case-language ──
+  "locale.usage":
+    "Verwendung: `/case-language [en|de|fr] [Zeitzone]` oder `/case-language off`.\n" +
+    "Zum Beispiel `/case-language de Europe/Berlin`. Ohne Channel-Sprache richtet sich Barry nach der Slack-Sprache der jeweiligen Person.",
+  "locale.invalid": "„{word}“ ist keine Sprache und keine Zeitzone, die ich kenne.",
+  "locale.current": "🌐 Barry schreibt in diesem Channel auf {language}.",
+  "locale.currentTimezone": "🌐 Barry schreibt in diesem Channel auf {language}; Zeiten gelten standardmäßig für {timezone}.",
+  "locale.unset": "🌐 Für diesen Channel ist keine Sprache festgelegt, Barry richtet sich nach der Slack-Sprache der jeweiligen Person.",
+  "locale.saved": "✅ Barry schreibt in diesem Channel ab jetzt auf {language}.",
+  "locale.savedTimezone": "✅ Barry schreibt in diesem Channel ab jetzt auf {language}; Zeiten gelten standardmäßig für {timezone}.",
+  "locale.cleared": "🌐 Channel-Sprache entfernt — Barry richtet sich wieder nach der Slack-Sprache der jeweiligen Person.",
+  "locale.wasUnset": "Für diesen Channel war keine Sprache festgelegt.",
+  "locale.announce": "🌐 <@{user}> hat die Sprache für diesen Channel auf {language} gestellt.",
+
+  // ── CSAT survey DM ──
+  "csat.text": "Wie war unser Support bei Fall #{caseNumber}?",
+  "csat.reminderText": "Erinnerung: Wie war unser Support bei Fall #{caseNumber}?",
+  "csat.intro": "🤝 *Fall #{caseNumber}* wurde geschlossen. Wie zufrieden waren Sie mit unserem Support?",
+  "csat.reminderIntro": "👋 Eine kurze Erinnerung — wir würden uns weiterhin über Ihre Bewertung zu *Fall #{caseNumber}* freuen.",
+  "csat.scale": "1 = sehr unzufrieden, 5 = sehr zufrieden",
+  "csat.thanksText": "Danke für Ihre Bewertung von Fall #{caseNumber} — {stars} ({rating}/5).",
+  "csat.thanks": "{stars} *Danke für Ihre Bewertung von Fall #{caseNumber}* ({rating}/5) — sie wurde gespeichert.",
+  "csat.moreAsk":
+    "Möchten Sie uns etwas mehr über Ihre Erfahrung erzählen? Das dauert nur einen Moment und hilft uns sehr, besser zu werden.",
+  "csat.moreButton": "Mehr erzählen 💬",
+
+  // ── Internal alerts ──
+  "sfUsage.alert":
+    "⚠️ Die Salesforce-API-Nutzung liegt bei *{percent} %* des Tageslimits ({used} von {max} Aufrufen in den letzten 24 Stunden).{effect}",
+  "sfUsage.deferred": " Fallübersichten und -listen werden zurückgestellt; neue Fälle werden weiter angelegt.",
+  "sfUsage.slowed": " Fallübersichten und -listen werden verlangsamt; neue Fälle werden weiter angelegt.",
+};
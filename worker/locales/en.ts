@@ -0,0 +1,222 @@
+// locales/en.ts — English messages: the full catalogue, and the fallback for every other locale
+//
+// Keys are grouped by where the text appears. Emoji that come from STATUS_EMOJI
+// or priorityEmoji() are added by the caller; the rest are part of the message.
+import type { Message } from "../i18n";
+
+export const en = {
+  // ── Shared ──
+  "common.unknownError": "unknown error",
+  "common.cancel": "Cancel",
+  "common.close": "Close",
+  "common.page": "Page {page} of {pages}",
+  "common.noSubject": "(no subject)",
+  "common.channelNotLinked": "❌ This channel isn't connected to a Salesforce account yet.",
+  "slack.dateAt": "{date_short_pretty} at {time}", // Slack <!date> format; its tokens are filled in by Slack
+
+  "status.new": "New",
+  "status.inProgress": "In Progress",
+  "status.waitingOnClient": "Waiting on Client",
+  "status.clientResponded": "Client Responded",
+  "status.onHold": "On Hold",
+  "status.escalated": "Escalated",
+  "status.waitingToBeClosed": "Waiting to be Closed",
+  "status.reopened": "Re-opened",
+  "status.closed": "Closed",
+  "priority.high": "High",
+  "priority.medium": "Medium",
+  "priority.low": "Low",
+  "priority.none": "No priority",
+
+  "field.caseNumber": "Case Number",
+  "field.status": "Status",
+  "field.priority": "Priority",
+  "field.type": "Type",
+  "field.raisedBy": "Raised By",
+  "field.subject": "Subject",
+  "field.description": "Description",
+  "field.owner": "Owner",
+  "field.lastUpdated": "Last Updated",
+
+  // ── Access checks (access.ts, slack-command, verify-user) ──
+  "access.verifying": "🔍 Verifying your access…",
+  "access.emailNotVerified": "⚠️ Your email isn't verified yet. Please run `/create-case` again to complete setup.",
+  "access.channelNotLinked": "❌ This channel isn't connected to a customer account yet.",
+  "access.channelNotLinkedNotice":
+    "⚠️ This Slack channel hasn't been linked to a Salesforce account yet. An Account Manager will need to set it up before cases can be raised here.",
+  "access.channelNotLinkedBlock":
+    "⚠️ *This channel isn't connected to a Salesforce account.*\n\nBefore support cases can be raised here, an Account Manager needs to link this channel to the relevant customer account in Salesforce.\n\nPlease reach out to your Account Manager to get this set up.",
+  "access.noEntitlement":
+    "❌ The account linked to this channel doesn't have an active support entitlement. Please contact your account manager.",
+  "access.contactNotFound": "We couldn't find a Salesforce contact for your email address on this account.",
+  "access.contactNotFoundBlock":
+    "We couldn't find a Salesforce contact for *{email}* on this account.\nPlease create your profile to request access.",
+  "access.createProfile": "Create Profile",
+  "access.pendingApproval": "⏳ Your access request is pending approval. Barry will send you a direct message once it's approved.",
+  "access.approved": "✅ All checks passed.",
+  "access.approvedBlock": "✅ *All checks passed.* Click below to open the case form.",
+  "access.openCaseForm": "Open Case Form",
+
+  "contact.failed": "❌ We couldn't create your profile: {error}. Please contact your account admin.",
+  "contact.submitted": "✅ *Profile submitted for approval.*\nBarry will send you a direct message once your access is approved.",
+
+  // ── Announcement and case thread (cases.ts, create-case, close-case, case-status-changed) ──
+  "case.createFailed": "❌ We couldn't create your case: {error}. Please try again or contact your account admin.",
+  "case.created": "✅ Case *#{caseNumber}* raised successfully.",
+  "case.newText": "New support case raised: #{caseNumber} — {subject}",
+  "case.newHeader": "🆕 New Support Case Raised",
+  "case.newLogged": "<!channel> A new case has been raised and logged in Salesforce. Our team will be in touch.",
+  "case.replyHint":
+    "💬 *Reply in this thread* to add information or discuss the case — your replies are automatically logged to Salesforce.",
+  "case.viewDetails": "View details",
+  "case.resolveButton": "Mark as Resolved ✓",
+  "case.resolveConfirmTitle": "Close this case?",
+  "case.resolveConfirmText": "This will mark *Case #{caseNumber}* as Closed in Salesforce.",
+  "case.resolveConfirm": "Yes, close it",
+  "case.statusText": "Case #{caseNumber} is now {status}",
+  "case.closedText": "Case #{caseNumber} has been closed.",
+  "case.resolvedText": "Case #{caseNumber} has been marked as resolved.",
+  "case.resolvedBy": "✅ Case #{caseNumber} marked as resolved by <@{user}>.",
+  "case.closedHeader": "✅ Support Case Closed",
+  "case.closedByUser": "*Case #{caseNumber}* has been marked as resolved by <@{user}>.",
+  "case.closedBySupport": "*Case #{caseNumber}* has been closed by our support team.",
+  "case.reopenButton": "Reopen case ↺",
+  "case.reopenConfirmTitle": "Reopen this case?",
+  "case.reopenConfirmText": "This will re-open *Case #{caseNumber}* in Salesforce and let our support team know.",
+  "case.reopenConfirm": "Yes, reopen it",
+  "case.reopenHint": "Not fixed after all? Whoever raised the case or an account admin can reopen it until {until}.",
+
+  "note.inProgress": "An agent is now working on this case.",
+  "note.waitingOnClient": "{mention}We need a bit more information from you — please reply in this thread.",
+  "note.escalated": "This case has been escalated for further investigation.",
+  "note.onHold": "This case is on hold. We'll update this thread when work resumes.",
+  "note.reopened": "This case has been re-opened.",
+  "note.closed": "This case has been closed by our support team.",
+
+  "reopen.notClosed": "Case #{caseNumber} isn't closed any more — nothing to reopen.",
+  "reopen.expired": "The window for reopening Case #{caseNumber} has passed. Please raise a new case with `/raise-case`.",
+  "reopen.denied": "Only the person who raised Case #{caseNumber} or an account admin can reopen it.",
+  "reopen.failed": "❌ Couldn't reopen Case #{caseNumber}: {error}",
+  "reopen.reopenedText": "Case #{caseNumber} has been re-opened.",
+  "reopen.reopenedBy": "Case #{caseNumber} re-opened by <@{user}>. Our support team has been notified.",
+
+  "comment.defaultAuthor": "Support Team",
+  "comment.text": "{author} replied on Case #{caseNumber}: {body}",
+  "comment.header": "💬 *{author}* replied from our support team",
+
+  "files.attached": "📎 Attached to Case #{caseNumber} in Salesforce: {files}",
+  "files.rejected": "⚠️ *{file}* wasn't attached — {reason}.",
+  "files.reasonType": ".{ext} files aren't accepted",
+  "files.reasonSize": "it's {size} (limit {limit})",
+  "files.shareAnotherWay": {
+    one: "Please share the rejected file another way, or ask our support team.",
+    other: "Please share rejected files another way, or ask our support team.",
+  },
+
+  "sla.firstResponse":
+    "⏰ This case has been waiting {overdue} for a first response (target {target}). Our support team has been reminded.",
+  "sla.timeInStatus": "⏰ This case has been *{status}* for {overdue} (target {target}). Our support team has been reminded.",
+  "sla.alert": "🚨 SLA breach on *Case #{caseNumber}* {priority} in <#{channel}> — {breach} (target {target}).",
+  "sla.alertFirstResponse": "no first response after {overdue}",
+  "sla.alertTimeInStatus": "*{status}* for {overdue}",
+
+  // ── Case detail modal (cases.ts, case-detail) ──
+  "detail.title": "Case #{caseNumber}",
+  "detail.fallbackTitle": "Case details",
+  "detail.loadFailed": "❌ Could not load this case: {error}",
+  "detail.noDescription": "_No description_",
+  "detail.unassigned": "Unassigned",
+  "detail.comments": "💬 Comments ({count})",
+  "detail.noComments": "No comments yet.",
+  "detail.newer": "← Newer",
+  "detail.older": "Older →",
+
+  // ── /view-cases (get-cases, case-query.ts) ──
+  "cases.header": "📋 Account Cases",
+  "cases.open": "📂 Open",
+  "cases.closed": "🤝 Closed",
+  "cases.clearSearch": "✖ Clear search",
+  "cases.noneOpen": "No open cases found for this account.",
+  "cases.noneClosed": "No closed cases found for this account.",
+  "cases.noMatchOpen": "No open cases match `{query}`.",
+  "cases.noMatchClosed": "No closed cases match `{query}`.",
+  "cases.noMatch": "No matching cases match `{query}`.",
+  "cases.showingOpen": {
+    one: "Showing *{from}–{to}* of *{count}* open case · Page {page} of {pages}",
+    other: "Showing *{from}–{to}* of *{count}* open cases · Page {page} of {pages}",
+  },
+  "cases.showingClosed": {
+    one: "Showing *{from}–{to}* of *{count}* closed case · Page {page} of {pages}",
+    other: "Showing *{from}–{to}* of *{count}* closed cases · Page {page} of {pages}",
+  },
+  "cases.showingMatching": {
+    one: "Showing *{from}–{to}* of *{count}* matching case · Page {page} of {pages}",
+    other: "Showing *{from}–{to}* of *{count}* matching cases · Page {page} of {pages}",
+  },
+  "cases.opened": "Opened {date}",
+  "cases.raisedBy": "Raised by {name}",
+  "cases.previous": "← Previous",
+  "cases.next": "Next →",
+  "cases.text": "Your cases — page {page} of {pages}",
+  "cases.noAccount": "❌ Could not determine account for this channel.",
+  "cases.fetchFailed": "❌ Could not fetch cases: {error}",
+  "query.mine": "👤 Mine",
+  "query.priority": "Priority: {value}",
+  "query.status": "Status: {value}",
+  "query.type": "🏷️ Type: {value}",
+
+  // ── Digests (digest.ts, case-digest, send-digest) ──
+  "digest.usage":
+    "Usage: `/case-digest daily [time] [timezone]`, `/case-digest weekly [day] [time] [timezone]` or `/case-digest off`.\n" +
+    "For example `/case-digest weekly mon 9:00 Europe/London`. Times default to 09:00 and timezones to UTC.",
+  "digest.unknownAction": "I don't know \"{word}\".",
+  "digest.unknownWord": "\"{word}\" isn't a day, time or timezone I recognise.",
+  "digest.daily": "every day at {time} ({timezone})",
+  "digest.weekly": "every {weekday} at {time} ({timezone})",
+  "digest.status": "📋 This channel gets a case digest {schedule}. Next one: {next}.",
+  "digest.notSubscribed": "This channel isn't subscribed to a case digest.",
+  "digest.off": "🔕 Case digests for this channel are off.",
+  "digest.wasNotSubscribed": "This channel wasn't subscribed to a case digest.",
+  "digest.on": "✅ Case digest on — {schedule}. First one: {next}.",
+  "digest.announce": "📋 <@{user}> set up a case digest for this channel, {schedule}.",
+  "digest.text": "📋 Case digest: {open} open, {closed} closed since the last digest",
+  "digest.headerDaily": "📋 Daily case digest",
+  "digest.headerWeekly": "📋 Weekly case digest",
+  "digest.summary": "*{open}* open · *{waiting}* waiting on you · *{closed}* closed since the last digest",
+  "digest.waiting": "Waiting on you — please reply in the thread",
+  "digest.closedSince": "Closed since the last digest",
+  "digest.noOpen": "✨ No open cases right now.",
+  "digest.more": "_…and {count} more_",
+  "digest.footer": "Sent {schedule} · `/case-digest off` to unsubscribe",
+
+  // ── /case-language (channel-locale) ──
+  "locale.usage":
+    "Usage: `/case-language [en|de|fr] [timezone]` or `/case-language off`.\n" +
+    "For example `/case-language de Europe/Berlin`. Without a channel language, Barry follows each person's Slack language.",
+  "locale.invalid": "\"{word}\" isn't a language or timezone I recognise.",
+  "locale.current": "🌐 Barry writes to this channel in {language}.",
+  "locale.currentTimezone": "🌐 Barry writes to this channel in {language}; times default to {timezone}.",
+  "locale.unset": "🌐 This channel has no language set, so Barry follows each person's Slack language.",
+  "locale.saved": "✅ Barry will write to this channel in {language}.",
+  "locale.savedTimezone": "✅ Barry will write to this channel in {language}; times default to {timezone}.",
+  "locale.cleared": "🌐 Channel language cleared — Barry follows each person's Slack language again.",
+  "locale.wasUnset": "This channel had no language set.",
+  "locale.announce": "🌐 <@{user}> set the language for this channel to {language}.",
+
+  // ── CSAT survey DM (csat.ts, send-csat-survey, csat-response) ──
+  "csat.text": "How did we do on Case #{caseNumber}?",
+  "csat.reminderText": "Reminder: how did we do on Case #{caseNumber}?",
+  "csat.intro": "🤝 *Case #{caseNumber}* has been closed. How satisfied were you with the support you received?",
+  "csat.reminderIntro": "👋 Just a quick reminder — we'd still love to hear how we did on *Case #{caseNumber}*.",
+  "csat.scale": "1 = very dissatisfied, 5 = very satisfied",
+  "csat.thanksText": "Thanks for rating Case #{caseNumber} — {stars} ({rating}/5).",
+  "csat.thanks": "{stars} *Thanks for rating Case #{caseNumber}* ({rating}/5) — your score has been recorded.",
+  "csat.moreAsk": "Want to tell us a bit more about your experience? It only takes a moment and really helps us improve.",
+  "csat.moreButton": "Tell us more 💬",
+
+  // ── Internal alerts (sf-api-usage.ts) ──
+  "sfUsage.alert":
+    "⚠️ Salesforce API usage is at *{percent}%* of the daily limit ({used} of {max} calls in the last 24 hours).{effect}",
+  "sfUsage.deferred": " Case lists and digests are deferred; case creation continues.",
+  "sfUsage.slowed": " Case lists and digests are slowed down; case creation continues.",
+} satisfies Record<string, Message>;
@@ -0,0 +1,225 @@
+// locales/fr.ts — French messages ("vous"); missing keys fall back to English
+import type { Catalogue } from "../i18n";
+
+export const fr: Catalogue = {
+  // ── Shared ──
+  "common.unknownError": "erreur inconnue",
+  "common.cancel": "Annuler",
+  "common.close": "Fermer",
+  "common.page": "Page {page} sur {pages}",
+  "common.noSubject": "(sans objet)",
+  "common.channelNotLinked": "❌ Ce canal n'est pas encore associé à un compte Salesforce.",
+  "slack.dateAt": "{date_short_pretty} à {time}",
+
+  "status.new": "Nouvelle",
+  "status.inProgress": "En cours",
+  "status.waitingOnClient": "En attente du client",
+  "status.clientResponded": "Réponse du client",
+  "status.onHold": "En pause",
+  "status.escalated": "Escaladée",
+  "status.waitingToBeClosed": "En attente de clôture",
+  "status.reopened": "Rouverte",
+  "status.closed": "Close",
+  "priority.high": "Haute",
+  "priority.medium": "Moyenne",
+  "priority.low": "Basse",
+  "priority.none": "Sans priorité",
+
+  "field.caseNumber": "Numéro de demande",
+  "field.status": "Statut",
+  "field.priority": "Priorité",
+  "field.type": "Type",
+  "field.raisedBy": "Ouverte par",
+  "field.subject": "Objet",
+  "field.description": "Description",
+  "field.owner": "Responsable",
+  "field.lastUpdated": "Dernière mise à jour",
+
+  // ── Access checks ──
+  "access.verifying": "🔍 Vérification de votre accès…",
+  "access.emailNotVerified":
+    "⚠️ Votre adresse e-mail n'est pas encore vérifiée. Veuillez relancer `/create-case` pour terminer la configuration.",
+  "access.channelNotLinked": "❌ Ce canal n'est pas encore associé à un compte client.",
+  "access.channelNotLinkedNotice":
+    "⚠️ Ce canal Slack n'est pas encore associé à un compte Salesforce. Un Account Manager doit le configurer avant que des demandes puissent être ouvertes ici.",
+  "access.channelNotLinkedBlock":
+    "⚠️ *Ce canal n'est associé à aucun compte Salesforce.*\n\nAvant de pouvoir ouvrir des demandes de support ici, un Account Manager doit associer ce canal au compte client concerné dans Salesforce.\n\nVeuillez contacter votre Account Manager pour le configurer.",
+  "access.noEntitlement":
+    "❌ Le compte associé à ce canal ne dispose pas d'un contrat de support actif. Veuillez contacter votre Account Manager.",
+  "access.contactNotFound": "Nous n'avons trouvé aucun contact Salesforce correspondant à votre adresse e-mail sur ce compte.",
+  "access.contactNotFoundBlock":
+    "Nous n'avons trouvé aucun contact Salesforce pour *{email}* sur ce compte.\nVeuillez créer votre profil pour demander l'accès.",
+  "access.createProfile": "Créer mon profil",
+  "access.pendingApproval":
+    "⏳ Votre demande d'accès est en attente de validation. Barry vous enverra un message privé dès qu'elle sera approuvée.",
+  "access.approved": "✅ Toutes les vérifications sont réussies.",
+  "access.approvedBlock": "✅ *Toutes les vérifications sont réussies.* Cliquez ci-dessous pour ouvrir le formulaire de demande.",
+  "access.openCaseForm": "Ouvrir le formulaire",
+
+  "contact.failed": "❌ Nous n'avons pas pu créer votre profil : {error}. Veuillez contacter l'administrateur de votre compte.",
+  "contact.submitted": "✅ *Profil envoyé pour validation.*\nBarry vous enverra un message privé dès que votre accès sera approuvé.",
+
+  // ── Announcement and case thread ──
+  "case.createFailed":
+    "❌ Nous n'avons pas pu créer votre demande : {error}. Veuillez réessayer ou contacter l'administrateur de votre compte.",
+  "case.created": "✅ La demande *#{caseNumber}* a bien été créée.",
+  "case.newText": "Nouvelle demande de support : #{caseNumber} — {subject}",
+  "case.newHeader": "🆕 Nouvelle demande de support",
+  "case.newLogged": "<!channel> Une nouvelle demande a été ouverte et enregistrée dans Salesforce. Notre équipe reviendra vers vous.",
+  "case.replyHint":
+    "💬 *Répondez dans ce fil* pour ajouter des informations ou échanger sur la demande — vos réponses sont automatiquement enregistrées dans Salesforce.",
+  "case.viewDetails": "Voir les détails",
+  "case.resolveButton": "Marquer comme résolue ✓",
+  "case.resolveConfirmTitle": "Clore cette demande ?",
+  "case.resolveConfirmText": "La *demande #{caseNumber}* sera marquée comme close dans Salesforce.",
+  "case.resolveConfirm": "Oui, la clore",
+  "case.statusText": "La demande #{caseNumber} est maintenant : {status}",
+  "case.closedText": "La demande #{caseNumber} a été close.",
+  "case.resolvedText": "La demande #{caseNumber} a été marquée comme résolue.",
+  "case.resolvedBy": "✅ Demande #{caseNumber} marquée comme résolue par <@{user}>.",
+  "case.closedHeader": "✅ Demande de support close",
+  "case.closedByUser": "La *demande #{caseNumber}* a été marquée comme résolue par <@{user}>.",
+  "case.closedBySupport": "La *demande #{caseNumber}* a été close par notre équipe support.",
+  "case.reopenButton": "Rouvrir la demande ↺",
+  "case.reopenConfirmTitle": "Rouvrir cette demande ?",
+  "case.reopenConfirmText": "La *demande #{caseNumber}* sera rouverte dans Salesforce et notre équipe support en sera informée.",
+  "case.reopenConfirm": "Oui, la rouvrir",
+  "case.reopenHint":
+    "Finalement pas résolu ? La personne qui a ouvert la demande ou un administrateur du compte peut la rouvrir jusqu'à {until}.",
+
+  "note.inProgress": "Un agent traite maintenant cette demande.",
+  "note.waitingOnClient": "{mention}Nous avons besoin d'informations supplémentaires — merci de répondre dans ce fil.",
+  "note.escalated": "Cette demande a été escaladée pour une analyse approfondie.",
+  "note.onHold": "Cette demande est en pause. Nous mettrons ce fil à jour dès la reprise du traitement.",
+  "note.reopened": "Cette demande a été rouverte.",
+  "note.closed": "Cette demande a été close par notre équipe support.",
+
+  "reopen.notClosed": "La demande #{caseNumber} n'est plus close — rien à rouvrir.",
+  "reopen.expired": "Le délai pour rouvrir la demande #{caseNumber} est dépassé. Veuillez ouvrir une nouvelle demande avec `/raise-case`.",
+  "reopen.denied": "Seule la personne ayant ouvert la demande #{caseNumber} ou un administrateur du compte peut la rouvrir.",
+  "reopen.failed": "❌ Impossible de rouvrir la demande #{caseNumber} : {error}",
+  "reopen.reopenedText": "La demande #{caseNumber} a été rouverte.",
+  "reopen.reopenedBy": "Demande #{caseNumber} rouverte par <@{user}>. Notre équipe support a été prévenue.",
+
+  "comment.defaultAuthor": "Équipe support",
+  "comment.text": "{author} a répondu sur la demande #{caseNumber} : {body}",
+  "comment.header": "💬 *{author}* a répondu pour notre équipe support",
+
+  "files.attached": "📎 Ajouté à la demande #{caseNumber} dans Salesforce : {files}",
+  "files.rejected": "⚠️ *{file}* n'a pas été ajouté — {reason}.",
+  "files.reasonType": "les fichiers .{ext} ne sont pas acceptés",
+  "files.reasonSize": "il fait {size} (limite {limit})",
+  "files.shareAnotherWay": {
+    one: "Veuillez partager le fichier refusé autrement, ou contacter notre équipe support.",
+    other: "Veuillez partager les fichiers refusés autrement, ou contacter notre équipe support.",
+  },
+
+  "sla.firstResponse":
+    "⏰ Cette demande attend une première réponse depuis {overdue} (objectif : {target}). Notre équipe support a été relancée.",
+  "sla.timeInStatus":
+    "⏰ Cette demande est au statut *{status}* depuis {overdue} (objectif : {target}). Notre équipe support a été relancée.",
+  "sla.alert": "🚨 SLA dépassé pour la *demande #{caseNumber}* {priority} dans <#{channel}> — {breach} (objectif : {target}).",
+  "sla.alertFirstResponse": "aucune première réponse après {overdue}",
+  "sla.alertTimeInStatus": "*{status}* depuis {overdue}",
+
+  // ── Case detail modal ──
+  "detail.title": "Demande #{caseNumber}",
+  "detail.fallbackTitle": "Détails de la demande",
+  "detail.loadFailed": "❌ Impossible de charger cette demande : {error}",
+  "detail.noDescription": "_Aucune description_",
+  "detail.unassigned": "Non attribuée",
+  "detail.comments": "💬 Commentaires ({count})",
+  "detail.noComments": "Aucun commentaire pour l'instant.",
+  "detail.newer": "← Plus récents",
+  "detail.older": "Plus anciens →",
+
+  // ── /view-cases ──
+  "cases.header": "📋 Demandes du compte",
+  "cases.open": "📂 Ouvertes",
+  "cases.closed": "🤝 Closes",
+  "cases.clearSearch": "✖ Effacer la recherche",
+  "cases.noneOpen": "Aucune demande ouverte pour ce compte.",
+  "cases.noneClosed": "Aucune demande close pour ce compte.",
+  "cases.noMatchOpen": "Aucune demande ouverte ne correspond à `{query}`.",
+  "cases.noMatchClosed": "Aucune demande close ne correspond à `{query}`.",
+  "cases.noMatch": "Aucune demande ne correspond à `{query}`.",
+  "cases.showingOpen": {
+    one: "*{from}–{to}* sur *{count}* demande ouverte · Page {page} sur {pages}",
+    other: "*{from}–{to}* sur *{count}* demandes ouvertes · Page {page} sur {pages}",
+  },
+  "cases.showingClosed": {
+    one: "*{from}–{to}* sur *{count}* demande close · Page {page} sur {pages}",
+    other: "*{from}–{to}* sur *{count}* demandes closes · Page {page} sur {pages}",
+  },
+  "cases.showingMatching": {
+    one: "*{from}–{to}* sur *{count}* demande correspondante · Page {page} sur {pages}",
+    other: "*{from}–{to}* sur *{count}* demandes correspondantes · Page {page} sur {pages}",
+  },
+  "cases.opened": "Ouverte le {date}",
+  "cases.raisedBy": "Ouverte par {name}",
+  "cases.previous": "← Précédent",
+  "cases.next": "Suivant →",
+  "cases.text": "Vos demandes — page {page} sur {pages}",
+  "cases.noAccount": "❌ Impossible de déterminer le compte associé à ce canal.",
+  "cases.fetchFailed": "❌ Impossible de récupérer les demandes : {error}",
+  "query.mine": "👤 Les miennes",
+  "query.priority": "Priorité : {value}",
+  "query.status": "Statut : {value}",
+  "query.type": "🏷️ Type : {value}",
+
+  // ── Digests ──
+  "digest.usage":
+    "Utilisation : `/case-digest daily [heure] [fuseau horaire]`, `/case-digest weekly [jour] [heure] [fuseau horaire]` ou `/case-digest off`.\n" +
+    "Par exemple `/case-digest weekly mon 9:00 Europe/Paris`. Par défaut : 09:00, fuseau horaire UTC.",
+  "digest.unknownAction": "Je ne connais pas « {word} ».",
+  "digest.unknownWord": "« {word} » n'est ni un jour, ni une heure, ni un fuseau horaire que je reconnais.",
+  "digest.daily": "tous les jours à {time} ({timezone})",
+  "digest.weekly": "chaque {weekday} à {time} ({timezone})",
+  "digest.status": "📋 Ce canal reçoit un récapitulatif des demandes {schedule}. Prochain envoi : {next}.",
+  "digest.notSubscribed": "Ce canal n'est abonné à aucun récapitulatif des demandes.",
+  "digest.off": "🔕 Les récapitulatifs des demandes sont désactivés pour ce canal.",
+  "digest.wasNotSubscribed": "Ce canal n'était abonné à aucun récapitulatif des demandes.",
+  "digest.on": "✅ Récapitulatif activé — {schedule}. Premier envoi : {next}.",
+  "digest.announce": "📋 <@{user}> a activé un récapitulatif des demandes pour ce canal, {schedule}.",
+  "digest.text": "📋 Récapitulatif des demandes : {open} ouvertes, {closed} closes depuis le dernier récapitulatif",
+  "digest.headerDaily": "📋 Récapitulatif quotidien des demandes",
+  "digest.headerWeekly": "📋 Récapitulatif hebdomadaire des demandes",
+  "digest.summary": "Ouvertes : *{open}* · En attente de votre réponse : *{waiting}* · Closes depuis le dernier récapitulatif : *{closed}*",
+  "digest.waiting": "En attente de votre réponse — merci de répondre dans le fil",
+  "digest.closedSince": "Closes depuis le dernier récapitulatif",
+  "digest.noOpen": "✨ Aucune demande ouverte pour le moment.",
+  "digest.more": "_…et {count} de plus_",
+  "digest.footer": "Envoyé {schedule} · `/case-digest off` pour vous désabonner",
+
+  // ── /case-language ──
+  "locale.usage":
+    "Utilisation : `/case-language [en|de|fr] [fuseau horaire]` ou `/case-language off`.\n" +
+    "Par exemple `/case-language fr Europe/Paris`. Sans langue définie pour le canal, Barry suit la langue Slack de chaque personne.",
+  "locale.invalid": "« {word} » n'est ni une langue ni un fuseau horaire que je reconnais.",
+  "locale.current": "🌐 Barry écrit dans ce canal en {language}.",
+  "locale.currentTimezone": "🌐 Barry écrit dans ce canal en {language} ; les heures sont données par défaut pour {timezone}.",
+  "locale.unset": "🌐 Aucune langue n'est définie pour ce canal : Barry suit la langue Slack de chaque personne.",
+  "locale.saved": "✅ Barry écrira désormais dans ce canal en {language}.",
+  "locale.savedTimezone": "✅ Barry écrira désormais dans ce canal en {language} ; les heures sont données par défaut pour {timezone}.",
+  "locale.cleared": "🌐 Langue du canal supprimée — Barry suit de nouveau la langue Slack de chaque personne.",
+  "locale.wasUnset": "Aucune langue n'était définie pour ce canal.",
+  "locale.announce": "🌐 <@{user}> a choisi la langue {language} pour ce canal.",
+
+  // ── CSAT survey DM ──
+  "csat.text": "Comment avons-nous traité la demande #{caseNumber} ?",
+  "csat.reminderText": "Rappel : comment avons-nous traité la demande #{caseNumber} ?",
+  "csat.intro": "🤝 La *demande #{caseNumber}* a été close. Dans quelle mesure êtes-vous satisfait du support reçu ?",
+  "csat.reminderIntro": "👋 Petit rappel — nous aimerions toujours savoir comment nous avons traité la *demande #{caseNumber}*.",
+  "csat.scale": "1 = très insatisfait, 5 = très satisfait",
+  "csat.thanksText": "Merci d'avoir évalué la demande #{caseNumber} — {stars} ({rating}/5).",
+  "csat.thanks": "{stars} *Merci d'avoir évalué la demande #{caseNumber}* ({rating}/5) — votre note a été enregistrée.",
+  "csat.moreAsk":
+    "Souhaitez-vous nous en dire un peu plus sur votre expérience ? Cela ne prend qu'un instant et nous aide vraiment à progresser.",
+  "csat.moreButton": "En dire plus 💬",
+
+  // ── Internal alerts ──
+  "sfUsage.alert":
+    "⚠️ L'utilisation de l'API Salesforce atteint *{percent} %* de la limite quotidienne ({used} appels sur {max} au cours des dernières 24 heures).{effect}",
+  "sfUsage.deferred": " Les listes et récapitulatifs de demandes sont reportés ; la création de demandes continue.",
+  "sfUsage.slowed": " Les listes et récapitulatifs de demandes sont ralentis ; la création de demandes continue.",
+};
@@ -0,0 +1,149 @@
+// logger.ts — JSON-lines logging with per-job context and PII redaction
+//
+// Every line is one JSON object: time, level, msg, then the context of the job
+// being processed (job_id, job_name, correlation_id, attempt, duration_ms since
+// the job started) and any fields passed by the caller. processor.ts sets the
+// job context with withLogContext(); code running inside a job picks it up
+// without passing anything around.
+//
+// Fields are redacted before they are written: emails (anywhere), phone
+// numbers and people's names are masked, Slack response_url / webhook URLs and
+// credentials are removed, and long strings (case descriptions, comments) are
+// truncated.
+//
+//   LOG_LEVEL          debug | info | warn | error (default info)
+//   LOG_MAX_TEXT       characters kept of any string value (default 200)
+import { AsyncLocalStorage } from "node:async_hooks";
+import { ConfigError, loadConfig } from "./config";
+
+export type LogLevel = "debug" | "info" | "warn" | "error";
+
+export type LogFields = Record<string, unknown>;
+
+export type LogContext = {
+  job_id?: string;
+  job_name?: string;
+  correlation_id?: string;
+  attempt?: number;
+  startedAt?: number; // epoch ms, becomes duration_ms
+};
+
+const LEVELS: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40 };
+
+export type LogSettings = { level: LogLevel; maxText: number };
+
+const DEFAULT_SETTINGS: LogSettings = { level: "info", maxText: 200 };
+
+let settings: LogSettings | undefined;
+
+// Read from the `logging` config section on the first line written. While the
+// section is invalid the defaults apply, so worker-config.ts can still log the
+// ConfigError that stops the worker.
+export function logSettings(): LogSettings {
+  if (settings) return settings;
+  try {
+    settings = loadConfig(["logging"]).logging;
+    return settings;
+  } catch (err) {
+    if (err instanceof ConfigError) return DEFAULT_SETTINGS;
+    throw err;
+  }
+}
+
+// ── Context ───────────────────────────────────────────────────────────────────
+
+const storage = new AsyncLocalStorage<LogContext>();
+
+// Runs `fn` with `context` merged over the current one.
+export function withLogContext<T>(context: LogContext, fn: () => T): T {
+  return storage.run({ ...storage.getStore(), ...context }, fn);
+}
+
+export function logContext(): LogContext {
+  return storage.getStore() ?? {};
+}
+
+// ── Redaction ─────────────────────────────────────────────────────────────────
+
+const SECRET_KEY = /(response_url|webhook|token|secret|password|authorization|cookie|signature)/i;
+const EMAIL_KEY = /e-?mail/i;
+const PHONE_KEY = /(phone|mobile)/i;
+const NAME_KEY = /^(first_?name|last_?name|full_?name|real_?name|display_?name|contact_?name)$/i;
+
+const EMAIL = /([A-Za-z0-9._%+-])[A-Za-z0-9._%+-]*@([A-Za-z0-9.-]+\.[A-Za-z]{2,})/g;
+const SLACK_URL = /https:\/\/hooks\.slack\.com\/\S+/g;
+
+const MAX_DEPTH = 6;
+const MAX_ITEMS = 20;
+
+// "jane@acme.test" → "j***@acme.test"
+function maskEmails(text: string): string {
+  return text.replace(EMAIL, "$1***@$2");
+}
+
+// "+44 20 7946 0958" → "***0958". Only applied by key: in free text, IDs,
+// dates and Slack timestamps look too much like phone numbers.
+function maskPhone(text: string): string {
+  const digits = text.replace(/\D/g, "");
+  return digits.length > 4 ? `***${digits.slice(-4)}` : "***";
+}
+
+function redactString(text: string, maxText: number): string {
+  const clean = maskEmails(text).replace(SLACK_URL, "[redacted]");
+  return clean.length > maxText ? `${clean.slice(0, maxText)}…(+${clean.length - maxText} chars)` : clean;
+}
+
+function redactValue(key: string, value: unknown, maxText: number, depth: number): unknown {
+  if (value === null || value === undefined) return value;
+  if (SECRET_KEY.test(key)) return "[redacted]";
+  if (typeof value === "string") {
+    if (EMAIL_KEY.test(key)) return maskEmails(value);
+    if (PHONE_KEY.test(key)) return maskPhone(value);
+    if (NAME_KEY.test(key)) return value ? `${value[0]}***` : value;
+    return redactString(value, maxText);
+  }
+  if (typeof value !== "object") return value;
+  if (value instanceof Date) return value.toISOString();
+  if (value instanceof Error) {
+    return { name: value.name, message: redactString(value.message, maxText), stack: value.stack?.split("\n").slice(0, 6).join("\n") };
+  }
+  if (depth >= MAX_DEPTH) return "[…]";
+  if (Array.isArray(value)) {
+    const items = value.slice(0, MAX_ITEMS).map((v) => redactValue(key, v, maxText, depth + 1));
+    if (value.length > MAX_ITEMS) items.push(`…(+${value.length - MAX_ITEMS} items)`);
+    return items;
+  }
+  return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, redactValue(k, v, maxText, depth + 1)]));
+}
+
+// Copy of `fields` safe to ship to the log aggregator.
+export function redact(fields: LogFields, maxText = logSettings().maxText): LogFields {
+  return redactValue("", fields, maxText, 0) as LogFields;
+}
+
+// ── Output ────────────────────────────────────────────────────────────────────
+
+export function formatLine(level: LogLevel, msg: string, fields: LogFields = {}, now = Date.now()): string {
+  const { startedAt, ...context } = logContext();
+  const line: LogFields = {
+    time: new Date(now).toISOString(),
+    level,
+    msg: maskEmails(msg),
+    ...context,
+    ...(startedAt !== undefined ? { duration_ms: now - startedAt } : {}),
+    ...redact(fields),
+  };
+  return JSON.stringify(line);
+}
+
+function write(level: LogLevel, msg: string, fields?: LogFields): void {
+  if (LEVELS[level] < LEVELS[logSettings().level]) return;
+  (level === "error" || level === "warn" ? process.stderr : process.stdout).write(`${formatLine(level, msg, fields)}\n`);
+}
+
+export const log = {
+  debug: (msg: string, fields?: LogFields) => write("debug", msg, fields),
+  info: (msg: string, fields?: LogFields) => write("info", msg, fields),
+  warn: (msg: string, fields?: LogFields) => write("warn", msg, fields),
+  error: (msg: string, fields?: LogFields) => write("error", msg, fields),
+};
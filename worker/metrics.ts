@@ -0,0 +1,154 @@
+// metrics.ts — in-process counters and histograms, rendered in Prometheus text format
+//
+// A deliberately small registry: counters, histograms and gauges whose value
+// is read at scrape time (queue depth). health.ts serves renderMetrics() on
+// /metrics; processor.ts, salesforce.ts and slack.ts record into the metrics
+// defined at the bottom of this file.
+
+type Labels = Record<string, string>;
+
+const DEFAULT_BUCKETS = [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60]; // seconds
+
+interface Metric {
+  render(): Promise<string[]>;
+}
+
+const registry = new Map<string, Metric>();
+
+function register<M extends Metric>(name: string, metric: M): M {
+  if (registry.has(name)) throw new Error(`Metric ${name} is already registered`);
+  registry.set(name, metric);
+  return metric;
+}
+
+const escapeLabel = (v: string) => v.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n");
+
+function labelString(labels: Labels): string {
+  const parts = Object.entries(labels).map(([k, v]) => `${k}="${escapeLabel(v)}"`);
+  return parts.length ? `{${parts.join(",")}}` : "";
+}
+
+// Series are keyed by their label values in label-name order.
+function seriesKey(labelNames: readonly string[], labels: Labels): string {
+  return JSON.stringify(labelNames.map((n) => labels[n] ?? ""));
+}
+
+function keyLabels(labelNames: readonly string[], key: string): Labels {
+  const values = JSON.parse(key) as string[];
+  return Object.fromEntries(labelNames.map((n, i) => [n, values[i]]));
+}
+
+export class Counter<L extends string = string> implements Metric {
+  private readonly values = new Map<string, number>();
+
+  constructor(readonly name: string, readonly help: string, readonly labelNames: readonly L[] = []) {
+    register(name, this);
+  }
+
+  inc(labels: Record<L, string> = {} as Record<L, string>, by = 1): void {
+    const key = seriesKey(this.labelNames, labels);
+    this.values.set(key, (this.values.get(key) ?? 0) + by);
+  }
+
+  async render(): Promise<string[]> {
+    const lines = [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} counter`];
+    for (const [key, value] of this.values) {
+      lines.push(`${this.name}${labelString(keyLabels(this.labelNames, key))} ${value}`);
+    }
+    return lines;
+  }
+}
+
+type HistogramSeries = { counts: number[]; sum: number; count: number };
+
+export class Histogram<L extends string = string> implements Metric {
+  private readonly series = new Map<string, HistogramSeries>();
+
+  constructor(
+    readonly name: string,
+    readonly help: string,
+    readonly labelNames: readonly L[] = [],
+    readonly buckets: readonly number[] = DEFAULT_BUCKETS
+  ) {
+    register(name, this);
+  }
+
+  observe(labels: Record<L, string>, value: number): void {
+    const key = seriesKey(this.labelNames, labels);
+    let s = this.series.get(key);
+    if (!s) {
+      s = { counts: this.buckets.map(() => 0), sum: 0, count: 0 };
+      this.series.set(key, s);
+    }
+    this.buckets.forEach((le, i) => {
+      if (value <= le) s!.counts[i]++;
+    });
+    s.sum += value;
+    s.count++;
+  }
+
+  async render(): Promise<string[]> {
+    const lines = [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} histogram`];
+    for (const [key, s] of this.series) {
+      const labels = keyLabels(this.labelNames, key);
+      this.buckets.forEach((le, i) => {
+        lines.push(`${this.name}_bucket${labelString({ ...labels, le: String(le) })} ${s.counts[i]}`);
+      });
+      lines.push(`${this.name}_bucket${labelString({ ...labels, le: "+Inf" })} ${s.count}`);
+      lines.push(`${this.name}_sum${labelString(labels)} ${s.sum}`);
+      lines.push(`${this.name}_count${labelString(labels)} ${s.count}`);
+    }
+    return lines;
+  }
+}
+
+// Read at scrape time; a failing collector leaves the gauge out of that scrape.
+export class Gauge implements Metric {
+  constructor(
+    readonly name: string,
+    readonly help: string,
+    private readonly collect: () => Promise<{ labels: Labels; value: number }[]>
+  ) {
+    register(name, this);
+  }
+
+  async render(): Promise<string[]> {
+    const samples = await this.collect().catch(() => null);
+    if (!samples) return [];
+    return [
+      `# HELP ${this.name} ${this.help}`,
+      `# TYPE ${this.name} gauge`,
+      ...samples.map((s) => `${this.name}${labelString(s.labels)} ${s.value}`),
+    ];
+  }
+}
+
+export async function renderMetrics(): Promise<string> {
+  const blocks = await Promise.all([...registry.values()].map((m) => m.render()));
+  return `${blocks.flat().join("\n")}\n`;
+}
+
+// ── Worker metrics ────────────────────────────────────────────────────────────
+
+export const jobsTotal = new Counter("barry_jobs_total", "Jobs processed, by job name and outcome", ["job_name", "outcome"]);
+
+export const jobDuration = new Histogram("barry_job_duration_seconds", "Job run time, by job name and outcome", ["job_name", "outcome"]);
+
+export const sfRequestsTotal = new Counter("barry_salesforce_requests_total", "Salesforce HTTP calls, by path and status code", ["path", "status"]);
+
+export const sfRequestDuration = new Histogram("barry_salesforce_request_duration_seconds", "Salesforce HTTP call latency, by path", ["path"]);
+
+export const slackErrorsTotal = new Counter("barry_slack_api_errors_total", "Failed Slack Web API calls, by method and error", ["method", "error"]);
+
+// "/services/apexrest/barry/create-case" → "/barry/create-case". Record IDs are
+// dropped from REST paths so each endpoint stays one series.
+export function sfMetricPath(path: string): string {
+  const pathname = path.startsWith("http") ? new URL(path).pathname : path.split("?")[0];
+  const apex = /^\/services\/apexrest(\/.*)$/.exec(pathname);
+  if (apex) return apex[1];
+  const sobject = /^\/services\/data\/v[\d.]+\/sobjects\/([^/]+)/.exec(pathname);
+  if (sobject) return `/sobjects/${sobject[1]}`;
+  const rest = /^\/services\/data\/v[\d.]+\/([^/]+)/.exec(pathname);
+  if (rest) return `/${rest[1]}`;
+  return pathname;
+}
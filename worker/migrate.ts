@@ -1,37 +1,49 @@
 import "dotenv/config";
 import { pool } from "./db";
+import { log } from "./logger";
+import { migrateDown, migrateUp, migrationStatus } from "./migrator";
 
+// Usage: ts-node migrate.ts [up | down [count] | status]
 async function main() {
-  await pool.query(`
-    CREATE TABLE IF NOT EXISTS audit_log (
-      id bigserial PRIMARY KEY,
-      created_at timestamptz NOT NULL DEFAULT now(),
-      source text NOT NULL,
-      action text NOT NULL,
-      status text NOT NULL,
-      correlation_id text,
-      payload jsonb
-    );
-  `);
+  const [command = "up", arg] = process.argv.slice(2);
 
-  console.log("✅ audit_log table is ready");
+  switch (command) {
+    case "up": {
+      const applied = await migrateUp(pool);
+      log.info(applied.length ? "Applied migrations" : "Schema is up to date", { applied: applied.length });
+      break;
+    }
 
-  await pool.query(`
-    CREATE TABLE IF NOT EXISTS case_slack_link (
-      case_id     TEXT PRIMARY KEY,
-      case_number TEXT NOT NULL,
-      channel_id  TEXT NOT NULL,
-      message_ts  TEXT NOT NULL,
-      created_at  TIMESTAMPTZ DEFAULT NOW()
-    );
-  `);
+    case "down": {
+      const count = arg ? Number(arg) : 1;
+      if (!Number.isInteger(count) || count < 1) throw new Error(`Invalid rollback count: ${arg}`);
+      const rolledBack = await migrateDown(pool, count);
+      log.info("Rolled back migrations", { rolled_back: rolledBack.length });
+      break;
+    }
+
+    case "status": {
+      const statuses = await migrationStatus(pool);
+      for (const s of statuses) {
+        log.info("Migration", { state: s.state, version: s.version, name: s.name, applied_at: s.appliedAt });
+      }
+      const current = statuses.filter((s) => s.state !== "pending").pop();
+      log.info("Schema version", { version: current ? current.version : null });
+      if (statuses.some((s) => s.state === "modified" || s.state === "missing")) {
+        log.warn("Applied migrations differ from the files on disk");
+      }
+      break;
+    }
+
+    default:
+      throw new Error(`Unknown command "${command}" — expected up, down [count] or status`);
+  }
 
-  console.log("✅ case_slack_link table is ready");
   await pool.end();
 }
 
 main().catch(async (err) => {
-  console.error("❌ migration failed:", err);
+  log.error("Migration failed", { error: err });
   await pool.end();
   process.exit(1);
-});
\ No newline at end of file
+});
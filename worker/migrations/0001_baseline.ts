@@ -0,0 +1,42 @@
+// 0001_baseline — the tables the worker used before versioned migrations.
+// IF NOT EXISTS so existing databases (where migrate.ts or the Vercel app
+// already created these) are adopted as-is.
+import type { Migration } from "../migrator";
+
+const migration: Migration = {
+  up: `
+    CREATE TABLE IF NOT EXISTS audit_log (
+      id bigserial PRIMARY KEY,
+      created_at timestamptz NOT NULL DEFAULT now(),
+      source text NOT NULL,
+      action text NOT NULL,
+      status text NOT NULL,
+      correlation_id text,
+      payload jsonb
+    );
+
+    CREATE TABLE IF NOT EXISTS case_slack_link (
+      case_id     TEXT PRIMARY KEY,
+      case_number TEXT NOT NULL,
+      channel_id  TEXT NOT NULL,
+      message_ts  TEXT NOT NULL,
+      created_at  TIMESTAMPTZ DEFAULT NOW()
+    );
+
+    -- Written by the Vercel edge function on first-time email capture
+    CREATE TABLE IF NOT EXISTS slack_user_link (
+      slack_team_id TEXT NOT NULL,
+      slack_user_id TEXT NOT NULL,
+      email         TEXT NOT NULL,
+      created_at    TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+      PRIMARY KEY (slack_team_id, slack_user_id)
+    );
+  `,
+  down: `
+    DROP TABLE IF EXISTS slack_user_link;
+    DROP TABLE IF EXISTS case_slack_link;
+    DROP TABLE IF EXISTS audit_log;
+  `,
+};
+
+export default migration;
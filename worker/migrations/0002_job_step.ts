@@ -0,0 +1,20 @@
+// 0002_job_step — completed side-effect steps per idempotency key (see job-steps.ts)
+import type { Migration } from "../migrator";
+
+const migration: Migration = {
+  up: `
+    CREATE TABLE IF NOT EXISTS job_step (
+      idempotency_key TEXT NOT NULL,
+      job_name        TEXT NOT NULL,
+      step            TEXT NOT NULL,
+      result          JSONB,
+      completed_at    TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+      PRIMARY KEY (idempotency_key, step)
+    );
+  `,
+  down: `
+    DROP TABLE IF EXISTS job_step;
+  `,
+};
+
+export default migration;
@@ -0,0 +1,28 @@
+// 0003_case_slack_link_details — enough of the case to rebuild its announcement
+// without a Salesforce round-trip, plus the last status synced to Slack.
+import type { Migration } from "../migrator";
+
+const migration: Migration = {
+  up: `
+    ALTER TABLE case_slack_link
+      ADD COLUMN IF NOT EXISTS raised_by         TEXT,
+      ADD COLUMN IF NOT EXISTS subject           TEXT,
+      ADD COLUMN IF NOT EXISTS description       TEXT,
+      ADD COLUMN IF NOT EXISTS priority          TEXT,
+      ADD COLUMN IF NOT EXISTS case_type         TEXT,
+      ADD COLUMN IF NOT EXISTS status            TEXT NOT NULL DEFAULT 'New',
+      ADD COLUMN IF NOT EXISTS status_changed_at TIMESTAMPTZ;
+  `,
+  down: `
+    ALTER TABLE case_slack_link
+      DROP COLUMN IF EXISTS status_changed_at,
+      DROP COLUMN IF EXISTS status,
+      DROP COLUMN IF EXISTS case_type,
+      DROP COLUMN IF EXISTS priority,
+      DROP COLUMN IF EXISTS description,
+      DROP COLUMN IF EXISTS subject,
+      DROP COLUMN IF EXISTS raised_by;
+  `,
+};
+
+export default migration;
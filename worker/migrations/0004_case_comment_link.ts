@@ -0,0 +1,20 @@
+// 0004_case_comment_link — SF CaseComment ↔ Slack thread message, one row per synced comment
+import type { Migration } from "../migrator";
+
+const migration: Migration = {
+  up: `
+    CREATE TABLE IF NOT EXISTS case_comment_link (
+      sf_comment_id TEXT PRIMARY KEY,
+      case_id       TEXT NOT NULL,
+      origin        TEXT NOT NULL CHECK (origin IN ('slack', 'salesforce')),
+      slack_ts      TEXT,
+      created_at    TIMESTAMPTZ NOT NULL DEFAULT NOW()
+    );
+    CREATE INDEX IF NOT EXISTS case_comment_link_case_id_idx ON case_comment_link (case_id);
+  `,
+  down: `
+    DROP TABLE IF EXISTS case_comment_link;
+  `,
+};
+
+export default migration;
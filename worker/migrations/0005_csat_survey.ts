@@ -0,0 +1,27 @@
+// 0005_csat_survey — one CSAT survey per case: scheduled → sent → responded, plus one optional reminder
+import type { Migration } from "../migrator";
+
+const migration: Migration = {
+  up: `
+    CREATE TABLE IF NOT EXISTS csat_survey (
+      case_id          TEXT PRIMARY KEY,
+      case_number      TEXT NOT NULL,
+      slack_user_id    TEXT NOT NULL,
+      status           TEXT NOT NULL DEFAULT 'scheduled'
+                       CHECK (status IN ('scheduled', 'sending', 'sent', 'responded')),
+      scheduled_for    TIMESTAMPTZ NOT NULL,
+      dm_channel_id    TEXT,
+      message_ts       TEXT,
+      sent_at          TIMESTAMPTZ,
+      reminder_sent_at TIMESTAMPTZ,
+      rating           INTEGER,
+      responded_at     TIMESTAMPTZ,
+      created_at       TIMESTAMPTZ NOT NULL DEFAULT NOW()
+    );
+  `,
+  down: `
+    DROP TABLE IF EXISTS csat_survey;
+  `,
+};
+
+export default migration;
@@ -0,0 +1,29 @@
+// 0006_case_file_link — Slack thread files synced to (or rejected for) SF Cases, keyed by Slack file ID
+import type { Migration } from "../migrator";
+
+const migration: Migration = {
+  up: `
+    CREATE TABLE IF NOT EXISTS case_file_link (
+      slack_file_id       TEXT NOT NULL,
+      case_id             TEXT NOT NULL,
+      file_name           TEXT NOT NULL,
+      size_bytes          BIGINT,
+      status              TEXT NOT NULL CHECK (status IN ('uploaded', 'rejected')),
+      reason              TEXT,
+      content_version_id  TEXT,
+      content_document_id TEXT,
+      confirmed_at        TIMESTAMPTZ,
+      created_at          TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+      PRIMARY KEY (slack_file_id, case_id)
+    );
+
+    -- Thread replies are matched to their case by announcement ts
+    CREATE INDEX IF NOT EXISTS case_slack_link_thread_idx ON case_slack_link (channel_id, message_ts);
+  `,
+  down: `
+    DROP INDEX IF EXISTS case_slack_link_thread_idx;
+    DROP TABLE IF EXISTS case_file_link;
+  `,
+};
+
+export default migration;
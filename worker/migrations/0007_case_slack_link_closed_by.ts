@@ -0,0 +1,13 @@
+// 0007_case_slack_link_closed_by — who closed the case from Slack, to rebuild the closed announcement
+import type { Migration } from "../migrator";
+
+const migration: Migration = {
+  up: `
+    ALTER TABLE case_slack_link ADD COLUMN IF NOT EXISTS closed_by TEXT;
+  `,
+  down: `
+    ALTER TABLE case_slack_link DROP COLUMN IF EXISTS closed_by;
+  `,
+};
+
+export default migration;
@@ -0,0 +1,32 @@
+// 0008_sla_breach — SLA breaches found by the sla-scan job, one row (and one alert) per breach
+import type { Migration } from "../migrator";
+
+const migration: Migration = {
+  up: `
+    CREATE TABLE IF NOT EXISTS sla_breach (
+      case_id            TEXT NOT NULL,
+      kind               TEXT NOT NULL CHECK (kind IN ('first_response', 'time_in_status')),
+      since              TIMESTAMPTZ NOT NULL,
+      case_number        TEXT NOT NULL,
+      channel_id         TEXT NOT NULL,
+      message_ts         TEXT NOT NULL,
+      case_status        TEXT NOT NULL,
+      priority           TEXT,
+      target_minutes     INTEGER NOT NULL,
+      breached_at        TIMESTAMPTZ NOT NULL,
+      alert_status       TEXT NOT NULL DEFAULT 'pending'
+                         CHECK (alert_status IN ('pending', 'alerting', 'alerted')),
+      claimed_at         TIMESTAMPTZ,
+      thread_notified_at TIMESTAMPTZ,
+      alerted_at         TIMESTAMPTZ,
+      created_at         TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+      PRIMARY KEY (case_id, kind, since)
+    );
+    CREATE INDEX IF NOT EXISTS sla_breach_pending_idx ON sla_breach (created_at) WHERE alert_status <> 'alerted';
+  `,
+  down: `
+    DROP TABLE IF EXISTS sla_breach;
+  `,
+};
+
+export default migration;
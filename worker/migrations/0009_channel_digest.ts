@@ -0,0 +1,27 @@
+// 0009_channel_digest — opt-in case digest per channel: schedule, timezone and the next run
+import type { Migration } from "../migrator";
+
+const migration: Migration = {
+  up: `
+    CREATE TABLE IF NOT EXISTS channel_digest (
+      channel_id    TEXT PRIMARY KEY,
+      team_id       TEXT NOT NULL,
+      frequency     TEXT NOT NULL CHECK (frequency IN ('daily', 'weekly')),
+      weekday       SMALLINT CHECK (weekday BETWEEN 0 AND 6), -- weekly only, 0 = Sunday
+      hour          SMALLINT NOT NULL CHECK (hour BETWEEN 0 AND 23),
+      minute        SMALLINT NOT NULL DEFAULT 0 CHECK (minute BETWEEN 0 AND 59),
+      timezone      TEXT NOT NULL DEFAULT 'UTC',
+      subscribed_by TEXT NOT NULL,
+      next_run_at   TIMESTAMPTZ NOT NULL,
+      last_sent_at  TIMESTAMPTZ,
+      created_at    TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+      updated_at    TIMESTAMPTZ NOT NULL DEFAULT NOW()
+    );
+    CREATE INDEX IF NOT EXISTS channel_digest_next_run_idx ON channel_digest (next_run_at);
+  `,
+  down: `
+    DROP TABLE IF EXISTS channel_digest;
+  `,
+};
+
+export default migration;
@@ -0,0 +1,26 @@
+// 0010_audit_log_indexes — indexes for the audit-log CLI and the retention job
+//
+// Payload searches use containment (@>), which jsonb_path_ops GIN indexes serve.
+// audit_log is the largest table and the worker writes to it constantly, so the
+// indexes are built CONCURRENTLY, outside a transaction. A build that fails part
+// way leaves an INVALID index behind that IF NOT EXISTS would skip; drop it
+// before running the migration again.
+import type { Migration } from "../migrator";
+
+const migration: Migration = {
+  transaction: false,
+  up: `
+    CREATE INDEX CONCURRENTLY IF NOT EXISTS audit_log_correlation_idx ON audit_log (correlation_id, id);
+    CREATE INDEX CONCURRENTLY IF NOT EXISTS audit_log_created_at_idx ON audit_log (created_at);
+    CREATE INDEX CONCURRENTLY IF NOT EXISTS audit_log_action_status_idx ON audit_log (action, status, created_at);
+    CREATE INDEX CONCURRENTLY IF NOT EXISTS audit_log_payload_idx ON audit_log USING GIN (payload jsonb_path_ops);
+  `,
+  down: `
+    DROP INDEX CONCURRENTLY IF EXISTS audit_log_payload_idx;
+    DROP INDEX CONCURRENTLY IF EXISTS audit_log_action_status_idx;
+    DROP INDEX CONCURRENTLY IF EXISTS audit_log_created_at_idx;
+    DROP INDEX CONCURRENTLY IF EXISTS audit_log_correlation_idx;
+  `,
+};
+
+export default migration;
@@ -0,0 +1,30 @@
+// 0011_sf_api_usage — Salesforce API usage samples and which usage alerts are currently raised
+import type { Migration } from "../migrator";
+
+const migration: Migration = {
+  up: `
+    CREATE TABLE IF NOT EXISTS sf_api_usage (
+      id          BIGSERIAL PRIMARY KEY,
+      recorded_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+      used        INTEGER NOT NULL,
+      max         INTEGER NOT NULL
+    );
+    CREATE INDEX IF NOT EXISTS sf_api_usage_recorded_at_idx ON sf_api_usage (recorded_at);
+
+    -- One row per threshold; raised while cleared_at is NULL, so every worker
+    -- process shares one alert per crossing.
+    CREATE TABLE IF NOT EXISTS sf_api_usage_alert (
+      threshold  SMALLINT PRIMARY KEY CHECK (threshold BETWEEN 1 AND 100),
+      crossed_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+      cleared_at TIMESTAMPTZ,
+      used       INTEGER NOT NULL,
+      max        INTEGER NOT NULL
+    );
+  `,
+  down: `
+    DROP TABLE IF EXISTS sf_api_usage_alert;
+    DROP TABLE IF EXISTS sf_api_usage;
+  `,
+};
+
+export default migration;
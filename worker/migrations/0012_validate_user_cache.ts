@@ -0,0 +1,25 @@
+// 0012_validate_user_cache — cached validate-user answers per team, channel and Slack user
+import type { Migration } from "../migrator";
+
+const migration: Migration = {
+  up: `
+    CREATE TABLE IF NOT EXISTS validate_user_cache (
+      team_id       TEXT NOT NULL,
+      channel_id    TEXT NOT NULL,
+      slack_user_id TEXT NOT NULL,
+      email         TEXT NOT NULL,
+      status        TEXT NOT NULL,
+      account_id    TEXT,
+      result        JSONB NOT NULL, -- the ValidateUserResponse as Salesforce sent it
+      fetched_at    TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+      expires_at    TIMESTAMPTZ NOT NULL,
+      PRIMARY KEY (team_id, channel_id, slack_user_id)
+    );
+    CREATE INDEX IF NOT EXISTS validate_user_cache_account_idx ON validate_user_cache (account_id);
+  `,
+  down: `
+    DROP TABLE IF EXISTS validate_user_cache;
+  `,
+};
+
+export default migration;
@@ -0,0 +1,27 @@
+// 0013_slack_installation — one bot token per workspace that installed the app, and each case's workspace
+import type { Migration } from "../migrator";
+
+const migration: Migration = {
+  up: `
+    CREATE TABLE IF NOT EXISTS slack_installation (
+      team_id       TEXT PRIMARY KEY,
+      team_name     TEXT,
+      enterprise_id TEXT,
+      app_id        TEXT NOT NULL,
+      bot_user_id   TEXT NOT NULL,
+      bot_token     TEXT, -- NULL once revoked
+      scopes        TEXT[] NOT NULL DEFAULT '{}',
+      installed_by  TEXT, -- Slack user ID
+      installed_at  TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+      updated_at    TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+      revoked_at    TIMESTAMPTZ
+    );
+    ALTER TABLE case_slack_link ADD COLUMN IF NOT EXISTS team_id TEXT;
+  `,
+  down: `
+    ALTER TABLE case_slack_link DROP COLUMN IF EXISTS team_id;
+    DROP TABLE IF EXISTS slack_installation;
+  `,
+};
+
+export default migration;
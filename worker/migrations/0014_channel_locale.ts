@@ -0,0 +1,21 @@
+// 0014_channel_locale — per-channel language and default timezone set with /case-language
+import type { Migration } from "../migrator";
+
+const migration: Migration = {
+  up: `
+    CREATE TABLE IF NOT EXISTS channel_locale (
+      channel_id TEXT PRIMARY KEY,
+      team_id    TEXT NOT NULL,
+      locale     TEXT NOT NULL, -- en, de, fr (i18n.ts LOCALES)
+      timezone   TEXT, -- IANA name; NULL leaves times in each person's Slack timezone, or UTC
+      set_by     TEXT NOT NULL, -- Slack user ID
+      created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+      updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+    );
+  `,
+  down: `
+    DROP TABLE IF EXISTS channel_locale;
+  `,
+};
+
+export default migration;
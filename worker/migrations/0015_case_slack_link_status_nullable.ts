@@ -0,0 +1,28 @@
+// 0015_case_slack_link_status_nullable — 0003 gave links that already existed a
+// status of 'New', which we never knew, so long-closed cases looked open. Those
+// links go back to a NULL status; new links still start at 'New' (case-links.ts).
+import type { Migration } from "../migrator";
+
+const migration: Migration = {
+  up: `
+    ALTER TABLE case_slack_link
+      ALTER COLUMN status DROP NOT NULL,
+      ALTER COLUMN status DROP DEFAULT;
+
+    UPDATE case_slack_link l SET status = NULL
+    FROM schema_migrations m
+    WHERE m.version = '0003'
+      AND l.created_at < m.applied_at
+      AND l.status = 'New'
+      AND l.status_changed_at IS NULL;
+  `,
+  down: `
+    UPDATE case_slack_link SET status = 'New' WHERE status IS NULL;
+
+    ALTER TABLE case_slack_link
+      ALTER COLUMN status SET DEFAULT 'New',
+      ALTER COLUMN status SET NOT NULL;
+  `,
+};
+
+export default migration;
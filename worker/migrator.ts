@@ -0,0 +1,248 @@
+// migrator.ts — versioned schema migrations backed by `schema_migrations`
+//
+// Migrations live in ./migrations as `NNNN_description.ts`, each default-exporting
+// `{ up, down }` SQL. They are applied in version order inside one transaction
+// holding an advisory lock, so two deploys running `migrate` at once serialise
+// instead of racing, and a failing migration leaves the schema untouched.
+//
+// A migration with `transaction: false` (e.g. CREATE INDEX CONCURRENTLY) runs on
+// its own under the same lock instead, one `;`-terminated statement at a
+// time. Migrations before it are committed first.
+import { createHash } from "node:crypto";
+import fs from "node:fs";
+import path from "node:path";
+import { setTimeout as sleep } from "node:timers/promises";
+import type { Pool, PoolClient } from "pg";
+import { log } from "./logger";
+
+export type Migration = {
+  up: string;
+  down: string;
+  transaction?: false;
+};
+
+export type LoadedMigration = Migration & {
+  version: string; // "0001"
+  name: string;    // "baseline"
+  checksum: string;
+};
+
+export type MigrationStatus = {
+  version: string;
+  name: string;
+  state: "applied" | "pending" | "modified" | "missing";
+  appliedAt?: Date;
+};
+
+const MIGRATIONS_DIR = path.join(__dirname, "migrations");
+const FILE_PATTERN = /^(\d{4})_([a-z0-9_]+)\.(ts|js)$/;
+const LOCK_KEY = "barry_schema_migrations";
+const LOCK_POLL_MS = 200;
+
+function checksum(sql: string): string {
+  return createHash("sha256").update(sql.trim()).digest("hex").slice(0, 16);
+}
+
+export function loadMigrations(dir = MIGRATIONS_DIR): LoadedMigration[] {
+  const seen = new Map<string, string>();
+  const migrations: LoadedMigration[] = [];
+
+  for (const file of fs.readdirSync(dir).sort()) {
+    if (file.endsWith(".d.ts")) continue;
+    const match = FILE_PATTERN.exec(file);
+    if (!match) continue;
+
+    const [, version, name] = match;
+    // A compiled build may hold both .ts and .js for the same migration
+    if (seen.get(version) === name) continue;
+    if (seen.has(version)) {
+      throw new Error(`Duplicate migration version ${version}: ${seen.get(version)} and ${name}`);
+    }
+    seen.set(version, name);
+
+    const mod = require(path.join(dir, file)) as { default?: Migration };
+    if (!mod.default || typeof mod.default.up !== "string" || typeof mod.default.down !== "string") {
+      throw new Error(`Migration ${file} must default-export { up, down } SQL strings`);
+    }
+    migrations.push({ ...mod.default, version, name, checksum: checksum(mod.default.up) });
+  }
+
+  return migrations;
+}
+
+type AppliedRow = { version: string; name: string; checksum: string; applied_at: Date };
+
+async function ensureTable(client: PoolClient): Promise<void> {
+  await client.query(`
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      version    TEXT PRIMARY KEY,
+      name       TEXT NOT NULL,
+      checksum   TEXT NOT NULL,
+      applied_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+    );
+  `);
+}
+
+async function appliedMigrations(client: PoolClient): Promise<Map<string, AppliedRow>> {
+  const { rows } = await client.query<AppliedRow>(
+    "SELECT version, name, checksum, applied_at FROM schema_migrations ORDER BY version"
+  );
+  return new Map(rows.map((r) => [r.version, r]));
+}
+
+// Session-level advisory lock, polled for outside any transaction. A session
+// blocked in pg_advisory_lock (or idle in a transaction while it waits) holds
+// a snapshot, and a CREATE INDEX CONCURRENTLY run by the lock holder would wait
+// for that snapshot for ever.
+async function withLock<T>(pool: Pool, fn: (client: PoolClient) => Promise<T>): Promise<T> {
+  const client = await pool.connect();
+  try {
+    for (;;) {
+      const { rows } = await client.query<{ locked: boolean }>("SELECT pg_try_advisory_lock(hashtext($1)) AS locked", [LOCK_KEY]);
+      if (rows[0].locked) break;
+      await sleep(LOCK_POLL_MS);
+    }
+    try {
+      return await fn(client);
+    } finally {
+      await client.query("SELECT pg_advisory_unlock(hashtext($1))", [LOCK_KEY]);
+    }
+  } finally {
+    client.release();
+  }
+}
+
+// BEGIN under the lock; COMMIT on success, ROLLBACK otherwise.
+async function inLockedTransaction<T>(pool: Pool, fn: (client: PoolClient) => Promise<T>): Promise<T> {
+  return withLock(pool, async (client) => {
+    await client.query("BEGIN");
+    try {
+      await ensureTable(client);
+      const result = await fn(client);
+      await client.query("COMMIT");
+      return result;
+    } catch (err) {
+      await client.query("ROLLBACK").catch(() => undefined);
+      throw err;
+    }
+  });
+}
+
+// For `transaction: false`: the lock alone, each statement committing as it runs.
+async function withoutTransaction<T>(pool: Pool, fn: (client: PoolClient) => Promise<T>): Promise<T> {
+  return withLock(pool, async (client) => {
+    await ensureTable(client);
+    return fn(client);
+  });
+}
+
+// Postgres wraps a multi-statement query in an implicit transaction, which
+// CONCURRENTLY refuses, so non-transactional SQL is sent a statement at a time.
+async function runSql(client: PoolClient, m: LoadedMigration, sql: string): Promise<void> {
+  if (m.transaction !== false) {
+    await client.query(sql);
+    return;
+  }
+  for (const statement of sql.split(/;[ \t]*$/m).map((st) => st.trim()).filter(Boolean)) {
+    await client.query(statement);
+  }
+}
+
+async function applyUp(client: PoolClient, m: LoadedMigration): Promise<void> {
+  log.info("Applying migration", { version: m.version, name: m.name });
+  await runSql(client, m, m.up);
+  await client.query(
+    "INSERT INTO schema_migrations (version, name, checksum) VALUES ($1, $2, $3)",
+    [m.version, m.name, m.checksum]
+  );
+}
+
+async function applyDown(client: PoolClient, m: LoadedMigration): Promise<void> {
+  log.info("Rolling back migration", { version: m.version, name: m.name });
+  await runSql(client, m, m.down);
+  await client.query("DELETE FROM schema_migrations WHERE version = $1", [m.version]);
+}
+
+// Apply every pending migration. Returns the migrations applied by this call.
+export async function migrateUp(pool: Pool, migrations = loadMigrations()): Promise<LoadedMigration[]> {
+  const done: LoadedMigration[] = [];
+  for (;;) {
+    // Everything up to the next non-transactional migration, in one transaction
+    const { applied, next } = await inLockedTransaction(pool, async (client) => {
+      const already = await appliedMigrations(client);
+      const applied: LoadedMigration[] = [];
+      for (const m of migrations.filter((m) => !already.has(m.version))) {
+        if (m.transaction === false) return { applied, next: m };
+        await applyUp(client, m);
+        applied.push(m);
+      }
+      return { applied, next: undefined };
+    });
+    done.push(...applied);
+    if (!next) return done;
+
+    // Another deploy may have applied it between the two locks
+    const ran = await withoutTransaction(pool, async (client) => {
+      if ((await appliedMigrations(client)).has(next.version)) return false;
+      await applyUp(client, next);
+      return true;
+    });
+    if (ran) done.push(next);
+  }
+}
+
+// Roll back the `count` most recently applied migrations, newest first.
+export async function migrateDown(pool: Pool, count = 1, migrations = loadMigrations()): Promise<LoadedMigration[]> {
+  const byVersion = new Map(migrations.map((m) => [m.version, m]));
+  const done: LoadedMigration[] = [];
+  while (done.length < count) {
+    const { rolledBack, next } = await inLockedTransaction(pool, async (client) => {
+      const applied = await appliedMigrations(client);
+      const targets = [...applied.keys()].sort().reverse().slice(0, count - done.length);
+
+      const rolledBack: LoadedMigration[] = [];
+      for (const version of targets) {
+        const m = byVersion.get(version);
+        if (!m) throw new Error(`Cannot roll back ${version}: migration file is missing`);
+        if (m.transaction === false) return { rolledBack, next: m };
+        await applyDown(client, m);
+        rolledBack.push(m);
+      }
+      return { rolledBack, next: undefined };
+    });
+    done.push(...rolledBack);
+    if (!next) break;
+
+    const ran = await withoutTransaction(pool, async (client) => {
+      if (!(await appliedMigrations(client)).has(next.version)) return false;
+      await applyDown(client, next);
+      return true;
+    });
+    if (ran) done.push(next);
+  }
+  return done;
+}
+
+export async function migrationStatus(pool: Pool, migrations = loadMigrations()): Promise<MigrationStatus[]> {
+  return inLockedTransaction(pool, async (client) => {
+    const applied = await appliedMigrations(client);
+    const statuses: MigrationStatus[] = migrations.map((m) => {
+      const row = applied.get(m.version);
+      if (!row) return { version: m.version, name: m.name, state: "pending" };
+      return {
+        version: m.version,
+        name: m.name,
+        state: row.checksum === m.checksum ? "applied" : "modified",
+        appliedAt: row.applied_at,
+      };
+    });
+
+    // Applied in the database but no longer present on disk
+    for (const row of applied.values()) {
+      if (!migrations.some((m) => m.version === row.version)) {
+        statuses.push({ version: row.version, name: row.name, state: "missing", appliedAt: row.applied_at });
+      }
+    }
+    return statuses.sort((a, b) => a.version.localeCompare(b.version));
+  });
+}
@@ -0,0 +1,153 @@
+// processor.ts — barry-jobs processor: audit logging around the handler registry
+import { DelayedError, Job, UnrecoverableError } from "bullmq";
+import { pool } from "./db";
+import { getJobHandler, parsePayload } from "./jobs";
+import { log, withLogContext } from "./logger";
+import { jobDuration, jobsTotal } from "./metrics";
+import { SalesforceCircuitOpenError } from "./salesforce";
+import { sfApiUsage } from "./sf-limits";
+import { SlackNotInstalledError, withSlackTeam } from "./slack";
+
+function getErrorMessage(err: unknown): string {
+  if (err instanceof Error) return err.message;
+  return String(err);
+}
+
+// `token` is the worker's lock token, needed to push a job back to delayed.
+export async function processJob(job: Job, token?: string) {
+  const correlationId = job.data?.correlation_id || `job-${job.id}-${Date.now()}`;
+  const context = {
+    job_id: String(job.id),
+    job_name: job.name,
+    correlation_id: correlationId,
+    attempt: job.attemptsMade + 1,
+    startedAt: Date.now(),
+  };
+  return withLogContext(context, () => withSlackTeam(slackTeamOf(job.data), () => runJob(job, correlationId, token)));
+}
+
+// The workspace a job's Slack calls go to: `team_id` on most payloads, or the
+// team inside a forwarded Slack payload.
+function slackTeamOf(data: unknown): string | undefined {
+  const payload = field(data, "payload");
+  const team = field(data, "team_id") ?? field(payload, "team_id") ?? field(field(payload, "team"), "id");
+  return typeof team === "string" && team ? team : undefined;
+}
+
+// `value[key]` when `value` is an object that has it — job data is unvalidated here.
+function field(value: unknown, key: string): unknown {
+  return typeof value === "object" && value !== null && key in value ? (value as Record<string, unknown>)[key] : undefined;
+}
+
+// Payload fields that are credentials rather than data: the one-time OAuth
+// `code` a Slack install is finished with (jobs/slack-oauth-callback.ts).
+const SECRET_PAYLOAD_KEYS = new Set(["code"]);
+
+// job.data as audit_log and the debug log keep it, credentials masked.
+function auditPayload(job: Job): Record<string, unknown> {
+  const data: Record<string, unknown> = auditPayload(job);
+  return Object.fromEntries(Object.entries(data).map(([k, v]) => [k, SECRET_PAYLOAD_KEYS.has(k) ? "[redacted]" : v]));
+}
+
+function recordOutcome(job: Job, outcome: "completed" | "failed" | "deferred" | "unknown_job", startedAt: number) {
+  jobsTotal.inc({ job_name: job.name, outcome });
+  jobDuration.observe({ job_name: job.name, outcome }, (Date.now() - startedAt) / 1000);
+}
+
+async function runJob(job: Job, correlationId: string, token?: string) {
+  const startedAt = Date.now();
+  log.info("Job started");
+  log.debug("Job payload", { payload: auditPayload(job) });
+
+  // ---- Write "started" audit log ----
+  await pool.query(
+    `INSERT INTO audit_log (source, action, status, correlation_id, payload) VALUES ($1, $2, $3, $4, $5)`,
+    ["queue", job.name, "started", correlationId, auditPayload(job)]
+  );
+
+  const handler = getJobHandler(job.name);
+
+  if (!handler) {
+    // ---- Write "unknown_job" audit log ----
+    await pool.query(
+      `INSERT INTO audit_log (source, action, status, correlation_id, payload) VALUES ($1, $2, $3, $4, $5)`,
+      ["queue", job.name, "unknown_job", correlationId, auditPayload(job)]
+    );
+    log.error("Job rejected: unknown job name");
+    recordOutcome(job, "unknown_job", startedAt);
+    throw new UnrecoverableError(`Unknown job name: ${job.name}`);
+  }
+
+  // Near the org's daily API limit, low-priority jobs wait their turn (sf-limits.ts)
+  const throttleMs = token ? sfApiUsage().delayFor(job.name) : 0;
+  if (token && throttleMs > 0) {
+    return deferJob(job, token, correlationId, throttleMs, "Salesforce API usage high", startedAt);
+  }
+
+  try {
+    const payload = parsePayload(job.name, handler.schema, job.data);
+    await handler.handle(payload, { job, correlationId });
+
+    // ---- Write "completed" audit log ----
+    await pool.query(
+      `INSERT INTO audit_log (source, action, status, correlation_id, payload) VALUES ($1, $2, $3, $4, $5)`,
+      ["queue", job.name, "completed", correlationId, auditPayload(job)]
+    );
+
+    log.info("Job completed");
+    recordOutcome(job, "completed", startedAt);
+    return { ok: true, processedAt: new Date().toISOString() };
+  } catch (err: unknown) {
+    // Salesforce is known to be down: park the job until the circuit half-opens
+    // instead of spending one of its attempts on a call that was never made.
+    if (err instanceof SalesforceCircuitOpenError && token) {
+      return deferJob(job, token, correlationId, Math.max(err.retryAfterMs, 1_000), "Salesforce circuit open", startedAt, err.message);
+    }
+
+    log.error("Job failed", { error: getErrorMessage(err) });
+    recordOutcome(job, "failed", startedAt);
+
+    // ---- Write "failed" audit log ----
+    await pool.query(
+      `INSERT INTO audit_log (source, action, status, correlation_id, payload) VALUES ($1, $2, $3, $4, $5)`,
+      [
+        "queue",
+        job.name,
+        "failed",
+        correlationId,
+        { error: getErrorMessage(err), originalPayload: auditPayload(job) },
+      ]
+    );
+
+    // No token for the workspace (uninstalled, or never installed); retrying can't produce one.
+    if (err instanceof SlackNotInstalledError) throw new UnrecoverableError(err.message);
+
+    // Rethrow so BullMQ retries — PayloadValidationError is an UnrecoverableError,
+    // so bad payloads fail immediately instead of burning attempts.
+    throw err;
+  }
+}
+
+// Moves the job back to delayed without using up an attempt. BullMQ expects
+// the processor to throw DelayedError after moveToDelayed().
+async function deferJob(
+  job: Job,
+  token: string,
+  correlationId: string,
+  delayMs: number,
+  reason: string,
+  startedAt: number,
+  error?: string
+): Promise<never> {
+  log.warn("Job deferred", { reason, delay_ms: delayMs });
+  recordOutcome(job, "deferred", startedAt);
+
+  // ---- Write "deferred" audit log ----
+  await pool.query(
+    `INSERT INTO audit_log (source, action, status, correlation_id, payload) VALUES ($1, $2, $3, $4, $5)`,
+    ["queue", job.name, "deferred", correlationId, { reason, delayMs, ...(error ? { error } : {}), originalPayload: auditPayload(job) }]
+  );
+
+  await job.moveToDelayed(Date.now() + delayMs, token);
+  throw new DelayedError();
+}
@@ -0,0 +1,61 @@
+// queue.ts — enqueue follow-up jobs (delayed surveys, reminders) from inside a handler
+//
+// Follow-ups go to the queue the current job came from, so they land on
+// whichever queue the running worker consumes. Repeatable jobs (the SLA scan)
+// are registered by the worker at startup.
+import { Queue, type JobsOptions } from "bullmq";
+import { redisConfig } from "./config";
+import type { JobContext } from "./jobs/types";
+
+const queues = new Map<string, Queue>();
+
+// One cached Queue per name; closed by closeQueues().
+export function getQueue(name: string): Queue {
+  let queue = queues.get(name);
+  if (!queue) {
+    queue = new Queue(name, { connection: redisConfig() });
+    queues.set(name, queue);
+  }
+  return queue;
+}
+
+export async function enqueueFollowUp(
+  ctx: JobContext,
+  name: string,
+  data: Record<string, unknown>,
+  opts: JobsOptions = {}
+): Promise<void> {
+  await getQueue(ctx.job.queueName).add(name, { ...data, correlation_id: ctx.correlationId }, {
+    attempts: 3,
+    backoff: { type: "exponential", delay: 2000 },
+    removeOnComplete: true,
+    removeOnFail: false,
+    ...opts,
+  });
+}
+
+// Upserting on every start keeps one scheduler per ID however many workers
+// run; an interval of 0 removes the scheduler instead.
+export async function upsertRepeatableJob(
+  queueName: string,
+  schedulerId: string,
+  everyMs: number,
+  name: string,
+  data: Record<string, unknown> = {}
+): Promise<void> {
+  const queue = getQueue(queueName);
+  if (!everyMs) {
+    await queue.removeJobScheduler(schedulerId);
+    return;
+  }
+  await queue.upsertJobScheduler(schedulerId, { every: everyMs }, {
+    name,
+    data,
+    opts: { removeOnComplete: true, removeOnFail: 100 },
+  });
+}
+
+export async function closeQueues(): Promise<void> {
+  await Promise.all([...queues.values()].map((q) => q.close()));
+  queues.clear();
+}
@@ -0,0 +1,55 @@
+// reopen.ts — grace period for reopening closed cases from Slack
+//
+// A closed announcement carries a Reopen button for CASE_REOPEN_GRACE_DAYS
+// after the close. A delayed `reopen-expired` job strips the button when the
+// window ends; the reopen-case job re-checks the window itself, so a click that
+// races the expiry is still refused.
+import type { CaseLink } from "./case-links";
+import { buildClosedBlocks } from "./cases";
+import { parseConfig } from "./config";
+import type { Translator } from "./i18n";
+import type { JobContext } from "./jobs/types";
+import { log } from "./logger";
+import { enqueueFollowUp } from "./queue";
+
+export type ReopenSettings = { graceMs: number };
+
+// CASE_REOPEN_GRACE_DAYS defaults to 7; 0 disables reopening from Slack.
+export function reopenSettings(): ReopenSettings {
+  return parseConfig(["reopen"]).reopen;
+}
+
+// When the grace period for a closed case ends, or null if it can't be reopened from Slack.
+export function reopenDeadline(link: Pick<CaseLink, "status" | "status_changed_at">): Date | null {
+  const { graceMs } = reopenSettings();
+  if (!graceMs || link.status !== "Closed" || !link.status_changed_at) return null;
+  return new Date(link.status_changed_at.getTime() + graceMs);
+}
+
+export function isReopenable(link: Pick<CaseLink, "status" | "status_changed_at">, now = new Date()): boolean {
+  const deadline = reopenDeadline(link);
+  return !!deadline && deadline > now;
+}
+
+// Closed announcement for a link, with the Reopen button while the window is open.
+export function buildClosedAnnouncement(link: CaseLink, t: Translator, now = new Date()): unknown[] {
+  const deadline = reopenDeadline(link);
+  return buildClosedBlocks(
+    link.case_number,
+    t,
+    link.closed_by ?? undefined,
+    deadline && deadline > now ? { caseId: link.case_id, channelId: link.channel_id, until: deadline } : undefined
+  );
+}
+
+// Called after the link is marked Closed. Each close gets its own job (keyed by
+// the close time), so a reopen and re-close schedules a fresh expiry.
+export async function scheduleReopenExpiry(ctx: JobContext, link: CaseLink): Promise<void> {
+  const deadline = reopenDeadline(link);
+  if (!deadline) return;
+  await enqueueFollowUp(ctx, "reopen-expired", { case_id: link.case_id }, {
+    jobId: `reopen-expiry-${link.case_id}-${link.status_changed_at!.getTime()}`,
+    delay: Math.max(0, deadline.getTime() - Date.now()),
+  });
+  log.info("Reopen button expiry scheduled", { case_id: link.case_id, expires_at: deadline.toISOString() });
+}
@@ -0,0 +1,58 @@
+// salesforce-auth.ts — how salesforce.ts gets access tokens: one strategy per OAuth flow
+//
+//   refresh_token  the connected app's client secret plus a stored refresh token
+//   jwt_bearer     an RS256-signed assertion for SF_USERNAME; Salesforce checks it
+//                  against the certificate uploaded to the connected app, so no
+//                  long-lived token is stored anywhere
+//
+// A strategy only builds the token request; salesforce.ts posts it, caches the
+// token and works out its lifetime (introspection, or a conservative guess).
+import { createSign } from "node:crypto";
+import type { SalesforceConfig } from "./config";
+
+export type SalesforceAuthStrategy = {
+  flow: SalesforceConfig["auth"]["flow"];
+  tokenRequest(now?: Date): URLSearchParams;
+};
+
+export const JWT_BEARER_GRANT = "urn:ietf:params:oauth:grant-type:jwt-bearer";
+
+// Salesforce accepts assertions up to 3 minutes ahead.
+const JWT_LIFETIME_SECONDS = 180;
+
+const base64url = (input: string | Buffer) => Buffer.from(input).toString("base64url");
+
+export function signJwtAssertion(
+  claims: { iss: string; sub: string; aud: string },
+  privateKey: string,
+  now = new Date()
+): string {
+  const header = base64url(JSON.stringify({ alg: "RS256", typ: "JWT" }));
+  const payload = base64url(JSON.stringify({ ...claims, exp: Math.floor(now.getTime() / 1000) + JWT_LIFETIME_SECONDS }));
+  const signature = createSign("RSA-SHA256").update(`${header}.${payload}`).sign(privateKey);
+  return `${header}.${payload}.${base64url(signature)}`;
+}
+
+export function createAuthStrategy(config: SalesforceConfig): SalesforceAuthStrategy {
+  const { auth } = config;
+  if (auth.flow === "jwt_bearer") {
+    return {
+      flow: auth.flow,
+      tokenRequest: (now) =>
+        new URLSearchParams({
+          grant_type: JWT_BEARER_GRANT,
+          assertion: signJwtAssertion({ iss: config.clientId, sub: auth.username, aud: auth.audience }, auth.privateKey, now),
+        }),
+    };
+  }
+  return {
+    flow: auth.flow,
+    tokenRequest: () =>
+      new URLSearchParams({
+        grant_type: "refresh_token",
+        client_id: config.clientId,
+        client_secret: config.clientSecret ?? "",
+        refresh_token: auth.refreshToken,
+      }),
+  };
+}
@@ -1,4 +1,11 @@
 // salesforce.ts
+import { CircuitBreaker } from "./circuit-breaker";
+import { salesforceConfig } from "./config";
+import { log } from "./logger";
+import { Gauge, sfMetricPath, sfRequestDuration, sfRequestsTotal } from "./metrics";
+import { createAuthStrategy, type SalesforceAuthStrategy } from "./salesforce-auth";
+import { parseLimitInfo, sfApiUsage } from "./sf-limits";
+
 type SalesforceTokenResponse = {
   access_token: string;
   instance_url: string;
@@ -8,25 +15,141 @@ type SalesforceTokenResponse = {
   signature?: string;
 };
 
+// RFC 7662 token introspection; `exp` is epoch seconds.
+type IntrospectionResponse = {
+  active: boolean;
+  exp?: number;
+};
+
 type TokenCache = {
   accessToken: string;
   instanceUrl: string;
   expiresAt: number; // epoch ms
 };
 
-const SF_CLIENT_ID = process.env.SF_CLIENT_ID!;
-const SF_CLIENT_SECRET = process.env.SF_CLIENT_SECRET!;
-const SF_REFRESH_TOKEN = process.env.SF_REFRESH_TOKEN!;
-const SF_LOGIN_URL = process.env.SF_LOGIN_URL || "https://login.salesforce.com";
-const SF_API_VERSION = process.env.SF_API_VERSION || "60.0";
-const SKEW_SECONDS = Number(process.env.SF_TOKEN_SKEW_SECONDS || "60");
+// ---- Errors ----
+
+// How sure we are that Salesforce did nothing with a failed request, which
+// decides whether non-idempotent calls may be retried.
+type Processed = "no" | "unknown";
+
+// Base class so callers can catch any Salesforce failure in one place.
+// `status` is null when no response arrived (timeout, network).
+export class SalesforceError extends Error {
+  readonly path: string;
+  readonly status: number | null;
+  readonly errorCode: string | null;
+  readonly body: string;
+
+  constructor(path: string, status: number | null, errorCode: string | null, message: string, body = "") {
+    super(message);
+    this.name = "SalesforceError";
+    this.path = path;
+    this.status = status;
+    this.errorCode = errorCode;
+    this.body = body;
+  }
+
+  isRetryable(_idempotent: boolean): boolean {
+    return false;
+  }
+}
+
+// Session or credentials rejected (after the one refresh-and-retry).
+export class SalesforceAuthError extends SalesforceError {
+  constructor(path: string, status: number | null, errorCode: string | null, message: string, body?: string) {
+    super(path, status, errorCode, message, body);
+    this.name = "SalesforceAuthError";
+  }
+}
+
+// REQUEST_LIMIT_EXCEEDED: the org's API allowance or concurrent-request cap.
+// Nothing was done, so it is always safe to try again later.
+export class SalesforceRateLimitError extends SalesforceError {
+  constructor(path: string, status: number | null, errorCode: string | null, message: string, body?: string) {
+    super(path, status, errorCode, message, body);
+    this.name = "SalesforceRateLimitError";
+  }
+
+  isRetryable(): boolean {
+    return true;
+  }
+}
+
+// 5xx, UNABLE_TO_LOCK_ROW, timeouts and network failures. 503 and lock
+// contention mean the request wasn't applied; a 500 or a timeout might have
+// been, so those are only retried for idempotent calls.
+export class SalesforceTransientError extends SalesforceError {
+  readonly processed: Processed;
+
+  constructor(path: string, status: number | null, errorCode: string | null, message: string, opts: { processed: Processed; body?: string }) {
+    super(path, status, errorCode, message, opts.body);
+    this.name = "SalesforceTransientError";
+    this.processed = opts.processed;
+  }
 
-if (!SF_CLIENT_ID || !SF_CLIENT_SECRET || !SF_REFRESH_TOKEN) {
-  throw new Error("Missing Salesforce env vars (SF_CLIENT_ID/SF_CLIENT_SECRET/SF_REFRESH_TOKEN).");
+  isRetryable(idempotent: boolean): boolean {
+    return idempotent || this.processed === "no";
+  }
+}
+
+// Refused without calling Salesforce while the circuit breaker is open.
+export class SalesforceCircuitOpenError extends SalesforceTransientError {
+  readonly retryAfterMs: number;
+
+  constructor(path: string, retryAfterMs: number) {
+    super(path, null, null, `Salesforce circuit open — not calling ${path} (retry in ${Math.ceil(retryAfterMs / 1000)}s)`, { processed: "no" });
+    this.name = "SalesforceCircuitOpenError";
+    this.retryAfterMs = retryAfterMs;
+  }
+
+  // Retrying inside the call would only spin until the cooldown ends
+  isRetryable(): boolean {
+    return false;
+  }
+}
+
+// Any other 4xx: malformed request, missing record, Apex validation. Retrying won't help.
+export class SalesforceValidationError extends SalesforceError {
+  constructor(path: string, status: number | null, errorCode: string | null, message: string, body?: string) {
+    super(path, status, errorCode, message, body);
+    this.name = "SalesforceValidationError";
+  }
+}
+
+const UNPROCESSED_CODES = new Set(["UNABLE_TO_LOCK_ROW", "SERVER_UNAVAILABLE"]);
+
+// First errorCode (REST/Apex: [{ errorCode }]) or error (OAuth: { error }) in a body.
+function errorCodeOf(text: string): string | null {
+  try {
+    const body = JSON.parse(text);
+    const first = Array.isArray(body) ? body[0] : body;
+    return first?.errorCode ?? first?.error ?? null;
+  } catch {
+    return null;
+  }
+}
+
+export function salesforceErrorFor(path: string, status: number, text: string, prefix = "Salesforce API error"): SalesforceError {
+  const code = errorCodeOf(text);
+  const message = `${prefix} (${status}) on ${path}: ${text}`;
+  if (code === "REQUEST_LIMIT_EXCEEDED" || status === 429) return new SalesforceRateLimitError(path, status, code, message, text);
+  if (status === 401 || code === "INVALID_SESSION_ID") return new SalesforceAuthError(path, status, code, message, text);
+  if (status >= 500 || (code && UNPROCESSED_CODES.has(code))) {
+    const processed = status === 503 || (code && UNPROCESSED_CODES.has(code)) ? "no" : "unknown";
+    return new SalesforceTransientError(path, status, code, message, { processed, body: text });
+  }
+  return new SalesforceValidationError(path, status, code, message, text);
 }
 
 let tokenCache: TokenCache | null = null;
 let refreshing: Promise<TokenCache> | null = null;
+let authStrategy: SalesforceAuthStrategy | null = null;
+
+function getAuthStrategy(): SalesforceAuthStrategy {
+  authStrategy ??= createAuthStrategy(salesforceConfig());
+  return authStrategy;
+}
 
 function nowMs() {
   return Date.now();
@@ -36,26 +159,52 @@ function isValid(cache: TokenCache | null) {
   return !!cache && cache.expiresAt > nowMs();
 }
 
-// Salesforce refresh responses often don't include expires_in.
-// Use a conservative TTL and rely on retry-once on auth failure.
+// Salesforce token responses don't include expires_in.
+// Without introspection, use a conservative TTL and rely on retry-once on auth failure.
 function computeExpiresAtConservative(ttlSeconds = 10 * 60) {
-  return nowMs() + (ttlSeconds - SKEW_SECONDS) * 1000;
+  return nowMs() + (ttlSeconds - salesforceConfig().tokenSkewSeconds) * 1000;
+}
+
+// The token's real expiry from the introspection endpoint, which needs the
+// client secret. Falls back to the conservative TTL if that isn't possible.
+async function tokenExpiresAt(accessToken: string): Promise<number> {
+  const config = salesforceConfig();
+  if (!config.introspectTokens || !config.clientSecret) return computeExpiresAtConservative();
+
+  try {
+    const res = await timedFetch("/services/oauth2/introspect", `${config.loginUrl}/services/oauth2/introspect`, {
+      method: "POST",
+      headers: { "Content-Type": "application/x-www-form-urlencoded", Accept: "application/json" },
+      body: new URLSearchParams({
+        token: accessToken,
+        token_type_hint: "access_token",
+        client_id: config.clientId,
+        client_secret: config.clientSecret,
+      }),
+    });
+    const text = await res.text();
+    if (!res.ok) throw new Error(`introspection failed (${res.status}): ${text}`);
+
+    const data = JSON.parse(text) as IntrospectionResponse;
+    if (!data.active || typeof data.exp !== "number") throw new Error("token reported inactive or without exp");
+    return data.exp * 1000 - config.tokenSkewSeconds * 1000;
+  } catch (err) {
+    log.warn("Salesforce token introspection unavailable — using a conservative TTL", {
+      error: err instanceof Error ? err.message : String(err),
+    });
+    return computeExpiresAtConservative();
+  }
 }
 
 async function refreshAccessToken(): Promise<TokenCache> {
   if (refreshing) return refreshing;
 
   refreshing = (async () => {
-    const url = `${SF_LOGIN_URL}/services/oauth2/token`;
+    const strategy = getAuthStrategy();
+    const url = `${salesforceConfig().loginUrl}/services/oauth2/token`;
+    const body = strategy.tokenRequest();
 
-    const body = new URLSearchParams({
-      grant_type: "refresh_token",
-      client_id: SF_CLIENT_ID,
-      client_secret: SF_CLIENT_SECRET,
-      refresh_token: SF_REFRESH_TOKEN,
-    });
-
-    const res = await fetch(url, {
+    const res = await timedFetch("/services/oauth2/token", url, {
       method: "POST",
       headers: { "Content-Type": "application/x-www-form-urlencoded" },
       body,
@@ -63,7 +212,12 @@ async function refreshAccessToken(): Promise<TokenCache> {
 
     const text = await res.text();
     if (!res.ok) {
-      throw new Error(`Salesforce token refresh failed (${res.status}): ${text}`);
+      log.error("Salesforce token refresh failed", { flow: strategy.flow, status: res.status, body: text });
+      const err = salesforceErrorFor("/services/oauth2/token", res.status, text, "Salesforce token refresh failed");
+      // Any refusal from the token endpoint (invalid_grant…) is a credentials problem
+      throw err instanceof SalesforceValidationError
+        ? new SalesforceAuthError(err.path, err.status, err.errorCode, err.message, err.body)
+        : err;
     }
 
     const data = JSON.parse(text) as SalesforceTokenResponse;
@@ -75,10 +229,15 @@ async function refreshAccessToken(): Promise<TokenCache> {
     const next: TokenCache = {
       accessToken: data.access_token,
       instanceUrl: data.instance_url,
-      expiresAt: computeExpiresAtConservative(),
+      expiresAt: await tokenExpiresAt(data.access_token),
     };
 
     tokenCache = next;
+    log.info("Salesforce access token refreshed", {
+      flow: strategy.flow,
+      instance_url: next.instanceUrl,
+      expires_at: new Date(next.expiresAt),
+    });
     return next;
   })();
 
@@ -94,80 +253,192 @@ async function getAccessToken(): Promise<TokenCache> {
   return refreshAccessToken();
 }
 
+// fetch() with a timeout, and latency and status recorded per path. Timeouts
+// and network failures come back as SalesforceTransientError (status "error").
+// API usage from Sforce-Limit-Info goes to sf-limits.ts.
+async function timedFetch(path: string, url: string, init: RequestInit, timeoutMs = salesforceConfig().requestTimeoutMs): Promise<Response> {
+  const metricPath = sfMetricPath(path);
+  const started = Date.now();
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeoutMs);
+  try {
+    const res = await fetch(url, { ...init, signal: controller.signal });
+    sfRequestsTotal.inc({ path: metricPath, status: String(res.status) });
+    const usage = parseLimitInfo(res.headers.get("Sforce-Limit-Info"));
+    if (usage) sfApiUsage().record(usage);
+    return res;
+  } catch (err) {
+    sfRequestsTotal.inc({ path: metricPath, status: "error" });
+    const message = controller.signal.aborted
+      ? `Salesforce request timed out after ${timeoutMs}ms on ${path}`
+      : `Salesforce request failed on ${path}: ${err instanceof Error ? err.message : String(err)}`;
+    throw new SalesforceTransientError(path, null, null, message, { processed: "unknown" });
+  } finally {
+    clearTimeout(timer);
+    sfRequestDuration.observe({ path: metricPath }, (Date.now() - started) / 1000);
+  }
+}
+
 function isAuthFailure(status: number, bodyText?: string) {
   if (status === 401) return true;
   if (status === 403 && bodyText?.includes("INVALID_SESSION_ID")) return true;
   return false;
 }
 
-type SfRequestOptions = Omit<RequestInit, "headers"> & {
+// ---- Circuit breaker ----
+
+let breaker: CircuitBreaker | null = null;
+
+// Shared by every call in the process. worker.ts pauses the queue while it is open.
+export function salesforceCircuit(): CircuitBreaker {
+  if (!breaker) {
+    const { breakerThreshold, breakerCooldownMs } = salesforceConfig();
+    breaker = new CircuitBreaker("salesforce", {
+      threshold: breakerThreshold || Number.POSITIVE_INFINITY,
+      cooldownMs: breakerCooldownMs,
+    });
+    breaker.onStateChange((state, previous) => log.warn("Salesforce circuit state changed", { state, previous }));
+  }
+  return breaker;
+}
+
+new Gauge("barry_salesforce_circuit_open", "1 while the Salesforce circuit breaker is refusing calls", async () => [
+  { labels: {}, value: breaker && breaker.currentState !== "closed" ? 1 : 0 },
+]);
+
+// ---- Requests ----
+
+type SfRequestOptions = Omit<RequestInit, "headers" | "signal"> & {
   headers?: Record<string, string>;
-  noRetry?: boolean; // internal only
+  timeoutMs?: number; // defaults to SF_TIMEOUT_SECONDS
+  retries?: number; // defaults to SF_MAX_RETRIES
+  // Safe to repeat even if Salesforce may have acted on it. Defaults to true
+  // for GET/HEAD; read-only Apex POSTs pass it explicitly.
+  idempotent?: boolean;
 };
 
+const IDEMPOTENT_METHODS = new Set(["GET", "HEAD"]);
+
 export function sfRestPath(relative: string) {
-  return `/services/data/v${SF_API_VERSION}${relative.startsWith("/") ? "" : "/"}${relative}`;
+  return `/services/data/v${salesforceConfig().apiVersion}${relative.startsWith("/") ? "" : "/"}${relative}`;
 }
 
-async function sfFetch(path: string, options: SfRequestOptions = {}) {
-  const cache = await getAccessToken();
-
-  const url =
-    path.startsWith("http")
-      ? path
-      : `${cache.instanceUrl}${path.startsWith("/") ? "" : "/"}${path}`;
-
-  // Strip wrapper-only props before passing to fetch()
-  const { noRetry, headers: extraHeaders, ...init } = options;
+function resolveUrl(cache: TokenCache, path: string) {
+  return path.startsWith("http") ? path : `${cache.instanceUrl}${path.startsWith("/") ? "" : "/"}${path}`;
+}
 
+// One call, with the existing refresh-and-retry-once on an expired session.
+async function authorizedFetch(path: string, init: RequestInit, extraHeaders: Record<string, string>, timeoutMs?: number) {
+  const cache = await getAccessToken();
   const headers: Record<string, string> = {
     Authorization: `Bearer ${cache.accessToken}`,
     "Content-Type": "application/json",
-    ...(extraHeaders || {}),
+    ...extraHeaders,
   };
 
-  const res = await fetch(url, { ...init, headers });
+  const res = await timedFetch(path, resolveUrl(cache, path), { ...init, headers }, timeoutMs);
 
-  if (!noRetry && (res.status === 401 || res.status === 403)) {
+  if (res.status === 401 || res.status === 403) {
     const bodyText = await res.clone().text().catch(() => "");
     if (isAuthFailure(res.status, bodyText)) {
+      log.warn("Salesforce session rejected — refreshing and retrying once", { status: res.status, path });
       await refreshAccessToken();
 
       const cache2 = await getAccessToken();
-      const url2 =
-        path.startsWith("http")
-          ? path
-          : `${cache2.instanceUrl}${path.startsWith("/") ? "" : "/"}${path}`;
-
-      const headers2: Record<string, string> = {
-        ...headers,
-        Authorization: `Bearer ${cache2.accessToken}`,
-      };
-
-      // Retry once, but do NOT pass noRetry into fetch()
-      const res2 = await fetch(url2, { ...init, headers: headers2 });
-      return res2;
+      return timedFetch(path, resolveUrl(cache2, path), { ...init, headers: { ...headers, Authorization: `Bearer ${cache2.accessToken}` } }, timeoutMs);
     }
   }
 
   return res;
 }
 
-async function sfJson<T>(path: string, options: SfRequestOptions = {}): Promise<T> {
-  const res = await sfFetch(path, options);
-  const text = await res.text();
+// One attempt through the circuit breaker. Resolves only with a 2xx response.
+async function attempt(path: string, init: RequestInit, extraHeaders: Record<string, string>, timeoutMs?: number): Promise<Response> {
+  const circuit = salesforceCircuit();
+  if (!circuit.tryAcquire()) throw new SalesforceCircuitOpenError(path, circuit.retryAfterMs());
+
+  let res: Response;
+  try {
+    res = await authorizedFetch(path, init, extraHeaders, timeoutMs);
+  } catch (err) {
+    if (err instanceof SalesforceTransientError || err instanceof SalesforceRateLimitError) circuit.recordFailure();
+    else circuit.release();
+    throw err;
+  }
 
-  if (!res.ok) {
-    throw new Error(`Salesforce API error (${res.status}) on ${path}: ${text}`);
+  if (res.ok) {
+    circuit.recordSuccess();
+    return res;
   }
 
+  const err = salesforceErrorFor(path, res.status, await res.text());
+  // A 4xx is a healthy org refusing this request; only outages count against the circuit
+  if (err instanceof SalesforceTransientError || err instanceof SalesforceRateLimitError) circuit.recordFailure();
+  else if (err instanceof SalesforceValidationError) circuit.recordSuccess();
+  else circuit.release();
+  throw err;
+}
+
+// Full jitter: anywhere up to base·2^n, capped at 10s.
+function backoffMs(retry: number): number {
+  const ceiling = Math.min(10_000, salesforceConfig().retryBaseMs * 2 ** retry);
+  return Math.round(Math.random() * ceiling);
+}
+
+function sleep(ms: number) {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+// Salesforce call with timeout, retries and typed errors. Non-2xx responses
+// throw (see salesforceErrorFor); the caller reads the body of a 2xx.
+async function sfFetch(path: string, options: SfRequestOptions = {}): Promise<Response> {
+  const { headers: extraHeaders = {}, timeoutMs, retries, idempotent, ...init } = options;
+  const maxRetries = retries ?? salesforceConfig().maxRetries;
+  const repeatable = idempotent ?? IDEMPOTENT_METHODS.has((init.method ?? "GET").toUpperCase());
+
+  for (let retry = 0; ; retry++) {
+    try {
+      return await attempt(path, init, extraHeaders, timeoutMs);
+    } catch (err) {
+      if (!(err instanceof SalesforceError) || !err.isRetryable(repeatable) || retry >= maxRetries) throw err;
+      const delay = backoffMs(retry);
+      log.warn("Salesforce call failed — retrying", {
+        method: init.method ?? "GET", path, error: err.message, retry: retry + 1, max_retries: maxRetries, delay_ms: delay,
+      });
+      await sleep(delay);
+    }
+  }
+}
+
+async function sfJson<T>(path: string, options: SfRequestOptions = {}): Promise<T> {
+  const started = Date.now();
+  let res: Response;
+  try {
+    res = await sfFetch(path, options);
+  } catch (err) {
+    if (err instanceof SalesforceError) {
+      log.warn("Salesforce API error", { method: options.method ?? "GET", path, status: err.status, error_code: err.errorCode, body: err.body });
+    }
+    throw err;
+  }
+  const text = await res.text();
+  log.debug("Salesforce request", { method: options.method ?? "GET", path, status: res.status, sf_ms: Date.now() - started });
+
   if (!text) return {} as T;
   return JSON.parse(text) as T;
 }
 
+// Cheap authenticated call, for checking the org is back (worker.ts, half-open circuit).
+async function ping(): Promise<void> {
+  const res = await sfFetch(sfRestPath("/limits"), { retries: 0 });
+  await res.body?.cancel();
+}
+
 export const salesforce = {
   sfFetch,
   sfJson,
   sfRestPath,
+  getAccessToken,
+  ping,
   forceRefresh: refreshAccessToken,
-};
\ No newline at end of file
+};
@@ -1,49 +1,186 @@
+// send-job.ts — operator CLI: enqueue any job type, and work the dead-letter queue
+//
+//   npm run jobs -- enqueue <job-name> <payload.json | -> [--delay ms] [--attempts n]
+//   npm run jobs -- dlq list [--job create-case] [--limit 20]
+//   npm run jobs -- dlq inspect <id> [--payload]      (--payload prints just the JSON, for editing)
+//   npm run jobs -- dlq edit <id> <payload.json | ->
+//   npm run jobs -- dlq replay <id…> | --all [--job create-case]
+//   npm run jobs -- dlq remove <id>
+//   npm run jobs -- invalidate-validation [--team T] [--channel C] [--user U] [--email E] [--account A] | --all
+//   npm run jobs -- test
+//
+// Payloads are validated against the job's schema before anything is queued.
+// --queue picks another queue than barry-jobs (its DLQ is <queue>-dlq).
 import "dotenv/config";
-import { Queue } from "bullmq";
-import { URL } from "node:url";
+import fs from "node:fs";
+import { intFlag, parseArgs, type ParsedArgs } from "./cli-args";
+import { pool } from "./db";
+import {
+  dlqName,
+  editDeadLetter,
+  getDeadLetter,
+  listDeadLetters,
+  removeDeadLetter,
+  replayDeadLetter,
+} from "./dlq";
+import { getJobHandler, jobNames, parsePayload } from "./jobs";
+import { log } from "./logger";
+import { closeQueues, getQueue } from "./queue";
 
-function requireEnv(name: string): string {
-  const v = process.env[name];
-  if (!v) throw new Error(`Missing ${name} in environment variables`);
-  return v;
+const USAGE =
+  "Usage: ts-node send-job.ts <enqueue <job> <file> | dlq <list | inspect | edit | replay | remove> … | invalidate-validation [--team …] | test> [--queue name]";
+
+// A JSON object from a file, or stdin for "-".
+function readPayload(file: string | undefined): Record<string, unknown> {
+  if (!file) throw new Error("Missing payload file (use - for stdin)");
+  const raw = fs.readFileSync(file === "-" ? 0 : file, "utf8");
+  const payload = JSON.parse(raw) as unknown;
+  if (typeof payload !== "object" || payload === null || Array.isArray(payload)) {
+    throw new Error(`${file} must contain a JSON object`);
+  }
+  return payload as Record<string, unknown>;
+}
+
+// Throws PayloadValidationError with every problem listed.
+function validate(jobName: string, payload: Record<string, unknown>): void {
+  const handler = getJobHandler(jobName);
+  if (!handler) throw new Error(`Unknown job "${jobName}" — known jobs: ${jobNames().join(", ")}`);
+  parsePayload(jobName, handler.schema, payload);
 }
 
-const redisUrl = requireEnv("REDIS_URL");
-const u = new URL(redisUrl);
+async function dlq(queueName: string, { positional, flags, switches }: ParsedArgs) {
+  const [, command, id, file] = positional;
+  const need = (what: string) => {
+    if (!id) throw new Error(`dlq ${command} needs ${what}`);
+    return id;
+  };
+
+  switch (command) {
+    case "list": {
+      const entries = await listDeadLetters(queueName, { jobName: flags.job, limit: intFlag(flags, "limit", 20) });
+      if (!entries.length) log.info("Dead-letter queue is empty", { dlq: dlqName(queueName) });
+      for (const { id, deadLetter: d } of entries) {
+        log.info("Dead letter", {
+          id, job_name: d.job_name, failed_at: d.failed_at, attempts_made: d.attempts_made, max_attempts: d.max_attempts, error: d.error,
+        });
+      }
+      break;
+    }
+
+    case "inspect": {
+      const d = await getDeadLetter(queueName, need("an ID"));
+      // Raw JSON on stdout rather than a log line: redaction would mangle a
+      // payload that is meant to be edited and fed back to `dlq edit`
+      process.stdout.write(`${JSON.stringify(switches.has("payload") ? d.payload : d, null, 2)}\n`);
+      break;
+    }
+
+    case "edit": {
+      const d = await getDeadLetter(queueName, need("an ID"));
+      const payload = readPayload(file);
+      validate(d.job_name, payload);
+      await editDeadLetter(queueName, id, payload);
+      log.info("Dead-letter payload updated", { id });
+      break;
+    }
+
+    case "replay": {
+      const ids = switches.has("all")
+        ? (await listDeadLetters(queueName, { jobName: flags.job, limit: Number.MAX_SAFE_INTEGER })).map((e) => e.id)
+        : positional.slice(2);
+      if (!ids.length) throw new Error("dlq replay needs IDs or --all");
+      for (const dlqId of ids) {
+        const d = await getDeadLetter(queueName, dlqId);
+        validate(d.job_name, d.payload);
+        const jobId = await replayDeadLetter(queueName, dlqId);
+        log.info("Dead letter replayed", { id: dlqId, job_name: d.job_name, job_id: jobId });
+      }
+      break;
+    }
 
-const connection: any = {
-  host: u.hostname,
-  port: u.port ? Number(u.port) : 6379,
-  password: u.password || undefined,
-};
+    case "remove": {
+      await removeDeadLetter(queueName, need("an ID"));
+      log.info("Dead letter removed", { id });
+      break;
+    }
 
-if (u.protocol === "rediss:") {
-  connection.tls = {};
+    default:
+      throw new Error(`Unknown dlq command "${command ?? ""}" — expected list, inspect, edit, replay or remove`);
+  }
 }
 
 async function main() {
-  const queue = new Queue("barry-jobs", { connection });
-
-  const job = await queue.add(
-    "test",
-    {
-      message: "Hello from send-job.ts",
-      when: new Date().toISOString(),
-    },
-    {
-      // sensible defaults for now
-      attempts: 3,
-      backoff: { type: "exponential", delay: 2000 },
-      removeOnComplete: true,
-      removeOnFail: false,
-    }
-  );
-
-  console.log("✅ Enqueued job:", job.id);
-  await queue.close();
+  const args = parseArgs(process.argv.slice(2), ["payload", "all"]);
+  const { positional, flags } = args;
+  const [command] = positional;
+  const queueName = flags.queue ?? "barry-jobs";
+
+  switch (command) {
+    case "enqueue": {
+      const [, jobName, file] = positional;
+      if (!jobName) throw new Error("enqueue needs a job name");
+      const payload = readPayload(file);
+      validate(jobName, payload);
+      const job = await getQueue(queueName).add(jobName, { correlation_id: `cli-${jobName}-${Date.now()}`, ...payload }, {
+        attempts: intFlag(flags, "attempts", 3),
+        delay: intFlag(flags, "delay", 0, 0),
+        backoff: { type: "exponential", delay: 2000 },
+        removeOnComplete: true,
+        removeOnFail: false,
+      });
+      log.info("Job enqueued", { job_name: jobName, job_id: job.id });
+      break;
+    }
+
+    case "dlq":
+      await dlq(queueName, args);
+      break;
+
+    // Goes through the queue like Salesforce's own invalidations, so it is audited
+    case "invalidate-validation": {
+      const payload = {
+        team_id: flags.team,
+        channel_id: flags.channel,
+        user_id: flags.user,
+        email: flags.email,
+        account_id: flags.account,
+        ...(args.switches.has("all") ? { all: true } : {}),
+      };
+      if (Object.values(payload).every((v) => v === undefined)) {
+        throw new Error("invalidate-validation needs --team, --channel, --user, --email, --account or --all");
+      }
+      validate("invalidate-validation", payload);
+      const job = await getQueue(queueName).add("invalidate-validation", { correlation_id: `cli-invalidate-validation-${Date.now()}`, ...payload }, {
+        attempts: 3,
+        backoff: { type: "exponential", delay: 2000 },
+        removeOnComplete: true,
+        removeOnFail: false,
+      });
+      log.info("Job enqueued", { job_name: "invalidate-validation", job_id: job.id });
+      break;
+    }
+
+    case "test": {
+      const job = await getQueue(queueName).add(
+        "test",
+        { message: "Hello from send-job.ts", when: new Date().toISOString() },
+        { attempts: 3, backoff: { type: "exponential", delay: 2000 }, removeOnComplete: true, removeOnFail: false }
+      );
+      log.info("Job enqueued", { job_name: "test", job_id: job.id });
+      break;
+    }
+
+    default:
+      throw new Error(command ? `Unknown command "${command}"\n${USAGE}` : USAGE);
+  }
 }
 
-main().catch((err) => {
-  console.error("❌ Failed to enqueue job:", err?.message || err);
-  process.exit(1);
-});
\ No newline at end of file
+main()
+  .catch((err) => {
+    log.error("Command failed", { error: err });
+    process.exitCode = 1;
+  })
+  .finally(async () => {
+    await closeQueues();
+    await pool.end();
+  });
@@ -0,0 +1,108 @@
+// sf-api-usage.ts — Salesforce API usage in Postgres, and the alerts when it runs high
+//
+// Every worker process sees the same org-wide figures, so samples are written
+// at most once a minute per process and trimmed after 30 days. A threshold
+// crossing is claimed in sf_api_usage_alert before anyone alerts, so one
+// crossing posts once however many workers notice it; the claim is released
+// when usage drops back below the threshold.
+import { pool } from "./db";
+import type { Translator } from "./i18n";
+import { translatorFor } from "./locale-settings";
+import { log } from "./logger";
+import { sfLimitSettings, usagePercent, type ApiUsage, type ApiUsageTracker } from "./sf-limits";
+import { slack } from "./slack";
+
+const SAMPLE_INTERVAL_MS = 60_000;
+const SAMPLE_RETENTION_DAYS = 30;
+
+export type ApiUsageSample = ApiUsage & { recorded_at: Date };
+
+function getErrorMessage(err: unknown): string {
+  if (err instanceof Error) return err.message;
+  return String(err);
+}
+
+// ── sf_api_usage ──────────────────────────────────────────────────────────────
+
+export async function recordUsageSample(usage: ApiUsage): Promise<void> {
+  await pool.query("INSERT INTO sf_api_usage (used, max) VALUES ($1, $2)", [usage.used, usage.max]);
+  await pool.query(`DELETE FROM sf_api_usage WHERE recorded_at < NOW() - make_interval(days => $1)`, [SAMPLE_RETENTION_DAYS]);
+}
+
+// The newest sample, if one was taken within `maxAgeMs`.
+export async function latestUsageSample(maxAgeMs: number): Promise<ApiUsageSample | null> {
+  const { rows } = await pool.query<ApiUsageSample>(
+    `SELECT used, max, recorded_at FROM sf_api_usage
+     WHERE recorded_at > NOW() - make_interval(secs => $1)
+     ORDER BY recorded_at DESC LIMIT 1`,
+    [maxAgeMs / 1000]
+  );
+  return rows[0] ?? null;
+}
+
+// ── sf_api_usage_alert ────────────────────────────────────────────────────────
+
+// True when this call raised the alert; false when it is already raised.
+export async function claimUsageAlert(threshold: number, usage: ApiUsage): Promise<boolean> {
+  const { rowCount } = await pool.query(
+    `INSERT INTO sf_api_usage_alert (threshold, used, max) VALUES ($1, $2, $3)
+     ON CONFLICT (threshold) DO UPDATE SET crossed_at = NOW(), cleared_at = NULL, used = EXCLUDED.used, max = EXCLUDED.max
+     WHERE sf_api_usage_alert.cleared_at IS NOT NULL`,
+    [threshold, usage.used, usage.max]
+  );
+  return (rowCount ?? 0) > 0;
+}
+
+export async function clearUsageAlertsAbove(level: number): Promise<void> {
+  await pool.query("UPDATE sf_api_usage_alert SET cleared_at = NOW() WHERE threshold > $1 AND cleared_at IS NULL", [level]);
+}
+
+// ── Wiring ────────────────────────────────────────────────────────────────────
+
+function alertText(level: number, usage: ApiUsage, t: Translator): string {
+  const { throttlePercent, deferPercent } = sfLimitSettings();
+  const effect =
+    deferPercent && level >= deferPercent
+      ? t.t("sfUsage.deferred")
+      : throttlePercent && level >= throttlePercent
+        ? t.t("sfUsage.slowed")
+        : "";
+  return t.t("sfUsage.alert", {
+    percent: t.number(usagePercent(usage), { minimumFractionDigits: 1, maximumFractionDigits: 1 }),
+    used: usage.used,
+    max: usage.max,
+    effect,
+  });
+}
+
+async function raiseAlert(level: number, usage: ApiUsage): Promise<void> {
+  log.warn("Salesforce API usage crossed a threshold", { threshold: level, used: usage.used, max: usage.max });
+  if (!(await claimUsageAlert(level, usage))) return;
+  const { alertChannel } = sfLimitSettings();
+  if (!alertChannel) return;
+  const t = await translatorFor({ channelId: alertChannel });
+  await slack.postMessage({ channel: alertChannel, text: alertText(level, usage, t) });
+}
+
+// Seeds `tracker` with a recent sample (so a restart near the cap keeps
+// throttling) and keeps Postgres and the alert channel up to date.
+export async function watchApiUsage(tracker: ApiUsageTracker): Promise<void> {
+  try {
+    const seed = await latestUsageSample(SAMPLE_INTERVAL_MS * 10);
+    if (seed && !tracker.latest) tracker.record({ used: seed.used, max: seed.max });
+  } catch (err) {
+    log.warn("Could not load recent Salesforce API usage", { error: getErrorMessage(err) });
+  }
+
+  let lastSampleAt = 0;
+  tracker.onSample((usage) => {
+    if (Date.now() - lastSampleAt < SAMPLE_INTERVAL_MS) return;
+    lastSampleAt = Date.now();
+    recordUsageSample(usage).catch((err) => log.error("Could not record Salesforce API usage", { error: getErrorMessage(err) }));
+  });
+
+  tracker.onLevelChange((level, previous, usage) => {
+    const work = level > previous ? raiseAlert(level, usage) : clearUsageAlertsAbove(level);
+    work.catch((err) => log.error("Could not update Salesforce API usage alerts", { level, error: getErrorMessage(err) }));
+  });
+}
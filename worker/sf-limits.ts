@@ -0,0 +1,138 @@
+// sf-limits.ts — the org's daily API allowance, as reported on every Salesforce response
+//
+// Salesforce sends `Sforce-Limit-Info: api-usage=18/5000` with each REST and
+// Apex REST response: calls used in the rolling 24 hours, and the org's cap.
+// salesforce.ts feeds each header into the tracker below, which keeps the
+// latest reading, reports alert thresholds as usage crosses them, and tells
+// the processor how long to hold back low-priority jobs:
+//
+//   SF_API_ALERT_THRESHOLDS    percentages that warn and alert (default 80,90,95)
+//   SF_API_THROTTLE_PERCENT    low-priority jobs run at most one per
+//                              SF_API_THROTTLE_INTERVAL_SECONDS (default 90%, 30s)
+//   SF_API_DEFER_PERCENT       low-priority jobs wait SF_API_DEFER_MINUTES
+//                              (default 95%, 15 min); ones a user is waiting
+//                              on stay throttled instead
+//
+// A percentage of 0 turns that step off. Case creation and the other
+// customer-facing writes are never held back.
+import { parseConfig } from "./config";
+import { Gauge } from "./metrics";
+
+export type ApiUsage = { used: number; max: number };
+
+export type SfLimitSettings = {
+  alertThresholds: number[]; // ascending percentages
+  throttlePercent: number;
+  throttleIntervalMs: number;
+  deferPercent: number;
+  deferMs: number;
+  alertChannel: string | null;
+};
+
+// Browsing and digests: nobody is blocked if these run a little later.
+export const LOW_PRIORITY_JOBS: ReadonlySet<string> = new Set(["get-cases", "case-digest", "digest-scan", "send-digest"]);
+
+// Low-priority jobs that answer a slash command (/view-cases): spaced out, but
+// never deferred for minutes with the user left waiting.
+export const INTERACTIVE_JOBS: ReadonlySet<string> = new Set(["get-cases"]);
+
+// SF_API_ALERT_CHANNEL is the internal channel for usage alerts; without it they are only logged.
+export function sfLimitSettings(): SfLimitSettings {
+  return parseConfig(["sfLimits"]).sfLimits;
+}
+
+// The `api-usage=used/max` entry; per-app entries (`per-app-api-usage=…`) are ignored.
+export function parseLimitInfo(header: string | null | undefined): ApiUsage | null {
+  if (!header) return null;
+  for (const entry of header.split(",")) {
+    const match = /^\s*api-usage=(\d+)\/(\d+)\s*$/.exec(entry);
+    if (match && Number(match[2]) > 0) return { used: Number(match[1]), max: Number(match[2]) };
+  }
+  return null;
+}
+
+export function usagePercent(usage: ApiUsage): number {
+  return (usage.used / usage.max) * 100;
+}
+
+// level: the highest alert threshold reached (0 below all of them).
+type LevelListener = (level: number, previous: number, usage: ApiUsage) => void;
+type SampleListener = (usage: ApiUsage) => void;
+
+export class ApiUsageTracker {
+  private reading: { usage: ApiUsage; at: number } | null = null;
+  private level = 0;
+  private nextLowPriorityAt = 0;
+  private readonly listeners: LevelListener[] = [];
+  private readonly sampleListeners: SampleListener[] = [];
+
+  constructor(
+    private readonly settings: SfLimitSettings = sfLimitSettings(),
+    private readonly now: () => number = Date.now
+  ) {}
+
+  get latest(): ApiUsage | null {
+    return this.reading?.usage ?? null;
+  }
+
+  get currentLevel(): number {
+    return this.level;
+  }
+
+  onLevelChange(listener: LevelListener): void {
+    this.listeners.push(listener);
+  }
+
+  // Every reading, as it arrives.
+  onSample(listener: SampleListener): void {
+    this.sampleListeners.push(listener);
+  }
+
+  record(usage: ApiUsage): void {
+    this.reading = { usage, at: this.now() };
+    for (const listener of this.sampleListeners) listener(usage);
+    const percent = usagePercent(usage);
+    const level = this.settings.alertThresholds.filter((t) => percent >= t).pop() ?? 0;
+    if (level === this.level) return;
+    const previous = this.level;
+    this.level = level;
+    for (const listener of this.listeners) listener(level, previous, usage);
+  }
+
+  // ms to hold `jobName` back before running it (0: run now). A reading older
+  // than the defer window is ignored, so deferred jobs eventually run and take
+  // a fresh one even if nothing else is calling Salesforce.
+  delayFor(jobName: string): number {
+    if (!LOW_PRIORITY_JOBS.has(jobName) || !this.reading) return 0;
+    const now = this.now();
+    const { deferPercent, deferMs, throttlePercent, throttleIntervalMs } = this.settings;
+    if (now - this.reading.at > deferMs) return 0;
+
+    const percent = usagePercent(this.reading.usage);
+    if (deferPercent && percent >= deferPercent && !INTERACTIVE_JOBS.has(jobName)) return deferMs;
+    if (throttlePercent && percent >= throttlePercent) {
+      if (now >= this.nextLowPriorityAt) {
+        this.nextLowPriorityAt = now + throttleIntervalMs;
+        return 0;
+      }
+      return this.nextLowPriorityAt - now;
+    }
+    return 0;
+  }
+}
+
+let tracker: ApiUsageTracker | null = null;
+
+// Shared by the Salesforce client (which records) and the processor (which asks).
+export function sfApiUsage(): ApiUsageTracker {
+  if (!tracker) tracker = new ApiUsageTracker();
+  return tracker;
+}
+
+new Gauge("barry_salesforce_api_requests_used", "Salesforce API calls used in the last 24 hours, from Sforce-Limit-Info", async () =>
+  tracker?.latest ? [{ labels: {}, value: tracker.latest.used }] : []
+);
+
+new Gauge("barry_salesforce_api_requests_max", "The org's daily Salesforce API allowance, from Sforce-Limit-Info", async () =>
+  tracker?.latest ? [{ labels: {}, value: tracker.latest.max }] : []
+);
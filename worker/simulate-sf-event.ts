@@ -0,0 +1,45 @@
+// simulate-sf-event.ts — enqueue a Salesforce case status change locally
+//
+// Stands in for the inbound Salesforce event until it is wired up:
+//   ts-node simulate-sf-event.ts <caseId> <status> [previousStatus]
+import "dotenv/config";
+import { Queue } from "bullmq";
+import { redisConfig } from "./config";
+import { log } from "./logger";
+
+const connection = redisConfig();
+
+async function main() {
+  const [caseId, status, previousStatus] = process.argv.slice(2);
+  if (!caseId || !status) {
+    log.error("Usage: ts-node simulate-sf-event.ts <caseId> <status> [previousStatus]");
+    process.exit(1);
+  }
+
+  const queue = new Queue("barry-jobs", { connection });
+
+  const job = await queue.add(
+    "case-status-changed",
+    {
+      case_id: caseId,
+      status,
+      previous_status: previousStatus,
+      changed_at: new Date().toISOString(),
+      correlation_id: `sf-event-${caseId}-${Date.now()}`,
+    },
+    {
+      attempts: 3,
+      backoff: { type: "exponential", delay: 2000 },
+      removeOnComplete: true,
+      removeOnFail: false,
+    }
+  );
+
+  log.info("Enqueued case-status-changed", { case_id: caseId, status, job_id: job.id });
+  await queue.close();
+}
+
+main().catch((err) => {
+  log.error("Failed to enqueue event", { error: err });
+  process.exit(1);
+});
@@ -0,0 +1,68 @@
+// sla-breaches.ts — open cases for the SLA scan and the sla_breach table
+import { pool } from "./db";
+import type { DetectedBreach, SlaBreach, SlaCase } from "./sla";
+
+// ── case mirror ───────────────────────────────────────────────────────────────
+
+// Every open Slack-raised case, with whether an agent has commented on it yet.
+// Cases whose status was never mirrored are left out until a status change
+// tells us where they stand.
+export async function openCasesForSla(): Promise<SlaCase[]> {
+  const { rows } = await pool.query<SlaCase>(
+    `SELECT l.case_id, l.case_number, l.channel_id, l.message_ts, l.status, l.status_changed_at, l.priority, l.created_at,
+            EXISTS (SELECT 1 FROM case_comment_link c WHERE c.case_id = l.case_id AND c.origin = 'salesforce') AS agent_replied
+     FROM case_slack_link l
+     WHERE l.status IS NOT NULL AND l.status <> 'Closed'`
+  );
+  return rows;
+}
+
+// ── sla_breach ────────────────────────────────────────────────────────────────
+
+// Returns false when the breach was already recorded by an earlier scan.
+export async function recordBreach(b: DetectedBreach): Promise<boolean> {
+  const { rowCount } = await pool.query(
+    `INSERT INTO sla_breach
+       (case_id, kind, since, case_number, channel_id, message_ts, case_status, priority, target_minutes, breached_at)
+     VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+     ON CONFLICT (case_id, kind, since) DO NOTHING`,
+    [b.case_id, b.kind, b.since, b.case_number, b.channel_id, b.message_ts, b.case_status, b.priority, b.target_minutes, b.breached_at]
+  );
+  return (rowCount ?? 0) > 0;
+}
+
+// Claims every breach still waiting for its alerts. A claim left behind by a
+// crashed scan is taken over after ten minutes.
+export async function claimPendingBreaches(): Promise<SlaBreach[]> {
+  const { rows } = await pool.query<SlaBreach>(
+    `UPDATE sla_breach SET alert_status = 'alerting', claimed_at = NOW()
+     WHERE alert_status = 'pending'
+        OR (alert_status = 'alerting' AND claimed_at < NOW() - INTERVAL '10 minutes')
+     RETURNING *`
+  );
+  return rows;
+}
+
+export async function releaseBreachClaim(b: Pick<SlaBreach, "case_id" | "kind" | "since">): Promise<void> {
+  await pool.query(
+    "UPDATE sla_breach SET alert_status = 'pending' WHERE case_id = $1 AND kind = $2 AND since = $3 AND alert_status = 'alerting'",
+    [b.case_id, b.kind, b.since]
+  );
+}
+
+export async function markBreachNotified(
+  b: Pick<SlaBreach, "case_id" | "kind" | "since">,
+  column: "thread_notified_at" | "alerted_at"
+): Promise<void> {
+  await pool.query(
+    `UPDATE sla_breach SET ${column} = NOW() WHERE case_id = $1 AND kind = $2 AND since = $3`,
+    [b.case_id, b.kind, b.since]
+  );
+}
+
+export async function markBreachAlerted(b: Pick<SlaBreach, "case_id" | "kind" | "since">): Promise<void> {
+  await pool.query(
+    "UPDATE sla_breach SET alert_status = 'alerted' WHERE case_id = $1 AND kind = $2 AND since = $3",
+    [b.case_id, b.kind, b.since]
+  );
+}
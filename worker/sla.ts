@@ -0,0 +1,102 @@
+// sla.ts — SLA targets, breach detection over the case mirror, and the sla_breach table
+//
+// A repeatable `sla-scan` job checks every open case in case_slack_link (the
+// local mirror of each linked account's Slack-raised cases) against two clocks:
+//
+//   first response  — case still New with no agent comment since it was raised
+//   time in status  — case sat in its current status too long
+//
+// Targets are minutes per priority. "Waiting on Client" and "On Hold" stop the
+// status clock — the case is with the customer, not with us. Each breach is
+// one sla_breach row (sla-breaches.ts), so it alerts once however many scans see it.
+import type { CaseLink } from "./case-links";
+import { parseConfig } from "./config";
+import { log } from "./logger";
+import { upsertRepeatableJob } from "./queue";
+
+export type SlaKind = "first_response" | "time_in_status";
+
+export type SlaTargets = Record<string, number>; // priority → minutes
+
+export type SlaSettings = {
+  firstResponse: SlaTargets;
+  timeInStatus: SlaTargets;
+  alertChannel: string | null;
+  scanIntervalMs: number;
+};
+
+export type SlaBreach = {
+  case_id: string;
+  kind: SlaKind;
+  since: Date; // when the breached clock started
+  case_number: string;
+  channel_id: string;
+  message_ts: string;
+  case_status: string;
+  priority: string | null;
+  target_minutes: number;
+  breached_at: Date;
+  alert_status: "pending" | "alerting" | "alerted";
+  claimed_at: Date | null;
+  thread_notified_at: Date | null;
+  alerted_at: Date | null;
+  created_at: Date;
+};
+
+export const PAUSED_STATUSES = ["Waiting on Client", "On Hold"];
+
+// SLA_FIRST_RESPONSE_MINUTES / SLA_TIME_IN_STATUS_MINUTES take "Priority=minutes" lists
+// (default High=60,Medium=240,Low=480 and High=240,Medium=1440,Low=2880);
+// SLA_ALERT_CHANNEL is the internal support channel; SLA_SCAN_INTERVAL_MINUTES
+// (default 5) of 0 turns scans off.
+export function slaSettings(): SlaSettings {
+  return parseConfig(["sla"]).sla;
+}
+
+export async function scheduleSlaScan(queueName: string): Promise<void> {
+  const { scanIntervalMs } = slaSettings();
+  await upsertRepeatableJob(queueName, "sla-scan", scanIntervalMs, "sla-scan");
+  if (scanIntervalMs) log.info("SLA scans scheduled", { every_minutes: scanIntervalMs / 60_000 });
+  else log.info("SLA scans disabled");
+}
+
+// Cases with a priority that has no target fall back to Medium's.
+function targetFor(targets: SlaTargets, priority: string | null): number | undefined {
+  return targets[priority ?? ""] ?? targets.Medium;
+}
+
+export type SlaCase = Pick<
+  CaseLink,
+  "case_id" | "case_number" | "channel_id" | "message_ts" | "status_changed_at" | "priority" | "created_at"
+> & { status: string; agent_replied: boolean }; // openCasesForSla skips unknown statuses
+
+export type DetectedBreach = Pick<
+  SlaBreach,
+  "case_id" | "kind" | "since" | "case_number" | "channel_id" | "message_ts" | "case_status" | "priority" | "target_minutes" | "breached_at"
+>;
+
+export function detectBreaches(c: SlaCase, settings: Pick<SlaSettings, "firstResponse" | "timeInStatus">, now = new Date()): DetectedBreach[] {
+  if (c.status === "Closed") return [];
+  const breaches: DetectedBreach[] = [];
+  const base = {
+    case_id: c.case_id,
+    case_number: c.case_number,
+    channel_id: c.channel_id,
+    message_ts: c.message_ts,
+    case_status: c.status,
+    priority: c.priority,
+  };
+  const check = (kind: SlaKind, since: Date, target: number | undefined) => {
+    if (!target) return;
+    const breachedAt = new Date(since.getTime() + target * 60_000);
+    if (breachedAt <= now) breaches.push({ ...base, kind, since, target_minutes: target, breached_at: breachedAt });
+  };
+
+  if (c.status === "New" && !c.agent_replied) {
+    check("first_response", c.created_at, targetFor(settings.firstResponse, c.priority));
+  }
+  if (!PAUSED_STATUSES.includes(c.status)) {
+    check("time_in_status", c.status_changed_at ?? c.created_at, targetFor(settings.timeInStatus, c.priority));
+  }
+  return breaches;
+}
@@ -0,0 +1,138 @@
+// slack-installations.ts — slack_installation: each workspace's bot token, and the lookup slack.ts calls through
+//
+// The OAuth callback (jobs/slack-oauth-callback.ts) saves one row per
+// workspace; app_uninstalled and tokens_revoked events (jobs/slack-uninstall.ts)
+// clear its token and stamp revoked_at, keeping the row as a record of the
+// install. Jobs that only know a channel (Salesforce-triggered ones) find its
+// workspace through the cases, digests and validations recorded for it.
+//
+// Lookups are cached in-process for a minute, so a job doesn't query Postgres
+// on every Slack call. A revoke clears this process's cache straight away;
+// other workers notice within the minute, and Slack refuses the old token
+// in the meantime.
+import { pool } from "./db";
+import { log } from "./logger";
+import { SlackNotInstalledError, type OAuthV2AccessResponse, type SlackTokenLookup } from "./slack";
+
+const CACHE_TTL_MS = 60_000;
+
+export type SlackInstallation = {
+  team_id: string;
+  team_name: string | null;
+  enterprise_id: string | null;
+  app_id: string;
+  bot_user_id: string;
+  bot_token: string | null; // null once revoked
+  scopes: string[];
+  installed_by: string | null;
+  installed_at: Date;
+  updated_at: Date;
+  revoked_at: Date | null;
+};
+
+type CachedToken = {
+  teamId: string | null;
+  token: string | null;
+  revoked: boolean;
+  expiresAt: number;
+};
+
+const cache = new Map<string, CachedToken>();
+
+// ── slack_installation ────────────────────────────────────────────────────────
+
+// Saves the workspace's token from oauth.v2.access. A reinstall replaces the
+// token and scopes and clears an earlier revocation.
+export async function saveInstallation(access: OAuthV2AccessResponse): Promise<SlackInstallation> {
+  if (!access.team) throw new Error("oauth.v2.access returned no team (org-wide installs are not supported)");
+  const { rows } = await pool.query<SlackInstallation>(
+    `INSERT INTO slack_installation (team_id, team_name, enterprise_id, app_id, bot_user_id, bot_token, scopes, installed_by)
+     VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+     ON CONFLICT (team_id) DO UPDATE SET
+       team_name = EXCLUDED.team_name, enterprise_id = EXCLUDED.enterprise_id, app_id = EXCLUDED.app_id,
+       bot_user_id = EXCLUDED.bot_user_id, bot_token = EXCLUDED.bot_token, scopes = EXCLUDED.scopes,
+       installed_by = EXCLUDED.installed_by, installed_at = NOW(), updated_at = NOW(), revoked_at = NULL
+     RETURNING *`,
+    [
+      access.team.id,
+      access.team.name ?? null,
+      access.enterprise?.id ?? null,
+      access.app_id,
+      access.bot_user_id,
+      access.access_token,
+      access.scope.split(",").map((scope) => scope.trim()).filter(Boolean),
+      access.authed_user?.id ?? null,
+    ]
+  );
+  forgetInstallationTokens();
+  return rows[0];
+}
+
+export async function findInstallation(teamId: string): Promise<SlackInstallation | null> {
+  const { rows } = await pool.query<SlackInstallation>("SELECT * FROM slack_installation WHERE team_id = $1", [teamId]);
+  return rows[0] ?? null;
+}
+
+// Clears the team's bot token. With `botUserIds` (tokens_revoked), only an
+// installation for one of those bot users is revoked. True when a token was cleared.
+export async function revokeInstallation(teamId: string, botUserIds?: string[]): Promise<boolean> {
+  const { rowCount } = await pool.query(
+    `UPDATE slack_installation SET bot_token = NULL, revoked_at = NOW(), updated_at = NOW()
+     WHERE team_id = $1 AND revoked_at IS NULL AND ($2::text[] IS NULL OR bot_user_id = ANY($2))`,
+    [teamId, botUserIds ?? null]
+  );
+  forgetInstallationTokens();
+  return (rowCount ?? 0) > 0;
+}
+
+// ── Token lookup ──────────────────────────────────────────────────────────────
+
+export function forgetInstallationTokens(): void {
+  cache.clear();
+}
+
+async function tokenForTeam(teamId: string): Promise<Omit<CachedToken, "expiresAt">> {
+  const { rows } = await pool.query<{ bot_token: string | null; revoked_at: Date | null }>(
+    "SELECT bot_token, revoked_at FROM slack_installation WHERE team_id = $1",
+    [teamId]
+  );
+  return { teamId, token: rows[0]?.bot_token ?? null, revoked: Boolean(rows[0]?.revoked_at) };
+}
+
+// A channel shared through Slack Connect can belong to several installed
+// workspaces; any that still has a token will do.
+async function tokenForChannel(channel: string): Promise<Omit<CachedToken, "expiresAt">> {
+  const { rows } = await pool.query<{ team_id: string; bot_token: string | null; revoked_at: Date | null }>(
+    `SELECT team_id, bot_token, revoked_at FROM slack_installation
+     WHERE team_id IN (
+       SELECT team_id FROM case_slack_link WHERE channel_id = $1 AND team_id IS NOT NULL
+       UNION SELECT team_id FROM channel_digest WHERE channel_id = $1
+       UNION SELECT team_id FROM validate_user_cache WHERE channel_id = $1
+     )
+     ORDER BY revoked_at IS NULL DESC, updated_at DESC
+     LIMIT 1`,
+    [channel]
+  );
+  const row = rows[0];
+  return { teamId: row?.team_id ?? null, token: row?.bot_token ?? null, revoked: Boolean(row?.revoked_at) };
+}
+
+// The SlackTokenResolver worker.ts registers with slack.ts. Null when the
+// workspace has no installation, so SLACK_BOT_TOKEN is used.
+export async function findInstallationToken(lookup: SlackTokenLookup): Promise<string | null> {
+  const key = lookup.teamId ? `team:${lookup.teamId}` : lookup.channel ? `channel:${lookup.channel}` : null;
+  if (!key) return null;
+
+  let entry = cache.get(key);
+  if (!entry || entry.expiresAt <= Date.now()) {
+    const found = lookup.teamId ? await tokenForTeam(lookup.teamId) : await tokenForChannel(lookup.channel!);
+    entry = { ...found, expiresAt: Date.now() + CACHE_TTL_MS };
+    cache.set(key, entry);
+  }
+
+  if (entry.revoked) {
+    log.warn("Slack call for a workspace that uninstalled the app", { team_id: entry.teamId, method: lookup.method });
+    throw new SlackNotInstalledError(lookup.method, entry.teamId, "app uninstalled");
+  }
+  return entry.token;
+}
@@ -0,0 +1,383 @@
+// slack.ts — Slack Web API client (mirrors salesforce.ts for SF)
+import { AsyncLocalStorage } from "node:async_hooks";
+import { slackConfig } from "./config";
+import { log } from "./logger";
+import { slackErrorsTotal } from "./metrics";
+
+// Used when a 429 arrives without a usable Retry-After header.
+const DEFAULT_RETRY_AFTER_SECONDS = 1;
+
+// ---- Errors ----
+
+// Base class so callers can catch any Slack failure in one place.
+export class SlackError extends Error {
+  readonly method: string;
+
+  constructor(method: string, message: string) {
+    super(message);
+    this.name = "SlackError";
+    this.method = method;
+  }
+}
+
+// HTTP 200 with `ok: false` — e.g. channel_not_found, not_in_channel, invalid_auth.
+export class SlackApiError extends SlackError {
+  readonly code: string;
+  readonly response: SlackResponse;
+
+  constructor(method: string, response: SlackResponse) {
+    super(method, `Slack ${method} failed: ${response.error ?? "unknown_error"}`);
+    this.name = "SlackApiError";
+    this.code = response.error ?? "unknown_error";
+    this.response = response;
+  }
+}
+
+// Non-2xx responses other than 429, including response_url posts.
+export class SlackHttpError extends SlackError {
+  readonly status: number;
+  readonly body: string;
+
+  constructor(method: string, status: number, body: string) {
+    super(method, `Slack ${method} HTTP ${status}: ${body}`);
+    this.name = "SlackHttpError";
+    this.status = status;
+    this.body = body;
+  }
+}
+
+// Still rate limited after SLACK_MAX_RATE_LIMIT_RETRIES waits. Thrown so BullMQ's
+// own backoff takes over instead of the worker sleeping indefinitely.
+export class SlackRateLimitError extends SlackError {
+  readonly retryAfterSeconds: number;
+
+  constructor(method: string, retryAfterSeconds: number) {
+    super(method, `Slack ${method} rate limited (retry after ${retryAfterSeconds}s)`);
+    this.name = "SlackRateLimitError";
+    this.retryAfterSeconds = retryAfterSeconds;
+  }
+}
+
+// No bot token for the workspace: the app was uninstalled there, or was never
+// installed and there is no SLACK_BOT_TOKEN to fall back on.
+export class SlackNotInstalledError extends SlackError {
+  readonly teamId: string | null;
+
+  constructor(method: string, teamId: string | null, detail = "no installation") {
+    super(method, `Slack ${method}: ${detail} for team ${teamId ?? "(unknown)"}`);
+    this.name = "SlackNotInstalledError";
+    this.teamId = teamId;
+  }
+}
+
+// ---- Tokens ----
+//
+// Every workspace has its own bot token. processor.ts runs each job inside
+// withSlackTeam(team_id), and a call picks its token from, in order: an
+// explicit `token`, an explicit `teamId`, the job's team, then the team that
+// owns the `channel` it posts to (Salesforce-triggered jobs carry no team).
+// The resolver registered by worker.ts looks those up in slack_installation
+// (slack-installations.ts); SLACK_BOT_TOKEN covers whatever it doesn't know.
+
+export type SlackTokenLookup = { method: string; teamId?: string; channel?: string };
+
+// A bot token, or null to use SLACK_BOT_TOKEN. Throws SlackNotInstalledError
+// for a team that uninstalled the app, so its calls never fall back.
+export type SlackTokenResolver = (lookup: SlackTokenLookup) => Promise<string | null>;
+
+let tokenResolver: SlackTokenResolver | null = null;
+const slackTeam = new AsyncLocalStorage<string>();
+
+export function setSlackTokenResolver(resolver: SlackTokenResolver | null): void {
+  tokenResolver = resolver;
+}
+
+// Runs `fn` with `teamId` as the team for every Slack call it makes.
+export function withSlackTeam<T>(teamId: string | undefined, fn: () => T): T {
+  return teamId ? slackTeam.run(teamId, fn) : fn();
+}
+
+export function currentSlackTeam(): string | undefined {
+  return slackTeam.getStore();
+}
+
+async function resolveToken(method: string, options: SlackCallOptions, channel?: string): Promise<string> {
+  if (options.token) return options.token;
+  const teamId = options.teamId ?? currentSlackTeam();
+  const token = tokenResolver ? await tokenResolver({ method, teamId, channel }) : null;
+  if (token) return token;
+  const { botToken } = slackConfig();
+  if (!botToken) throw new SlackNotInstalledError(method, teamId ?? null);
+  return botToken;
+}
+
+// ---- Web API ----
+
+export type SlackResponse = {
+  ok: boolean;
+  error?: string;
+  warning?: string;
+  response_metadata?: { messages?: string[]; warnings?: string[] };
+};
+
+export type SlackCallOptions = {
+  token?: string; // skips the lookup below
+  teamId?: string; // defaults to the job's team (withSlackTeam)
+};
+
+function sleep(ms: number) {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+function parseRetryAfter(header: string | null): number {
+  const seconds = Number(header);
+  return Number.isFinite(seconds) && seconds >= 0 ? seconds : DEFAULT_RETRY_AFTER_SECONDS;
+}
+
+async function slackCall<T extends SlackResponse>(
+  method: string,
+  body: Record<string, unknown>,
+  options: SlackCallOptions = {}
+): Promise<T> {
+  const channel = typeof body.channel === "string" ? body.channel : undefined;
+  const token = await resolveToken(method, options, channel);
+  return slackRequest<T>(method, {
+    Authorization: `Bearer ${token}`,
+    "Content-Type": "application/json; charset=utf-8",
+  }, JSON.stringify(body));
+}
+
+// A few read methods (users.info) only take form-encoded arguments.
+async function slackFormCall<T extends SlackResponse>(
+  method: string,
+  params: Record<string, string>,
+  options: SlackCallOptions = {}
+): Promise<T> {
+  const token = await resolveToken(method, options, params.channel);
+  return slackRequest<T>(method, {
+    Authorization: `Bearer ${token}`,
+    "Content-Type": "application/x-www-form-urlencoded",
+  }, new URLSearchParams(params).toString());
+}
+
+async function slackRequest<T extends SlackResponse>(method: string, headers: Record<string, string>, body: string): Promise<T> {
+  const { apiUrl, maxRateLimitRetries } = slackConfig();
+
+  for (let attempt = 0; ; attempt++) {
+    const res = await fetch(`${apiUrl}/${method}`, { method: "POST", headers, body }).catch((err: unknown) => {
+      slackErrorsTotal.inc({ method, error: "network" });
+      throw err;
+    });
+
+    // Tier limits are per method per workspace; Slack tells us how long to wait.
+    if (res.status === 429) {
+      const retryAfter = parseRetryAfter(res.headers.get("retry-after"));
+      await res.body?.cancel();
+      if (attempt >= maxRateLimitRetries) {
+        slackErrorsTotal.inc({ method, error: "ratelimited" });
+        throw new SlackRateLimitError(method, retryAfter);
+      }
+      log.warn("Slack rate limited — retrying", { method, retry_after_s: retryAfter, attempt: attempt + 1, max_retries: maxRateLimitRetries });
+      await sleep(retryAfter * 1000);
+      continue;
+    }
+
+    const text = await res.text();
+    if (!res.ok) {
+      slackErrorsTotal.inc({ method, error: `http_${res.status}` });
+      throw new SlackHttpError(method, res.status, text);
+    }
+
+    const data = JSON.parse(text) as T;
+    if (!data.ok) {
+      slackErrorsTotal.inc({ method, error: data.error ?? "unknown" });
+      throw new SlackApiError(method, data);
+    }
+    return data;
+  }
+}
+
+export type PostMessageArgs = {
+  channel: string;
+  text: string; // notification / fallback text
+  blocks?: unknown[];
+  thread_ts?: string;
+  reply_broadcast?: boolean;
+  unfurl_links?: boolean;
+  unfurl_media?: boolean;
+};
+
+export type PostMessageResponse = SlackResponse & {
+  channel: string;
+  ts: string;
+  message?: Record<string, unknown>;
+};
+
+async function postMessage(args: PostMessageArgs, options?: SlackCallOptions) {
+  return slackCall<PostMessageResponse>("chat.postMessage", args, options);
+}
+
+export type UpdateArgs = {
+  channel: string;
+  ts: string;
+  text?: string;
+  blocks?: unknown[];
+};
+
+export type UpdateResponse = SlackResponse & {
+  channel: string;
+  ts: string;
+  text?: string;
+};
+
+async function update(args: UpdateArgs, options?: SlackCallOptions) {
+  return slackCall<UpdateResponse>("chat.update", args, options);
+}
+
+export type PostEphemeralArgs = {
+  channel: string;
+  user: string;
+  text: string;
+  blocks?: unknown[];
+  thread_ts?: string;
+};
+
+export type PostEphemeralResponse = SlackResponse & { message_ts: string };
+
+async function postEphemeral(args: PostEphemeralArgs, options?: SlackCallOptions) {
+  return slackCall<PostEphemeralResponse>("chat.postEphemeral", args, options);
+}
+
+type ConversationsOpenResponse = SlackResponse & { channel: { id: string } };
+
+// Opens (or reuses) the bot's DM with a user and returns the DM channel ID.
+async function openDm(userId: string, options?: SlackCallOptions): Promise<string> {
+  const data = await slackCall<ConversationsOpenResponse>("conversations.open", { users: userId }, options);
+  return data.channel.id;
+}
+
+export type SlackUser = {
+  id: string;
+  tz?: string; // IANA name, e.g. "Europe/Berlin"
+  locale?: string; // e.g. "de-DE"; only with include_locale
+};
+
+type UsersInfoResponse = SlackResponse & { user: SlackUser };
+
+// Needs the users:read scope.
+async function usersInfo(userId: string, options?: SlackCallOptions): Promise<SlackUser> {
+  const data = await slackFormCall<UsersInfoResponse>("users.info", { user: userId, include_locale: "true" }, options);
+  return data.user;
+}
+
+export type ModalView = {
+  type: "modal";
+  callback_id?: string;
+  title: { type: "plain_text"; text: string }; // max 24 chars
+  close?: { type: "plain_text"; text: string };
+  private_metadata?: string;
+  blocks: unknown[];
+};
+
+export type ViewResponse = SlackResponse & { view: { id: string; hash?: string } };
+
+// trigger_ids expire three seconds after the click, so by the time a queued
+// job runs the edge function has usually opened a placeholder view already;
+// jobs then fill it in with viewsUpdate.
+async function viewsOpen(triggerId: string, view: ModalView, options?: SlackCallOptions) {
+  return slackCall<ViewResponse>("views.open", { trigger_id: triggerId, view }, options);
+}
+
+async function viewsUpdate(viewId: string, view: ModalView, options?: SlackCallOptions) {
+  return slackCall<ViewResponse>("views.update", { view_id: viewId, view }, options);
+}
+
+// Link to a message (e.g. a case announcement) without a chat.getPermalink
+// round trip per message; slack.com redirects to the right workspace.
+export function messageLink(channel: string, ts: string): string {
+  return `https://slack.com/archives/${channel}/p${ts.replace(".", "")}`;
+}
+
+export const slack = {
+  call: slackCall,
+  postMessage,
+  update,
+  postEphemeral,
+  openDm,
+  usersInfo,
+  viewsOpen,
+  viewsUpdate,
+};
+
+// ---- OAuth ----
+
+export type OAuthV2AccessResponse = SlackResponse & {
+  access_token: string; // the workspace's bot token
+  token_type: string;
+  scope: string; // comma-separated
+  bot_user_id: string;
+  app_id: string;
+  team: { id: string; name?: string } | null;
+  enterprise: { id: string; name?: string } | null;
+  is_enterprise_install?: boolean;
+  authed_user?: { id: string };
+};
+
+// Swaps the code from the "Add to Slack" redirect for the installing
+// workspace's bot token. oauth.v2.access takes the app's client credentials
+// (as Basic auth) and a form body, not a bot token and JSON.
+export async function exchangeOAuthCode(code: string, redirectUri?: string): Promise<OAuthV2AccessResponse> {
+  const { clientId, clientSecret } = slackConfig();
+  if (!clientId || !clientSecret) {
+    throw new SlackError("oauth.v2.access", "SLACK_CLIENT_ID and SLACK_CLIENT_SECRET are needed to complete an install");
+  }
+  const form = new URLSearchParams({ code, ...(redirectUri ? { redirect_uri: redirectUri } : {}) });
+  return slackRequest<OAuthV2AccessResponse>("oauth.v2.access", {
+    Authorization: `Basic ${Buffer.from(`${clientId}:${clientSecret}`).toString("base64")}`,
+    "Content-Type": "application/x-www-form-urlencoded",
+  }, form.toString());
+}
+
+// ---- response_url ----
+
+export type SlackResponseUrlBody = {
+  response_type?: "ephemeral" | "in_channel";
+  text?: string;
+  blocks?: unknown[];
+  replace_original?: boolean;
+};
+
+export async function replyToResponseUrl(responseUrl: string, body: SlackResponseUrlBody) {
+  const res = await fetch(responseUrl, {
+    method: "POST",
+    headers: { "Content-Type": "application/json; charset=utf-8" },
+    body: JSON.stringify(body),
+  });
+
+  if (!res.ok) {
+    const t = await res.text();
+    throw new SlackHttpError("response_url", res.status, t);
+  }
+}
+
+// ---- Files ----
+
+// Downloads a file shared in Slack (`url_private_download`). Requires the
+// files:read scope — without it Slack answers 200 with its HTML login page, so
+// an HTML body is treated as a failure rather than saved as the file.
+export async function downloadSlackFile(url: string, options: SlackCallOptions = {}): Promise<Buffer> {
+  const res = await fetch(url, {
+    headers: { Authorization: `Bearer ${await resolveToken("file download", options)}` },
+  });
+
+  if (!res.ok) {
+    const t = await res.text();
+    throw new SlackHttpError("file download", res.status, t);
+  }
+  if ((res.headers.get("content-type") ?? "").startsWith("text/html")) {
+    await res.body?.cancel();
+    throw new SlackHttpError("file download", res.status, "received an HTML page instead of the file (missing files:read scope?)");
+  }
+
+  return Buffer.from(await res.arrayBuffer());
+}
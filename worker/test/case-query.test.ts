@@ -0,0 +1,65 @@
+// test/case-query.test.ts — /view-cases search syntax
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { SFCase } from "../apex";
+import { buildQueryChips, formatCaseQuery, isEmptyQuery, matchesCaseQuery, parseCaseQuery } from "../case-query";
+import { translator } from "../i18n";
+
+const sfCase = (overrides: Partial<SFCase> = {}): SFCase => ({
+  id: "500A", caseNumber: "00001234", subject: "Login page times out",
+  status: "Waiting on Client", priority: "High", type: "Bug", createdDate: "2024-01-01T00:00:00Z",
+  contactId: "003ME",
+  ...overrides,
+});
+
+describe("parseCaseQuery", () => {
+  it("parses mine, field filters, quoted values and free text", () => {
+    assert.deepEqual(parseCaseQuery('mine priority:high status:"waiting on client" type:bug login "time out"'), {
+      mine: true, priority: "high", status: "waiting on client", type: "bug", text: ["login", "time out"],
+    });
+  });
+
+  it("treats unknown keys as free text and ignores empty input", () => {
+    assert.deepEqual(parseCaseQuery("error:500"), { mine: false, text: ["error:500"] });
+    assert.ok(isEmptyQuery(parseCaseQuery(undefined)));
+    assert.ok(isEmptyQuery(parseCaseQuery("   ")));
+  });
+
+  it("round-trips through the canonical form buttons carry", () => {
+    const q = parseCaseQuery('login  Mine  STATUS:"On Hold"');
+    assert.equal(formatCaseQuery(q), 'mine status:"On Hold" login');
+    assert.deepEqual(parseCaseQuery(formatCaseQuery(q)), q);
+  });
+});
+
+describe("matchesCaseQuery", () => {
+  it("matches fields case-insensitively and every free-text term against the subject", () => {
+    assert.ok(matchesCaseQuery(sfCase(), parseCaseQuery('priority:HIGH status:"waiting on client" type:bug login'), "003ME"));
+    assert.ok(!matchesCaseQuery(sfCase(), parseCaseQuery("login billing")));
+    assert.ok(!matchesCaseQuery(sfCase(), parseCaseQuery("priority:low")));
+  });
+
+  it("matches a case number with or without # and leading zeros", () => {
+    assert.ok(matchesCaseQuery(sfCase(), parseCaseQuery("#1234")));
+    assert.ok(matchesCaseQuery(sfCase(), parseCaseQuery("00001234")));
+  });
+
+  it("only matches mine for the caller's contact", () => {
+    const q = parseCaseQuery("mine");
+    assert.ok(matchesCaseQuery(sfCase(), q, "003ME"));
+    assert.ok(!matchesCaseQuery(sfCase(), q, "003OTHER"));
+    assert.ok(!matchesCaseQuery(sfCase(), q));
+  });
+});
+
+describe("buildQueryChips", () => {
+  it("shows one chip per active filter using the canonical status", () => {
+    const chips = buildQueryChips(parseCaseQuery('mine status:"waiting on client" crash'), translator()).map((c) => c.text);
+    assert.deepEqual(chips, ["`👤 Mine`", "`🫵 Status: Waiting on Client`", "`🔍 “crash”`"]);
+  });
+
+  it("names statuses in the reader's language", () => {
+    const chips = buildQueryChips(parseCaseQuery('status:"waiting on client"'), translator("de")).map((c) => c.text);
+    assert.deepEqual(chips, ["`🫵 Status: Wartet auf Kunde`"]);
+  });
+});
@@ -0,0 +1,80 @@
+// test/circuit-breaker.test.ts — state transitions, on a fake clock
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { CircuitBreaker, type CircuitState } from "../circuit-breaker";
+
+function breaker(threshold = 3, cooldownMs = 1000) {
+  const clock = { now: 0 };
+  const cb = new CircuitBreaker("test", { threshold, cooldownMs, now: () => clock.now });
+  const changes: [CircuitState, CircuitState][] = [];
+  cb.onStateChange((state, previous) => changes.push([state, previous]));
+  return { cb, clock, changes };
+}
+
+describe("CircuitBreaker", () => {
+  it("opens after `threshold` consecutive failures", () => {
+    const { cb, changes } = breaker();
+    cb.recordFailure();
+    cb.recordFailure();
+    assert.equal(cb.currentState, "closed");
+    assert.equal(cb.tryAcquire(), true);
+
+    cb.recordFailure();
+    assert.equal(cb.currentState, "open");
+    assert.equal(cb.tryAcquire(), false);
+    assert.deepEqual(changes, [["open", "closed"]]);
+  });
+
+  it("resets the count on success", () => {
+    const { cb } = breaker();
+    cb.recordFailure();
+    cb.recordFailure();
+    cb.recordSuccess();
+    cb.recordFailure();
+    cb.recordFailure();
+    assert.equal(cb.currentState, "closed");
+  });
+
+  it("reports how long until a trial request is allowed", () => {
+    const { cb, clock } = breaker(1, 1000);
+    cb.recordFailure();
+    clock.now = 400;
+    assert.equal(cb.retryAfterMs(), 600);
+  });
+
+  it("lets one trial through after the cooldown and closes on success", () => {
+    const { cb, clock, changes } = breaker(1, 1000);
+    cb.recordFailure();
+    clock.now = 1000;
+
+    assert.equal(cb.currentState, "half_open");
+    assert.equal(cb.tryAcquire(), true);
+    assert.equal(cb.tryAcquire(), false, "only one trial at a time");
+
+    cb.recordSuccess();
+    assert.equal(cb.currentState, "closed");
+    assert.deepEqual(changes, [["open", "closed"], ["half_open", "open"], ["closed", "half_open"]]);
+  });
+
+  it("re-opens when the trial fails", () => {
+    const { cb, clock } = breaker(3, 1000);
+    for (let i = 0; i < 3; i++) cb.recordFailure();
+    clock.now = 1000;
+    assert.equal(cb.tryAcquire(), true);
+
+    cb.recordFailure();
+    assert.equal(cb.currentState, "open");
+    assert.equal(cb.retryAfterMs(), 1000);
+  });
+
+  it("frees the trial slot on release without changing state", () => {
+    const { cb, clock } = breaker(1, 1000);
+    cb.recordFailure();
+    clock.now = 1000;
+    assert.equal(cb.tryAcquire(), true);
+
+    cb.release();
+    assert.equal(cb.currentState, "half_open");
+    assert.equal(cb.tryAcquire(), true);
+  });
+});
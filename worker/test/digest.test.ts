@@ -0,0 +1,68 @@
+// test/digest.test.ts — /case-digest syntax, local-time schedules and digest blocks
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { buildDigestBlocks, nextDigestRun, parseDigestCommand, type DigestCase, type DigestSchedule } from "../digest";
+import { translator } from "../i18n";
+
+const schedule = (overrides: Partial<DigestSchedule> = {}): DigestSchedule => ({
+  frequency: "daily", weekday: null, hour: 9, minute: 0, timezone: "UTC", ...overrides,
+});
+
+describe("parseDigestCommand", () => {
+  it("parses frequency, day, time and timezone in any order", () => {
+    assert.deepEqual(parseDigestCommand("weekly 4:30pm europe/london fri"), {
+      action: "subscribe",
+      schedule: { frequency: "weekly", weekday: 5, hour: 16, minute: 30, timezone: "Europe/London" },
+    });
+    assert.deepEqual(parseDigestCommand("daily"), { action: "subscribe", schedule: schedule() });
+  });
+
+  it("recognises status and unsubscribe, and rejects the rest", () => {
+    assert.deepEqual(parseDigestCommand(""), { action: "status" });
+    assert.deepEqual(parseDigestCommand("OFF"), { action: "unsubscribe" });
+    assert.deepEqual(parseDigestCommand("hourly"), { action: "invalid", error: "unknown_action", word: "hourly" });
+    assert.equal(parseDigestCommand("daily mon").action, "invalid");
+    assert.equal(parseDigestCommand("daily 25:00").action, "invalid");
+    assert.equal(parseDigestCommand("daily Mars/Olympus").action, "invalid");
+  });
+});
+
+describe("nextDigestRun", () => {
+  it("runs later today or tomorrow in the channel's timezone", () => {
+    const s = schedule({ timezone: "America/New_York" }); // 09:00 EST = 14:00 UTC in January
+    assert.equal(nextDigestRun(s, new Date("2024-01-10T13:00:00Z")).toISOString(), "2024-01-10T14:00:00.000Z");
+    assert.equal(nextDigestRun(s, new Date("2024-01-10T14:00:00Z")).toISOString(), "2024-01-11T14:00:00.000Z");
+  });
+
+  it("follows daylight saving changes", () => {
+    const s = schedule({ timezone: "Europe/London" });
+    // Clocks go forward on 31 March 2024: 09:00 is 09:00 UTC before, 08:00 UTC after
+    assert.equal(nextDigestRun(s, new Date("2024-03-30T10:00:00Z")).toISOString(), "2024-03-31T08:00:00.000Z");
+  });
+
+  it("picks the next matching weekday for weekly digests", () => {
+    const s = schedule({ frequency: "weekly", weekday: 1 }); // Monday
+    // Wednesday 10 January 2024 → Monday 15 January
+    assert.equal(nextDigestRun(s, new Date("2024-01-10T12:00:00Z")).toISOString(), "2024-01-15T09:00:00.000Z");
+  });
+});
+
+describe("buildDigestBlocks", () => {
+  const digestCase = (n: number, status: string): DigestCase => ({
+    case_id: `500${n}`, case_number: `0000${n}`, channel_id: "C1", message_ts: `1700000000.00000${n}`,
+    subject: `Case ${n}`, priority: "High", status,
+  });
+
+  it("leads with cases waiting on the client, then groups by status order", () => {
+    const open = [digestCase(1, "Escalated"), digestCase(2, "New"), digestCase(3, "Waiting on Client")];
+    const blocks = buildDigestBlocks(open, [digestCase(4, "Closed")], schedule(), translator()) as any[];
+    const titles = blocks.filter((b) => b.type === "section").map((b) => b.text.text.split("\n")[0]);
+    assert.deepEqual(titles, [
+      "*🫵 Waiting on you — please reply in the thread* (1)",
+      "*👋 New* (1)",
+      "*⬆️ Escalated* (1)",
+      "*🤝 Closed since the last digest* (1)",
+    ]);
+    assert.match(blocks[2].text.text, /<https:\/\/slack\.com\/archives\/C1\/p1700000000000003\|#00003>/);
+  });
+});
@@ -0,0 +1,596 @@
+// test/fakes/salesforce.ts — in-process stand-in for the Salesforce org
+//
+// Implements the OAuth token endpoint (refresh-token and JWT bearer grants) and
+// token introspection, the barry/* Apex REST routes the
+// worker calls and the ContentVersion/ContentDocumentLink inserts used for file
+// uploads, backed by in-memory accounts, contacts, cases and files. Faults
+// (expired sessions, 5xx, malformed bodies) can be queued per path.
+import { createVerify } from "node:crypto";
+import http from "node:http";
+import type { AddressInfo } from "node:net";
+
+export type FakeAccount = {
+  id: string;
+  name: string;
+  entitled: boolean;
+};
+
+export type FakeContact = {
+  id: string;
+  accountId: string;
+  email: string;
+  firstName: string;
+  lastName: string;
+  phone?: string;
+  jobTitle?: string;
+  slackUserId?: string;
+  slackTeamId?: string;
+  approved: boolean;
+  accountAdmin?: boolean;
+};
+
+export type FakeCaseComment = {
+  id: string;
+  body: string;
+  authorName: string;
+  createdDate: string;
+  isPublic: boolean;
+  source?: string;
+};
+
+export type FakeCase = {
+  id: string;
+  caseNumber: string;
+  accountId: string;
+  contactId: string;
+  subject: string;
+  description: string;
+  status: string;
+  priority: string;
+  type: string;
+  channelId: string;
+  createdDate: string;
+  lastModifiedDate?: string;
+  ownerName?: string;
+  slackThreadTs?: string;
+  comments: FakeCaseComment[];
+  csatScore?: number;
+  csatFeedback?: string;
+};
+
+export type FakeContentVersion = {
+  id: string;
+  contentDocumentId: string;
+  title: string;
+  pathOnClient: string;
+  data: Buffer;
+  description?: string;
+};
+
+export type FakeFault =
+  | { kind: "status"; status: number; body?: unknown }
+  | { kind: "invalid-session" }
+  | { kind: "malformed" }
+  | { kind: "hang"; ms: number }; // answer 200 only after `ms`, to trip client timeouts
+
+export type RecordedRequest = {
+  method: string;
+  path: string;
+  authorization?: string;
+  body: unknown;
+};
+
+export const FAKE_CLIENT_ID = "fake-client-id";
+export const FAKE_CLIENT_SECRET = "fake-client-secret";
+export const FAKE_REFRESH_TOKEN = "fake-refresh-token";
+export const FAKE_USERNAME = "integration@barry.test";
+
+const APEX_PREFIX = "/services/apexrest/barry";
+const SOBJECT_PATH = /^\/services\/data\/v[\d.]+\/sobjects\/(\w+)(?:\/(\w+))?$/;
+const LIMITS_PATH = /^\/services\/data\/v[\d.]+\/limits$/;
+
+export class FakeSalesforce {
+  readonly accounts = new Map<string, FakeAccount>();
+  readonly contacts = new Map<string, FakeContact>();
+  readonly cases = new Map<string, FakeCase>();
+  readonly contentVersions = new Map<string, FakeContentVersion>();
+  // ContentDocumentLink rows: document → linked entity (Case)
+  readonly documentLinks: { id: string; contentDocumentId: string; linkedEntityId: string }[] = [];
+  readonly requests: RecordedRequest[] = [];
+  tokenRequests = 0;
+  introspectRequests = 0;
+  // PEM public key that JWT bearer assertions must be signed for (the
+  // connected app's certificate); the grant is refused while unset.
+  jwtPublicKey: string | null = null;
+  // Lifetime introspection reports for issued tokens.
+  tokenTtlSeconds = 7200;
+  // Reported in Sforce-Limit-Info; every authorised API call adds one.
+  apiUsage = { used: 0, max: 100_000 };
+
+  // "<teamId>:<channelId>" → accountId
+  private readonly channelLinks = new Map<string, string>();
+  private readonly validTokens = new Map<string, number>(); // token → exp (epoch seconds)
+  private readonly faults = new Map<string, FakeFault[]>();
+  private seq = 0;
+  private caseSeq = 10000;
+  private server: http.Server | null = null;
+
+  get url(): string {
+    if (!this.server) throw new Error("FakeSalesforce is not listening");
+    const { port } = this.server.address() as AddressInfo;
+    return `http://127.0.0.1:${port}`;
+  }
+
+  async start(): Promise<this> {
+    this.server = http.createServer((req, res) => {
+      this.handle(req, res).catch((err) => {
+        res.writeHead(500, { "Content-Type": "application/json" });
+        res.end(JSON.stringify([{ errorCode: "FAKE_SERVER_ERROR", message: String(err) }]));
+      });
+    });
+    await new Promise<void>((resolve) => this.server!.listen(0, "127.0.0.1", resolve));
+    return this;
+  }
+
+  async stop(): Promise<void> {
+    if (!this.server) return;
+    const server = this.server;
+    this.server = null;
+    server.closeAllConnections();
+    await new Promise<void>((resolve, reject) => server.close((err) => (err ? reject(err) : resolve())));
+  }
+
+  reset(): void {
+    this.accounts.clear();
+    this.contacts.clear();
+    this.cases.clear();
+    this.contentVersions.clear();
+    this.documentLinks.length = 0;
+    this.channelLinks.clear();
+    this.faults.clear();
+    this.requests.length = 0;
+    this.apiUsage = { used: 0, max: 100_000 };
+  }
+
+  // ── Seeding ──────────────────────────────────────────────────────────────
+
+  addAccount(opts: { name?: string; entitled?: boolean } = {}): FakeAccount {
+    const account = { id: this.nextId("001"), name: opts.name ?? "Acme Ltd", entitled: opts.entitled ?? true };
+    this.accounts.set(account.id, account);
+    return account;
+  }
+
+  linkChannel(teamId: string, channelId: string, accountId: string): void {
+    this.channelLinks.set(`${teamId}:${channelId}`, accountId);
+  }
+
+  addContact(accountId: string, email: string, opts: Partial<FakeContact> = {}): FakeContact {
+    const contact: FakeContact = {
+      id: this.nextId("003"),
+      accountId,
+      email,
+      firstName: "Test",
+      lastName: "User",
+      approved: true,
+      ...opts,
+    };
+    this.contacts.set(contact.id, contact);
+    return contact;
+  }
+
+  addCase(accountId: string, contactId: string, opts: Partial<FakeCase> = {}): FakeCase {
+    const c: FakeCase = {
+      id: this.nextId("500"),
+      caseNumber: String(++this.caseSeq).padStart(8, "0"),
+      accountId,
+      contactId,
+      subject: "Seeded case",
+      description: "",
+      status: "New",
+      priority: "Medium",
+      type: "Question",
+      channelId: "",
+      createdDate: new Date().toISOString(),
+      comments: [],
+      ...opts,
+    };
+    this.cases.set(c.id, c);
+    return c;
+  }
+
+  // Change a case's status as an agent would, returning the payload the
+  // status-change event delivers to the `case-status-changed` job.
+  setCaseStatus(caseId: string, status: string, changedAt = new Date()) {
+    const c = this.cases.get(caseId);
+    if (!c) throw new Error(`FakeSalesforce: no case ${caseId}`);
+    const previous = c.status;
+    c.status = status;
+    return {
+      case_id: c.id,
+      case_number: c.caseNumber,
+      status,
+      previous_status: previous,
+      changed_at: changedAt.toISOString(),
+    };
+  }
+
+  // An agent comments on a case in Salesforce. Returns the payload the comment
+  // trigger delivers to the `sf-comment-added` job.
+  addAgentComment(caseId: string, body: string, opts: { authorName?: string; isPublic?: boolean; createdDate?: string } = {}) {
+    const c = this.cases.get(caseId);
+    if (!c) throw new Error(`FakeSalesforce: no case ${caseId}`);
+    const comment = this.pushComment(c, { ...opts, body, authorName: opts.authorName ?? "Alex Agent" });
+    return this.commentEvent(c, comment);
+  }
+
+  commentEvent(c: FakeCase, comment: FakeCaseComment) {
+    return {
+      case_id: c.id,
+      comment_id: comment.id,
+      body: comment.body,
+      author_name: comment.authorName,
+      is_public: comment.isPublic,
+      source: comment.source,
+    };
+  }
+
+  private pushComment(
+    c: FakeCase,
+    opts: { body: string; authorName: string; isPublic?: boolean; source?: string; createdDate?: string }
+  ): FakeCaseComment {
+    const comment: FakeCaseComment = {
+      id: this.nextId("00a"),
+      body: opts.body,
+      authorName: opts.authorName,
+      createdDate: opts.createdDate ?? new Date().toISOString(),
+      isPublic: opts.isPublic ?? true,
+      source: opts.source,
+    };
+    c.comments.push(comment);
+    return comment;
+  }
+
+  // ── Fault injection ──────────────────────────────────────────────────────
+
+  // Queue a fault for the next request to `path` (e.g. "/create-case" or the
+  // full "/services/oauth2/token"). Faults are consumed in order.
+  injectFault(path: string, fault: FakeFault): void {
+    const key = path.startsWith("/services/") ? path : `${APEX_PREFIX}${path}`;
+    const list = this.faults.get(key) ?? [];
+    list.push(fault);
+    this.faults.set(key, list);
+  }
+
+  // Invalidate every issued access token, as if the session timed out.
+  expireSessions(): void {
+    this.validTokens.clear();
+  }
+
+  // Files visible on a Case, as the Files related list would show them.
+  caseFiles(caseId: string): FakeContentVersion[] {
+    const docs = new Set(this.documentLinks.filter((l) => l.linkedEntityId === caseId).map((l) => l.contentDocumentId));
+    return [...this.contentVersions.values()].filter((v) => docs.has(v.contentDocumentId));
+  }
+
+  apexRequests(route: string): RecordedRequest[] {
+    return this.requests.filter((r) => r.path === `${APEX_PREFIX}${route}`);
+  }
+
+  // ── HTTP handling ────────────────────────────────────────────────────────
+
+  private nextId(prefix: string): string {
+    return `${prefix}FAKE${String(++this.seq).padStart(11, "0")}`;
+  }
+
+  private async handle(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    const path = new URL(req.url ?? "/", "http://localhost").pathname;
+    const raw = await readBody(req);
+
+    if (path === "/services/oauth2/token") {
+      this.tokenRequests++;
+      if (this.applyFault(path, res)) return;
+      return this.handleToken(raw, res);
+    }
+
+    if (path === "/services/oauth2/introspect") {
+      this.introspectRequests++;
+      if (this.applyFault(path, res)) return;
+      return this.handleIntrospect(raw, res);
+    }
+
+    let body: unknown = {};
+    try {
+      body = raw ? JSON.parse(raw) : {};
+    } catch {
+      return send(res, 400, [{ errorCode: "JSON_PARSER_ERROR", message: "Malformed JSON body" }]);
+    }
+    this.requests.push({ method: req.method ?? "GET", path, authorization: req.headers.authorization, body });
+
+    const token = (req.headers.authorization ?? "").replace(/^Bearer\s+/i, "");
+    if (!this.validTokens.has(token)) {
+      return send(res, 401, [{ errorCode: "INVALID_SESSION_ID", message: "Session expired or invalid" }]);
+    }
+
+    this.apiUsage.used++;
+    res.setHeader("Sforce-Limit-Info", `api-usage=${this.apiUsage.used}/${this.apiUsage.max}`);
+
+    if (this.applyFault(path, res)) return;
+
+    if (LIMITS_PATH.test(path) && req.method === "GET") {
+      return send(res, 200, { DailyApiRequests: { Max: this.apiUsage.max, Remaining: this.apiUsage.max - this.apiUsage.used } });
+    }
+
+    const sobject = SOBJECT_PATH.exec(path);
+    if (sobject) return this.handleSObject(req.method ?? "GET", sobject[1], sobject[2], (body ?? {}) as Record<string, any>, res);
+
+    if (!path.startsWith(`${APEX_PREFIX}/`) || req.method !== "POST") {
+      return send(res, 404, [{ errorCode: "NOT_FOUND", message: `Could not find a match for URL ${path}` }]);
+    }
+
+    const route = path.slice(APEX_PREFIX.length);
+    const input = (body ?? {}) as Record<string, any>;
+
+    switch (route) {
+      case "/validate-user":
+        return send(res, 200, this.validateUser(input));
+      case "/create-contact":
+        return send(res, 200, this.createContact(input));
+      case "/create-case":
+        return send(res, 200, this.createCase(input));
+      case "/cases":
+        return send(res, 200, this.listCases(input));
+      case "/case-detail":
+        return send(res, 200, this.caseDetail(input));
+      case "/close-case":
+        return send(res, 200, this.updateCase(input.caseId, (c) => { c.status = "Closed"; }));
+      case "/reopen-case": {
+        const c = this.cases.get(input.caseId);
+        if (c && c.status !== "Closed") return send(res, 200, { success: false, error: "Case is not closed" });
+        return send(res, 200, this.updateCase(input.caseId, (c) => { c.status = "Re-opened"; }));
+      }
+      case "/update-case":
+        return send(res, 200, this.updateCase(input.caseId, (c) => {
+          if (input.slackThreadTs) c.slackThreadTs = input.slackThreadTs;
+        }));
+      case "/add-case-comment": {
+        const c = this.cases.get(input.caseId);
+        if (!c) return send(res, 200, { success: false, error: "Case not found" });
+        const comment = this.pushComment(c, { body: input.body, authorName: input.authorName, source: input.source });
+        return send(res, 200, { success: true, commentId: comment.id });
+      }
+      case "/save-csat":
+        return send(res, 200, this.updateCase(input.caseId, (c) => { c.csatScore = input.score; }));
+      case "/save-csat-feedback":
+        return send(res, 200, this.updateCase(input.caseId, (c) => { c.csatFeedback = input.feedback; }));
+      default:
+        return send(res, 404, [{ errorCode: "NOT_FOUND", message: `Could not find a match for URL ${path}` }]);
+    }
+  }
+
+  // Just enough of the sObject REST API for file uploads.
+  private handleSObject(method: string, type: string, id: string | undefined, input: Record<string, any>, res: http.ServerResponse): void {
+    if (type === "ContentVersion" && method === "POST" && !id) {
+      const version: FakeContentVersion = {
+        id: this.nextId("068"),
+        contentDocumentId: this.nextId("069"),
+        title: input.Title,
+        pathOnClient: input.PathOnClient,
+        data: Buffer.from(String(input.VersionData ?? ""), "base64"),
+        description: input.Description,
+      };
+      this.contentVersions.set(version.id, version);
+      return send(res, 201, { id: version.id, success: true, errors: [] });
+    }
+    if (type === "ContentVersion" && method === "GET" && id) {
+      const version = this.contentVersions.get(id);
+      if (!version) return send(res, 404, [{ errorCode: "NOT_FOUND", message: "The requested resource does not exist" }]);
+      return send(res, 200, { attributes: { type: "ContentVersion" }, Id: version.id, ContentDocumentId: version.contentDocumentId });
+    }
+    if (type === "ContentDocumentLink" && method === "POST" && !id) {
+      if (!this.cases.has(input.LinkedEntityId)) {
+        return send(res, 400, [{ errorCode: "INVALID_CROSS_REFERENCE_KEY", message: "invalid cross reference id" }]);
+      }
+      const link = { id: this.nextId("06A"), contentDocumentId: input.ContentDocumentId, linkedEntityId: input.LinkedEntityId };
+      this.documentLinks.push(link);
+      return send(res, 201, { id: link.id, success: true, errors: [] });
+    }
+    return send(res, 404, [{ errorCode: "NOT_FOUND", message: `Could not find a match for ${method} ${type}` }]);
+  }
+
+  private applyFault(path: string, res: http.ServerResponse): boolean {
+    const fault = this.faults.get(path)?.shift();
+    if (!fault) return false;
+
+    switch (fault.kind) {
+      case "status":
+        send(res, fault.status, fault.body ?? [{ errorCode: "SERVER_ERROR", message: "Injected failure" }]);
+        break;
+      case "invalid-session":
+        send(res, 401, [{ errorCode: "INVALID_SESSION_ID", message: "Session expired or invalid" }]);
+        break;
+      case "malformed":
+        res.writeHead(200, { "Content-Type": "application/json" });
+        res.end("{\"success\": tru");
+        break;
+      case "hang":
+        setTimeout(() => send(res, 200, {}), fault.ms).unref();
+        break;
+    }
+    return true;
+  }
+
+  private handleToken(raw: string, res: http.ServerResponse): void {
+    const form = new URLSearchParams(raw);
+    const grant = form.get("grant_type");
+
+    if (grant === "urn:ietf:params:oauth:grant-type:jwt-bearer") {
+      const problem = this.checkAssertion(form.get("assertion") ?? "");
+      if (problem) return send(res, 400, { error: "invalid_grant", error_description: problem });
+    } else if (grant === "refresh_token") {
+      if (form.get("client_id") !== FAKE_CLIENT_ID || form.get("client_secret") !== FAKE_CLIENT_SECRET) {
+        return send(res, 400, { error: "invalid_client_id", error_description: "client identifier invalid" });
+      }
+      if (form.get("refresh_token") !== FAKE_REFRESH_TOKEN) {
+        return send(res, 400, { error: "invalid_grant", error_description: "expired access/refresh token" });
+      }
+    } else {
+      return send(res, 400, { error: "unsupported_grant_type", error_description: "grant type not supported" });
+    }
+
+    const accessToken = `00DFAKE!${this.nextId("tok")}`;
+    this.validTokens.set(accessToken, Math.floor(Date.now() / 1000) + this.tokenTtlSeconds);
+    send(res, 200, {
+      access_token: accessToken,
+      instance_url: this.url,
+      id: `${this.url}/id/00DFAKE/005FAKE`,
+      token_type: "Bearer",
+      issued_at: String(Date.now()),
+      signature: "fake-signature",
+    });
+  }
+
+  // The checks Salesforce makes on a JWT bearer assertion; null when it passes.
+  private checkAssertion(assertion: string): string | null {
+    if (!this.jwtPublicKey) return "JWT bearer flow not configured";
+    const [header, payload, signature] = assertion.split(".");
+    if (!header || !payload || !signature) return "invalid assertion";
+    const valid = createVerify("RSA-SHA256").update(`${header}.${payload}`).verify(this.jwtPublicKey, Buffer.from(signature, "base64url"));
+    if (!valid) return "invalid assertion";
+
+    const claims = JSON.parse(Buffer.from(payload, "base64url").toString("utf8"));
+    if (claims.iss !== FAKE_CLIENT_ID) return "invalid client identifier";
+    if (claims.sub !== FAKE_USERNAME) return "user hasn't approved this consumer";
+    if (claims.aud !== this.url) return "audience is invalid";
+    if (typeof claims.exp !== "number" || claims.exp * 1000 < Date.now()) return "expired authorization code";
+    return null;
+  }
+
+  private handleIntrospect(raw: string, res: http.ServerResponse): void {
+    const form = new URLSearchParams(raw);
+    if (form.get("client_id") !== FAKE_CLIENT_ID || form.get("client_secret") !== FAKE_CLIENT_SECRET) {
+      return send(res, 401, { error: "invalid_client", error_description: "invalid client credentials" });
+    }
+    const exp = this.validTokens.get(form.get("token") ?? "");
+    if (!exp) return send(res, 200, { active: false });
+    send(res, 200, { active: true, client_id: FAKE_CLIENT_ID, token_type: "access_token", exp });
+  }
+
+  private validateUser(input: Record<string, any>) {
+    const accountId = this.channelLinks.get(`${input.slackTeamId}:${input.slackChannelId}`);
+    if (!accountId) return { status: "channel_not_linked" };
+
+    const account = this.accounts.get(accountId);
+    if (!account?.entitled) return { status: "no_entitlement", accountId };
+
+    const contact = [...this.contacts.values()].find(
+      (c) => c.accountId === accountId && c.email.toLowerCase() === String(input.email ?? "").toLowerCase()
+    );
+    if (!contact) return { status: "contact_not_found", accountId };
+    if (!contact.approved) return { status: "pending_approval", accountId, contactId: contact.id };
+    return { status: "approved", accountId, contactId: contact.id, isAccountAdmin: contact.accountAdmin ?? false };
+  }
+
+  private createContact(input: Record<string, any>) {
+    if (!this.accounts.has(input.accountId)) return { success: false, error: "Account not found" };
+    const contact = this.addContact(input.accountId, input.email, {
+      firstName: input.firstName,
+      lastName: input.lastName,
+      phone: input.phone,
+      jobTitle: input.jobTitle,
+      slackUserId: input.slackUserId,
+      slackTeamId: input.slackTeamId,
+      approved: false,
+    });
+    return { success: true, contactId: contact.id };
+  }
+
+  private createCase(input: Record<string, any>) {
+    if (!this.accounts.has(input.accountId)) return { success: false, error: "Account not found" };
+    if (!this.contacts.has(input.contactId)) return { success: false, error: "Contact not found" };
+    const c = this.addCase(input.accountId, input.contactId, {
+      subject: input.subject,
+      description: input.description ?? "",
+      priority: input.priority,
+      type: input.type,
+      channelId: input.channelId,
+    });
+    return { success: true, caseId: c.id, caseNumber: c.caseNumber };
+  }
+
+  private listCases(input: Record<string, any>) {
+    if (!this.accounts.has(input.accountId)) return { success: false, error: "Account not found" };
+    const cases = [...this.cases.values()]
+      .filter((c) => c.accountId === input.accountId)
+      .map((c) => {
+        const contact = this.contacts.get(c.contactId);
+        return {
+          id: c.id,
+          caseNumber: c.caseNumber,
+          subject: c.subject,
+          status: c.status,
+          priority: c.priority,
+          type: c.type,
+          createdDate: c.createdDate,
+          contactId: c.contactId,
+          contactName: contact ? `${contact.firstName} ${contact.lastName}` : undefined,
+        };
+      });
+    return { success: true, cases };
+  }
+
+  private caseDetail(input: Record<string, any>) {
+    const c = this.cases.get(input.caseId);
+    const linkedAccount = this.channelLinks.get(`${input.slackTeamId}:${input.slackChannelId}`);
+    // Mirrors the Apex check: a channel only sees its own account's cases
+    if (!c || (linkedAccount && linkedAccount !== c.accountId)) return { success: false, error: "Case not found" };
+
+    const contact = this.contacts.get(c.contactId);
+    const comments = c.comments
+      .filter((x) => x.isPublic)
+      .sort((a, b) => b.createdDate.localeCompare(a.createdDate));
+    const offset = Number(input.commentOffset ?? 0);
+    const limit = Number(input.commentLimit ?? 10);
+    return {
+      success: true,
+      case: {
+        id: c.id,
+        caseNumber: c.caseNumber,
+        subject: c.subject,
+        description: c.description,
+        status: c.status,
+        priority: c.priority,
+        type: c.type,
+        createdDate: c.createdDate,
+        lastModifiedDate: c.lastModifiedDate ?? c.createdDate,
+        ownerName: c.ownerName,
+        contactId: c.contactId,
+        contactName: contact ? `${contact.firstName} ${contact.lastName}` : undefined,
+      },
+      comments: comments.slice(offset, offset + limit).map((x) => ({
+        id: x.id, body: x.body, authorName: x.authorName, createdDate: x.createdDate,
+      })),
+      totalComments: comments.length,
+    };
+  }
+
+  private updateCase(caseId: string, mutate: (c: FakeCase) => void) {
+    const c = this.cases.get(caseId);
+    if (!c) return { success: false, error: "Case not found" };
+    mutate(c);
+    return { success: true };
+  }
+}
+
+function readBody(req: http.IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    req.on("data", (chunk: Buffer) => chunks.push(chunk));
+    req.on("end", () => resolve(Buffer.concat(chunks).toString("utf8")));
+    req.on("error", reject);
+  });
+}
+
+function send(res: http.ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { "Content-Type": "application/json;charset=UTF-8" });
+  res.end(JSON.stringify(body));
+}
@@ -0,0 +1,63 @@
+// test/health.test.ts — /healthz, /readyz and /metrics over HTTP
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type http from "node:http";
+import type { AddressInfo } from "node:net";
+import { runReadinessChecks, startHealthServer } from "../health";
+import { jobsTotal } from "../metrics";
+
+describe("health server", () => {
+  let server: http.Server;
+  let baseUrl: string;
+  let postgresUp = true;
+
+  before(async () => {
+    server = await startHealthServer({
+      redis: async () => "PONG",
+      postgres: async () => {
+        if (!postgresUp) throw new Error("connection refused");
+      },
+    }, 0);
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  after(() => server.close());
+
+  it("answers liveness without touching dependencies", async () => {
+    const res = await fetch(`${baseUrl}/healthz`);
+    assert.equal(res.status, 200);
+    assert.deepEqual(await res.json(), { status: "ok" });
+  });
+
+  it("reports ready only while every check passes", async () => {
+    const ok = await fetch(`${baseUrl}/readyz`);
+    assert.equal(ok.status, 200);
+
+    postgresUp = false;
+    const down = await fetch(`${baseUrl}/readyz`);
+    const body = (await down.json()) as any;
+    assert.equal(down.status, 503);
+    assert.equal(body.checks.redis.ok, true);
+    assert.deepEqual([body.checks.postgres.ok, body.checks.postgres.error], [false, "connection refused"]);
+    postgresUp = true;
+  });
+
+  it("serves the registry in Prometheus text format", async () => {
+    jobsTotal.inc({ job_name: "create-case", outcome: "completed" });
+    const res = await fetch(`${baseUrl}/metrics`);
+    assert.match(res.headers.get("content-type") ?? "", /^text\/plain; version=0.0.4/);
+    assert.match(await res.text(), /^barry_jobs_total\{job_name="create-case",outcome="completed"\} \d+$/m);
+  });
+
+  it("404s anything else", async () => {
+    assert.equal((await fetch(`${baseUrl}/nope`)).status, 404);
+  });
+});
+
+describe("runReadinessChecks", () => {
+  it("fails a check that hangs past the timeout", async () => {
+    const result = await runReadinessChecks({ slow: () => new Promise(() => undefined) }, 20);
+    assert.equal(result.ready, false);
+    assert.match(result.checks.slow.error!, /timed out after 20ms/);
+  });
+});
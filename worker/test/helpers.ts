@@ -0,0 +1,175 @@
+// test/helpers.ts — wiring between the fakes, Postgres, Redis and the job processor
+//
+// Worker modules read their environment at import time, so everything that
+// touches them is loaded lazily after the `useFake*Env` helpers have run.
+import { Job, Queue, QueueEvents, Worker } from "bullmq";
+import type { Pool } from "pg";
+import { migrateUp } from "../migrator";
+import { attachDeadLetterQueue, dlqName } from "../dlq";
+import { closeQueues, getQueue } from "../queue";
+import { sfApiUsage } from "../sf-limits";
+import { FAKE_CLIENT_ID, FAKE_CLIENT_SECRET, FAKE_REFRESH_TOKEN, FakeSalesforce } from "./fakes/salesforce";
+import { FAKE_BOT_TOKEN, FAKE_SLACK_CLIENT_ID, FAKE_SLACK_CLIENT_SECRET, FakeSlack } from "./fakes/slack";
+
+// Same host/port/password/TLS parsing as worker.ts
+function redisConnection(redisUrl: string) {
+  const parsed = new URL(redisUrl);
+  return {
+    host: parsed.hostname,
+    port: parsed.port ? Number(parsed.port) : 6379,
+    password: parsed.password || undefined,
+    ...(parsed.protocol === "rediss:" ? { tls: {} } : {}),
+    maxRetriesPerRequest: null,
+  };
+}
+
+export type IntegrationEnv = { databaseUrl: string; redisUrl: string };
+
+// Integration tests only run against throwaway services named explicitly, so a
+// developer's .env can never be truncated by `npm test`. For a local Postgres
+// without TLS, append `?sslmode=disable` to TEST_DATABASE_URL.
+export function integrationEnv(): IntegrationEnv | null {
+  const databaseUrl = process.env.TEST_DATABASE_URL;
+  const redisUrl = process.env.TEST_REDIS_URL;
+  if (!databaseUrl || !redisUrl) return null;
+  return { databaseUrl, redisUrl };
+}
+
+export const SKIP_WITHOUT_SERVICES = "set TEST_DATABASE_URL and TEST_REDIS_URL to run";
+
+export function useFakeSalesforceEnv(sf: FakeSalesforce): void {
+  process.env.SF_CLIENT_ID = FAKE_CLIENT_ID;
+  process.env.SF_CLIENT_SECRET = FAKE_CLIENT_SECRET;
+  process.env.SF_REFRESH_TOKEN = FAKE_REFRESH_TOKEN;
+  process.env.SF_LOGIN_URL = sf.url;
+  process.env.SF_RETRY_BASE_MS = "1";
+}
+
+export function useFakeSlackEnv(slack: FakeSlack): void {
+  process.env.SLACK_API_URL = `${slack.url}/api`;
+  process.env.SLACK_BOT_TOKEN = FAKE_BOT_TOKEN;
+  process.env.SLACK_CLIENT_ID = FAKE_SLACK_CLIENT_ID;
+  process.env.SLACK_CLIENT_SECRET = FAKE_SLACK_CLIENT_SECRET;
+}
+
+// Runs real BullMQ jobs through `processJob` on a private queue, with both
+// Salesforce and Slack replaced by local fakes.
+export class Harness {
+  readonly sf = new FakeSalesforce();
+  readonly slack = new FakeSlack();
+  readonly queueName = `barry-jobs-test-${process.pid}`;
+
+  pool!: Pool;
+  private forgetInstallationTokens = () => {};
+  private forgetSlackProfiles = () => {};
+  private queue!: Queue;
+  private worker!: Worker;
+  private events!: QueueEvents;
+
+  static async start(env: IntegrationEnv): Promise<Harness> {
+    const h = new Harness();
+    await h.sf.start();
+    await h.slack.start();
+    useFakeSalesforceEnv(h.sf);
+    process.env.SF_BREAKER_THRESHOLD = "0"; // tests inject outages; keep them from leaking into the next test
+    useFakeSlackEnv(h.slack);
+    process.env.DATABASE_URL = env.databaseUrl;
+    process.env.REDIS_URL = env.redisUrl; // follow-up jobs (queue.ts)
+
+    const { pool } = await import("../db");
+    const { processJob } = await import("../processor");
+    const { setSlackTokenResolver } = await import("../slack");
+    const { findInstallationToken, forgetInstallationTokens } = await import("../slack-installations");
+    setSlackTokenResolver(findInstallationToken);
+    const { forgetSlackProfiles } = await import("../locale-settings");
+    h.forgetInstallationTokens = forgetInstallationTokens;
+    h.forgetSlackProfiles = forgetSlackProfiles;
+    h.pool = pool;
+    await migrateUp(pool);
+
+    const connection = redisConnection(env.redisUrl);
+    h.queue = new Queue(h.queueName, { connection });
+    h.events = new QueueEvents(h.queueName, { connection });
+    h.worker = new Worker(h.queueName, processJob, { connection, concurrency: 1 });
+    attachDeadLetterQueue(h.worker);
+    await Promise.all([h.events.waitUntilReady(), h.worker.waitUntilReady()]);
+    return h;
+  }
+
+  async reset(): Promise<void> {
+    this.sf.reset();
+    this.slack.reset();
+    await this.pool.query("TRUNCATE audit_log, case_slack_link, case_comment_link, case_file_link, csat_survey, sla_breach, channel_digest, slack_user_link, job_step, sf_api_usage, sf_api_usage_alert, validate_user_cache, slack_installation, channel_locale");
+    this.forgetInstallationTokens();
+    this.forgetSlackProfiles();
+    sfApiUsage().record(this.sf.apiUsage); // forget the last test's usage, so nothing is throttled
+  }
+
+  async stop(): Promise<void> {
+    await this.worker?.close();
+    await getQueue(dlqName(this.queueName)).obliterate({ force: true }).catch(() => undefined);
+    await closeQueues();
+    await this.events?.close();
+    await this.queue?.obliterate({ force: true }).catch(() => undefined);
+    await this.queue?.close();
+    await this.pool?.end();
+    await this.sf.stop();
+    await this.slack.stop();
+  }
+
+  // Enqueue a job without waiting for it.
+  async add(name: string, data: Record<string, unknown>): Promise<Job> {
+    return this.queue.add(name, data, { attempts: 1 });
+  }
+
+  // Enqueue a job and wait for it to complete; rejects with the job's error.
+  async run(name: string, data: Record<string, unknown>, opts: { attempts?: number } = {}): Promise<Job> {
+    const job = await this.queue.add(name, data, {
+      attempts: opts.attempts ?? 1,
+      backoff: { type: "fixed", delay: 10 },
+    });
+    await job.waitUntilFinished(this.events, 15_000);
+    return (await Job.fromId(this.queue, job.id!)) ?? job;
+  }
+
+  // Enqueue a job that is expected to fail; resolves with the final job state.
+  async runToFailure(name: string, data: Record<string, unknown>, opts: { attempts?: number } = {}) {
+    const job = await this.queue.add(name, data, {
+      attempts: opts.attempts ?? 1,
+      backoff: { type: "fixed", delay: 10 },
+    });
+    const error = await job.waitUntilFinished(this.events, 15_000).then(
+      () => null,
+      (err: Error) => err
+    );
+    if (!error) throw new Error(`Expected job "${name}" to fail, but it completed`);
+    const final = (await Job.fromId(this.queue, job.id!))!;
+    return { error, attemptsMade: final.attemptsMade };
+  }
+
+  // Poll until `check` returns a truthy value — for follow-up jobs the test didn't enqueue itself.
+  async eventually<T>(check: () => Promise<T | undefined | null | false>, timeoutMs = 10_000): Promise<T> {
+    const deadline = Date.now() + timeoutMs;
+    for (;;) {
+      const value = await check();
+      if (value) return value;
+      if (Date.now() > deadline) throw new Error(`Condition not met within ${timeoutMs}ms`);
+      await new Promise((resolve) => setTimeout(resolve, 50));
+    }
+  }
+
+  async auditStatuses(correlationId: string): Promise<string[]> {
+    const { rows } = await this.pool.query<{ status: string }>(
+      "SELECT status FROM audit_log WHERE correlation_id = $1 ORDER BY id",
+      [correlationId]
+    );
+    return rows.map((r) => r.status);
+  }
+
+  async linkSlackUser(teamId: string, userId: string, email: string): Promise<void> {
+    await this.pool.query(
+      "INSERT INTO slack_user_link (slack_team_id, slack_user_id, email) VALUES ($1, $2, $3)",
+      [teamId, userId, email]
+    );
+  }
+}
@@ -0,0 +1,88 @@
+// test/i18n.test.ts — catalogues, plural forms, per-locale formatting and /case-language syntax
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { parseLocaleCommand, supportedLocale, translator, type Catalogue, type Message } from "../i18n";
+import { de } from "../locales/de";
+import { en } from "../locales/en";
+import { fr } from "../locales/fr";
+
+const placeholders = (message: Message) =>
+  [...new Set((typeof message === "string" ? [message] : Object.values(message)).join(" ").match(/\{\w+\}/g) ?? [])].sort();
+
+describe("catalogues", () => {
+  for (const [name, catalogue] of [["de", de], ["fr", fr]] as [string, Catalogue][]) {
+    it(`${name} uses the same params as English`, () => {
+      for (const [key, message] of Object.entries(catalogue)) {
+        assert.deepEqual(placeholders(message!), placeholders(en[key as keyof typeof en]), key);
+      }
+    });
+  }
+});
+
+describe("translator", () => {
+  it("falls back to English for keys a catalogue leaves out", () => {
+    const t = translator("de");
+    assert.equal(t.t("case.viewDetails"), "Details anzeigen");
+    const saved = de["case.viewDetails"];
+    delete de["case.viewDetails"];
+    try {
+      assert.equal(t.t("case.viewDetails"), "View details");
+    } finally {
+      de["case.viewDetails"] = saved;
+    }
+    assert.equal(t.t("nope" as any), "nope");
+  });
+
+  it("picks plural forms by count, with French treating 0 as singular", () => {
+    const params = { from: 1, to: 1, page: 1, pages: 1 };
+    assert.match(translator().t("cases.showingOpen", { ...params, count: 1 }), /of \*1\* open case ·/);
+    assert.match(translator().t("cases.showingOpen", { ...params, count: 0 }), /of \*0\* open cases ·/);
+    assert.equal(translator("fr").t("files.shareAnotherWay", { count: 0 }), translator("fr").t("files.shareAnotherWay", { count: 1 }));
+  });
+
+  it("formats numbers in params for the locale but leaves Slack tokens alone", () => {
+    assert.match(translator("de").t("digest.more", { count: 1234 }), /1\.234/);
+    assert.equal(translator().t("slack.dateAt"), "{date_short_pretty} at {time}");
+  });
+
+  it("formats dates in the locale and timezone", () => {
+    const at = "2024-03-03T23:30:00Z";
+    assert.equal(translator().date(at), "3 Mar 2024");
+    assert.equal(translator("de").date(at), "3. März 2024");
+    assert.equal(translator("fr", "Europe/Paris").date(at), "4 mars 2024");
+    assert.equal(translator("en", "UTC").dateTime(at), "3 Mar 2024, 23:30 UTC");
+  });
+
+  it("picks minutes, hours or days for durations", () => {
+    const t = translator();
+    assert.deepEqual([t.duration(45), t.duration(150), t.duration(4320)], ["45m", "3h", "3d"]);
+    assert.equal(translator("de").duration(180), "3 Std.");
+  });
+
+  it("names weekdays, languages and file sizes in the locale", () => {
+    assert.equal(translator().weekday(1), "Monday");
+    assert.equal(translator("fr").weekday(0), "dimanche");
+    assert.equal(translator("de").languageName("fr"), "Französisch");
+    assert.equal(translator().fileSize(50 * 1024 * 1024), "50 MB");
+  });
+});
+
+describe("supportedLocale", () => {
+  it("maps Slack and BCP 47 tags to a supported language", () => {
+    assert.deepEqual(["de-DE", "fr_CA", "EN", "es-ES", undefined].map(supportedLocale), ["de", "fr", "en", null, null]);
+  });
+});
+
+describe("parseLocaleCommand", () => {
+  it("reads a language and optional timezone in either order", () => {
+    assert.deepEqual(parseLocaleCommand("europe/berlin DE"), { action: "set", locale: "de", timezone: "Europe/Berlin" });
+    assert.deepEqual(parseLocaleCommand("fr"), { action: "set", locale: "fr", timezone: null });
+  });
+
+  it("shows the setting, clears it or explains what went wrong", () => {
+    assert.deepEqual(parseLocaleCommand(""), { action: "status" });
+    assert.deepEqual(parseLocaleCommand("off"), { action: "clear" });
+    assert.deepEqual(parseLocaleCommand("klingon"), { action: "invalid", word: "klingon" });
+    assert.deepEqual(parseLocaleCommand("Europe/Berlin"), { action: "invalid", word: null });
+  });
+});
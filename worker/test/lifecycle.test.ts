@@ -0,0 +1,80 @@
+// test/lifecycle.test.ts — drain-then-close shutdown
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { createLifecycle, type Drainable } from "../lifecycle";
+
+// A worker whose active jobs finish when `finish()` is called.
+function fakeWorker() {
+  const calls: string[] = [];
+  let finish!: () => void;
+  const active = new Promise<void>((resolve) => (finish = resolve));
+  const worker: Drainable = {
+    async pause() {
+      calls.push("pause");
+      await active;
+    },
+    async close(force = false) {
+      calls.push(force ? "close(force)" : "close");
+    },
+  };
+  return { worker, calls, finish };
+}
+
+describe("createLifecycle", () => {
+  it("waits for running jobs, then closes the worker and connections in order", async () => {
+    const { worker, calls, finish } = fakeWorker();
+    const exits: number[] = [];
+    const lifecycle = createLifecycle({
+      worker,
+      drainTimeoutMs: 5_000,
+      closers: [{ name: "postgres", close: async () => calls.push("postgres") }],
+      exit: (code) => exits.push(code),
+    });
+
+    const done = lifecycle.shutdown("SIGTERM");
+    assert.equal(lifecycle.isShuttingDown(), true);
+    await new Promise((resolve) => setImmediate(resolve));
+    assert.deepEqual(calls, ["pause"]);
+
+    finish();
+    await done;
+    assert.deepEqual(calls, ["pause", "close", "postgres"]);
+    assert.deepEqual(exits, [0]);
+  });
+
+  it("force-closes and exits non-zero when the drain times out", async () => {
+    const { worker, calls } = fakeWorker();
+    const exits: number[] = [];
+    await createLifecycle({ worker, drainTimeoutMs: 20, closers: [], exit: (code) => exits.push(code) }).shutdown("SIGTERM");
+    assert.deepEqual(calls, ["pause", "close(force)"]);
+    assert.deepEqual(exits, [1]);
+  });
+
+  it("stops waiting on a second shutdown request", async () => {
+    const { worker, calls } = fakeWorker();
+    const exits: number[] = [];
+    const lifecycle = createLifecycle({ worker, drainTimeoutMs: 60_000, closers: [], exit: (code) => exits.push(code) });
+    const first = lifecycle.shutdown("SIGTERM");
+    const second = lifecycle.shutdown("SIGINT");
+    assert.equal(first, second);
+    await second;
+    assert.deepEqual(calls, ["pause", "close(force)"]);
+  });
+
+  it("keeps closing after a failing step", async () => {
+    const { worker, calls, finish } = fakeWorker();
+    finish();
+    const exits: number[] = [];
+    await createLifecycle({
+      worker,
+      drainTimeoutMs: 1_000,
+      closers: [
+        { name: "queues", close: async () => { throw new Error("redis gone"); } },
+        { name: "postgres", close: async () => calls.push("postgres") },
+      ],
+      exit: (code) => exits.push(code),
+    }).shutdown("SIGTERM");
+    assert.deepEqual(calls, ["pause", "close", "postgres"]);
+    assert.deepEqual(exits, [1]);
+  });
+});
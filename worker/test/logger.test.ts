@@ -0,0 +1,67 @@
+// test/logger.test.ts — JSON log lines, job context and redaction
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { formatLine, redact, withLogContext } from "../logger";
+
+describe("redact", () => {
+  it("masks emails anywhere and phone numbers and names by key", () => {
+    const out = redact({
+      email: "jane.doe@acme.test",
+      phone: "+44 20 7946 0958",
+      first_name: "Jane",
+      error: "No contact for jane.doe@acme.test",
+    });
+    assert.deepEqual(out, {
+      email: "j***@acme.test",
+      phone: "***0958",
+      first_name: "J***",
+      error: "No contact for j***@acme.test",
+    });
+  });
+
+  it("removes response_url, tokens and webhook URLs in free text", () => {
+    const out = redact({
+      payload: { response_url: "https://hooks.slack.com/commands/T1/2/abc", access_token: "00D!xyz" },
+      note: "see https://hooks.slack.com/actions/T1/2/def for details",
+    });
+    assert.deepEqual(out, {
+      payload: { response_url: "[redacted]", access_token: "[redacted]" },
+      note: "see [redacted] for details",
+    });
+  });
+
+  it("truncates long free text and keeps IDs and numbers as they are", () => {
+    const out = redact({ description: "x".repeat(50), case_id: "5001234567", message_ts: "1712345678.123456", rating: 4 }, 20);
+    assert.deepEqual(out, { description: `${"x".repeat(20)}…(+30 chars)`, case_id: "5001234567", message_ts: "1712345678.123456", rating: 4 });
+  });
+
+  it("flattens errors and dates", () => {
+    const out = redact({ error: new Error("boom for a@b.co"), at: new Date("2024-01-01T00:00:00Z") });
+    assert.equal((out.error as any).message, "boom for a***@b.co");
+    assert.equal(out.at, "2024-01-01T00:00:00.000Z");
+  });
+});
+
+describe("formatLine", () => {
+  it("adds the job context and its duration to every line", () => {
+    const line = withLogContext(
+      { job_id: "42", job_name: "create-case", correlation_id: "corr-1", attempt: 2, startedAt: 1_000 },
+      () => JSON.parse(formatLine("info", "Job completed", { case_id: "500A" }, 1_250))
+    );
+    assert.deepEqual(line, {
+      time: new Date(1_250).toISOString(),
+      level: "info",
+      msg: "Job completed",
+      job_id: "42",
+      job_name: "create-case",
+      correlation_id: "corr-1",
+      attempt: 2,
+      duration_ms: 250,
+      case_id: "500A",
+    });
+  });
+
+  it("writes plain lines outside a job", () => {
+    assert.deepEqual(Object.keys(JSON.parse(formatLine("warn", "Worker error"))), ["time", "level", "msg"]);
+  });
+});
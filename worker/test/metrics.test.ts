@@ -0,0 +1,53 @@
+// test/metrics.test.ts — Prometheus rendering and Salesforce path normalisation
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { Counter, Gauge, Histogram, renderMetrics, sfMetricPath } from "../metrics";
+
+describe("renderMetrics", () => {
+  it("renders counters by label and histograms with cumulative buckets", async () => {
+    const counter = new Counter("test_calls_total", "Calls", ["method", "outcome"]);
+    counter.inc({ method: "a", outcome: "ok" });
+    counter.inc({ method: "a", outcome: "ok" }, 2);
+    counter.inc({ method: "b", outcome: 'say "hi"' });
+    const histogram = new Histogram("test_latency_seconds", "Latency", ["path"], [0.1, 1]);
+    histogram.observe({ path: "/x" }, 0.05);
+    histogram.observe({ path: "/x" }, 0.5);
+    histogram.observe({ path: "/x" }, 5);
+
+    const text = await renderMetrics();
+    assert.match(text, /# TYPE test_calls_total counter\n/);
+    assert.match(text, /^test_calls_total\{method="a",outcome="ok"\} 3$/m);
+    assert.match(text, /^test_calls_total\{method="b",outcome="say \\"hi\\""\} 1$/m);
+    assert.match(text, /^test_latency_seconds_bucket\{path="\/x",le="0.1"\} 1$/m);
+    assert.match(text, /^test_latency_seconds_bucket\{path="\/x",le="1"\} 2$/m);
+    assert.match(text, /^test_latency_seconds_bucket\{path="\/x",le="\+Inf"\} 3$/m);
+    assert.match(text, /^test_latency_seconds_sum\{path="\/x"\} 5.55$/m);
+    assert.match(text, /^test_latency_seconds_count\{path="\/x"\} 3$/m);
+  });
+
+  it("reads gauges at scrape time and skips them when collection fails", async () => {
+    let depth = 4;
+    new Gauge("test_depth", "Depth", async () => [{ labels: { state: "waiting" }, value: depth }]);
+    new Gauge("test_broken", "Broken", async () => {
+      throw new Error("redis down");
+    });
+    depth = 7;
+    const text = await renderMetrics();
+    assert.match(text, /^test_depth\{state="waiting"\} 7$/m);
+    assert.doesNotMatch(text, /test_broken/);
+  });
+
+  it("refuses to register a metric name twice", () => {
+    new Counter("test_once_total", "Once");
+    assert.throws(() => new Counter("test_once_total", "Once"), /already registered/);
+  });
+});
+
+describe("sfMetricPath", () => {
+  it("keeps Apex paths and drops record IDs from REST paths", () => {
+    assert.equal(sfMetricPath("/services/apexrest/barry/create-case"), "/barry/create-case");
+    assert.equal(sfMetricPath("/services/data/v60.0/sobjects/ContentVersion/068000000000001"), "/sobjects/ContentVersion");
+    assert.equal(sfMetricPath("/services/data/v60.0/query?q=SELECT+Id"), "/query");
+    assert.equal(sfMetricPath("https://login.example.com/services/oauth2/token"), "/services/oauth2/token");
+  });
+});
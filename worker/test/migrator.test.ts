@@ -0,0 +1,160 @@
+// test/migrator.test.ts — versioned migrations against a scratch Postgres schema
+import { after, before, beforeEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { Pool } from "pg";
+import { loadMigrations, migrateDown, migrateUp, migrationStatus } from "../migrator";
+
+const databaseUrl = process.env.TEST_DATABASE_URL;
+const SCHEMA = `barry_migrator_test_${process.pid}`;
+
+describe("loadMigrations", () => {
+  it("loads the repo migrations in version order", () => {
+    const versions = loadMigrations().map((m) => `${m.version}_${m.name}`);
+    assert.deepEqual(versions.slice(0, 2), ["0001_baseline", "0002_job_step"]);
+    assert.deepEqual(versions, [...versions].sort());
+  });
+
+  it("rejects two files with the same version", () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "barry-migrations-"));
+    const body = 'module.exports = { default: { up: "SELECT 1", down: "SELECT 1" } };';
+    fs.writeFileSync(path.join(dir, "0001_one.js"), body);
+    fs.writeFileSync(path.join(dir, "0001_two.js"), body);
+    try {
+      assert.throws(() => loadMigrations(dir), /Duplicate migration version 0001/);
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe("migrator", { skip: databaseUrl ? false : "set TEST_DATABASE_URL to run" }, () => {
+  let admin: Pool;
+  let pool: Pool;
+
+  before(async () => {
+    admin = new Pool({ connectionString: databaseUrl });
+    pool = new Pool({ connectionString: databaseUrl, options: `-c search_path=${SCHEMA}` });
+  });
+
+  after(async () => {
+    await admin.query(`DROP SCHEMA IF EXISTS ${SCHEMA} CASCADE`);
+    await pool.end();
+    await admin.end();
+  });
+
+  beforeEach(async () => {
+    await admin.query(`DROP SCHEMA IF EXISTS ${SCHEMA} CASCADE`);
+    await admin.query(`CREATE SCHEMA ${SCHEMA}`);
+  });
+
+  const tables = async () => {
+    const { rows } = await admin.query<{ table_name: string }>(
+      "SELECT table_name FROM information_schema.tables WHERE table_schema = $1 ORDER BY table_name",
+      [SCHEMA]
+    );
+    return rows.map((r) => r.table_name);
+  };
+
+  it("applies every migration once and records it", async () => {
+    const first = await migrateUp(pool);
+    const second = await migrateUp(pool);
+
+    assert.equal(first.length, loadMigrations().length);
+    assert.equal(second.length, 0);
+    for (const t of ["audit_log", "case_slack_link", "slack_user_link", "job_step", "schema_migrations"]) {
+      assert.ok((await tables()).includes(t), `${t} exists`);
+    }
+  });
+
+  it("adopts tables created before migrations existed", async () => {
+    await pool.query("CREATE TABLE audit_log (id bigserial PRIMARY KEY, created_at timestamptz NOT NULL DEFAULT now(), source text NOT NULL, action text NOT NULL, status text NOT NULL, correlation_id text, payload jsonb)");
+    await pool.query("INSERT INTO audit_log (source, action, status) VALUES ('queue', 'test', 'completed')");
+
+    await migrateUp(pool);
+
+    const { rows } = await pool.query("SELECT count(*)::int AS n FROM audit_log");
+    assert.equal(rows[0].n, 1);
+  });
+
+  it("serialises concurrent runs", async () => {
+    const [a, b] = await Promise.all([migrateUp(pool), migrateUp(pool)]);
+
+    assert.equal(a.length + b.length, loadMigrations().length);
+    const { rows } = await pool.query("SELECT count(*)::int AS n FROM schema_migrations");
+    assert.equal(rows[0].n, loadMigrations().length);
+  });
+
+  it("rolls back the newest migration with down", async () => {
+    await migrateUp(pool);
+    const latest = loadMigrations().pop()!;
+
+    const rolledBack = await migrateDown(pool, 1);
+
+    assert.deepEqual(rolledBack.map((m) => m.version), [latest.version]);
+    const status = await migrationStatus(pool);
+    assert.equal(status.find((s) => s.version === latest.version)?.state, "pending");
+  });
+
+  it("leaves the schema untouched when a migration fails", async () => {
+    // Only migrations sharing the failing one's transaction are rolled back
+    const migrations = loadMigrations();
+    const transactional = migrations.slice(0, migrations.findIndex((m) => m.transaction === false));
+    const broken = [...transactional, { version: "9999", name: "broken", up: "SELECT * FROM no_such_table", down: "", checksum: "x" }];
+
+    await assert.rejects(migrateUp(pool, broken), /no_such_table/);
+
+    assert.deepEqual(await tables(), []);
+  });
+
+  it("runs non-transactional migrations a statement at a time", async () => {
+    const concurrent = {
+      version: "9999", name: "concurrent", checksum: "x", transaction: false as const,
+      up: "CREATE INDEX CONCURRENTLY a_idx ON audit_log (action);\n CREATE INDEX CONCURRENTLY b_idx ON audit_log (status);",
+      down: "DROP INDEX CONCURRENTLY a_idx;\n DROP INDEX CONCURRENTLY b_idx;",
+    };
+    const indexes = async () =>
+      (await admin.query("SELECT indexname FROM pg_indexes WHERE schemaname = $1 AND indexname IN ('a_idx', 'b_idx')", [SCHEMA])).rowCount;
+
+    const applied = await migrateUp(pool, [...loadMigrations(), concurrent]);
+    assert.equal(applied.length, loadMigrations().length + 1);
+    assert.equal(await indexes(), 2);
+
+    await migrateDown(pool, 1, [...loadMigrations(), concurrent]);
+    assert.equal(await indexes(), 0);
+  });
+
+  it("clears the status 0003 made up for links that already existed", async () => {
+    const migrations = loadMigrations();
+    await migrateUp(pool, migrations.filter((m) => m.version < "0015"));
+    const link = (id: string, age: string) =>
+      pool.query(
+        `INSERT INTO case_slack_link (case_id, case_number, channel_id, message_ts, created_at)
+         VALUES ($1, $1, 'C1', '1.2', NOW() - $2::interval)`,
+        [id, age]
+      );
+    await link("old", "1 day");
+    await link("new", "0 seconds");
+
+    await migrateUp(pool, migrations);
+
+    const { rows } = await pool.query("SELECT case_id, status FROM case_slack_link ORDER BY case_id");
+    assert.deepEqual(rows, [{ case_id: "new", status: "New" }, { case_id: "old", status: null }]);
+  });
+
+  it("reports pending, applied, modified and missing migrations", async () => {
+    const migrations = loadMigrations();
+    await migrateUp(pool, migrations.slice(0, 1));
+    await pool.query("INSERT INTO schema_migrations (version, name, checksum) VALUES ('0000', 'gone', 'abc')");
+    await pool.query("UPDATE schema_migrations SET checksum = 'edited' WHERE version = '0001'");
+
+    const status = await migrationStatus(pool, migrations);
+
+    assert.deepEqual(
+      status.slice(0, 3).map((s) => [s.version, s.state]),
+      [["0000", "missing"], ["0001", "modified"], ["0002", "pending"]]
+    );
+  });
+});
@@ -0,0 +1,87 @@
+// test/salesforce-auth.test.ts — JWT bearer flow and token introspection against the fake org
+import { after, before, beforeEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { createVerify, generateKeyPairSync } from "node:crypto";
+import { FAKE_CLIENT_ID, FAKE_CLIENT_SECRET, FAKE_USERNAME, FakeSalesforce } from "./fakes/salesforce";
+import { signJwtAssertion } from "../salesforce-auth";
+
+const keyPair = () =>
+  generateKeyPairSync("rsa", {
+    modulusLength: 2048,
+    publicKeyEncoding: { type: "spki", format: "pem" },
+    privateKeyEncoding: { type: "pkcs8", format: "pem" },
+  });
+
+describe("signJwtAssertion", () => {
+  it("signs the claims with RS256 and a three-minute expiry", () => {
+    const { publicKey, privateKey } = keyPair();
+    const now = new Date("2024-01-01T00:00:00Z");
+    const jwt = signJwtAssertion({ iss: "client", sub: "user@example.com", aud: "https://login.salesforce.com" }, privateKey, now);
+
+    const [header, payload, signature] = jwt.split(".");
+    assert.deepEqual(JSON.parse(Buffer.from(header, "base64url").toString()), { alg: "RS256", typ: "JWT" });
+    assert.deepEqual(JSON.parse(Buffer.from(payload, "base64url").toString()), {
+      iss: "client", sub: "user@example.com", aud: "https://login.salesforce.com", exp: now.getTime() / 1000 + 180,
+    });
+    assert.ok(createVerify("RSA-SHA256").update(`${header}.${payload}`).verify(publicKey, Buffer.from(signature, "base64url")));
+  });
+});
+
+describe("salesforce client with the JWT bearer flow", () => {
+  const sf = new FakeSalesforce();
+  const keys = keyPair();
+  let salesforce: typeof import("../salesforce").salesforce;
+
+  before(async () => {
+    await sf.start();
+    sf.jwtPublicKey = keys.publicKey;
+    Object.assign(process.env, {
+      SF_AUTH_FLOW: "jwt_bearer",
+      SF_CLIENT_ID: FAKE_CLIENT_ID,
+      SF_CLIENT_SECRET: FAKE_CLIENT_SECRET, // only for introspection
+      SF_USERNAME: FAKE_USERNAME,
+      SF_JWT_PRIVATE_KEY: keys.privateKey.replace(/\n/g, "\\n"), // as it would sit in a one-line env file
+      SF_LOGIN_URL: sf.url,
+    });
+    delete process.env.SF_REFRESH_TOKEN;
+    ({ salesforce } = await import("../salesforce"));
+  });
+
+  after(() => sf.stop());
+
+  beforeEach(() => {
+    sf.reset();
+    sf.jwtPublicKey = keys.publicKey;
+  });
+
+  it("gets a token with a signed assertion and calls Apex with it", async () => {
+    const account = sf.addAccount();
+    const res = await salesforce.sfJson<{ success: boolean }>("/services/apexrest/barry/cases", {
+      method: "POST",
+      body: JSON.stringify({ accountId: account.id }),
+    });
+    assert.equal(res.success, true);
+  });
+
+  it("takes the token lifetime from introspection", async () => {
+    sf.tokenTtlSeconds = 3600;
+    const before = sf.introspectRequests;
+    const token = await salesforce.forceRefresh();
+    assert.equal(sf.introspectRequests - before, 1);
+    // exp minus the 60s skew, give or take the second exp is rounded to
+    const expected = Date.now() + (3600 - 60) * 1000;
+    assert.ok(Math.abs(token.expiresAt - expected) < 2_000, `expiresAt ${token.expiresAt} vs ${expected}`);
+  });
+
+  it("falls back to the conservative TTL when introspection fails", async () => {
+    sf.injectFault("/services/oauth2/introspect", { kind: "status", status: 503 });
+    const token = await salesforce.forceRefresh();
+    const expected = Date.now() + (600 - 60) * 1000;
+    assert.ok(Math.abs(token.expiresAt - expected) < 2_000);
+  });
+
+  it("surfaces a rejected assertion", async () => {
+    sf.jwtPublicKey = keyPair().publicKey;
+    await assert.rejects(salesforce.forceRefresh(), /Salesforce token refresh failed \(400\).*invalid assertion/);
+  });
+});
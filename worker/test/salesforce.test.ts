@@ -0,0 +1,193 @@
+// test/salesforce.test.ts — salesforce.ts client against the fake org
+import { after, before, beforeEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { FakeSalesforce } from "./fakes/salesforce";
+import { useFakeSalesforceEnv } from "./helpers";
+
+describe("salesforce client", () => {
+  const sf = new FakeSalesforce();
+  let sfModule: typeof import("../salesforce");
+  let salesforce: typeof import("../salesforce").salesforce;
+
+  before(async () => {
+    await sf.start();
+    useFakeSalesforceEnv(sf);
+    process.env.SF_BREAKER_THRESHOLD = "3";
+    sfModule = await import("../salesforce");
+    ({ salesforce } = sfModule);
+  });
+
+  after(() => sf.stop());
+
+  beforeEach(() => {
+    sf.reset();
+    sf.addAccount();
+    sfModule.salesforceCircuit().recordSuccess();
+  });
+
+  const listCases = (accountId: string, options: { idempotent?: boolean; timeoutMs?: number; retries?: number } = {}) =>
+    salesforce.sfJson<{ success: boolean; cases?: unknown[] }>("/services/apexrest/barry/cases", {
+      method: "POST",
+      body: JSON.stringify({ accountId }),
+      ...options,
+    });
+
+  it("fetches a token once and reuses it", async () => {
+    const [account] = sf.accounts.values();
+    const before = sf.tokenRequests;
+
+    await listCases(account.id);
+    await listCases(account.id);
+
+    assert.ok(sf.tokenRequests - before <= 1);
+    assert.equal(sf.apexRequests("/cases").length, 2);
+  });
+
+  it("refreshes and retries once when the session has expired", async () => {
+    const [account] = sf.accounts.values();
+    await listCases(account.id);
+    sf.expireSessions();
+    const before = sf.tokenRequests;
+
+    const res = await listCases(account.id);
+
+    assert.equal(res.success, true);
+    assert.equal(sf.tokenRequests - before, 1);
+    // initial call, the rejected call, and its retry
+    assert.equal(sf.apexRequests("/cases").length, 3);
+  });
+
+  it("retries on an injected INVALID_SESSION_ID", async () => {
+    const [account] = sf.accounts.values();
+    sf.injectFault("/cases", { kind: "invalid-session" });
+
+    const res = await listCases(account.id);
+
+    assert.equal(res.success, true);
+  });
+
+  it("retries a 503 with backoff and succeeds", async () => {
+    const [account] = sf.accounts.values();
+    sf.injectFault("/cases", { kind: "status", status: 503 });
+    sf.injectFault("/cases", { kind: "status", status: 503 });
+
+    const res = await listCases(account.id);
+
+    assert.equal(res.success, true);
+    assert.equal(sf.apexRequests("/cases").length, 3);
+  });
+
+  it("throws a transient error with the status and body once retries run out", async () => {
+    const [account] = sf.accounts.values();
+    for (let i = 0; i < 3; i++) sf.injectFault("/cases", { kind: "status", status: 503, body: [{ errorCode: "SERVER_UNAVAILABLE" }] });
+
+    await assert.rejects(listCases(account.id), (err) => {
+      assert.ok(err instanceof sfModule.SalesforceTransientError);
+      assert.equal(err.status, 503);
+      assert.equal(err.errorCode, "SERVER_UNAVAILABLE");
+      assert.match(err.message, /Salesforce API error \(503\) on \/services\/apexrest\/barry\/cases: .*SERVER_UNAVAILABLE/);
+      return true;
+    });
+    assert.equal(sf.apexRequests("/cases").length, 3);
+  });
+
+  it("retries a 500 only when the call is idempotent", async () => {
+    const [account] = sf.accounts.values();
+    sf.injectFault("/cases", { kind: "status", status: 500 });
+    await assert.rejects(listCases(account.id), sfModule.SalesforceTransientError);
+    assert.equal(sf.apexRequests("/cases").length, 1);
+
+    sf.injectFault("/cases", { kind: "status", status: 500 });
+    const res = await listCases(account.id, { idempotent: true });
+    assert.equal(res.success, true);
+    assert.equal(sf.apexRequests("/cases").length, 3);
+  });
+
+  it("retries lock contention even on non-idempotent calls", async () => {
+    const [account] = sf.accounts.values();
+    sf.injectFault("/cases", { kind: "status", status: 400, body: [{ errorCode: "UNABLE_TO_LOCK_ROW" }] });
+
+    const res = await listCases(account.id);
+
+    assert.equal(res.success, true);
+    assert.equal(sf.apexRequests("/cases").length, 2);
+  });
+
+  it("classifies rate limits and validation errors", async () => {
+    const [account] = sf.accounts.values();
+    for (let i = 0; i < 3; i++) sf.injectFault("/cases", { kind: "status", status: 403, body: [{ errorCode: "REQUEST_LIMIT_EXCEEDED" }] });
+    await assert.rejects(listCases(account.id), sfModule.SalesforceRateLimitError);
+    assert.equal(sf.apexRequests("/cases").length, 3);
+    sfModule.salesforceCircuit().recordSuccess(); // three in a row opened it
+
+    sf.injectFault("/cases", { kind: "status", status: 400, body: [{ errorCode: "INVALID_FIELD" }] });
+    await assert.rejects(listCases(account.id, { idempotent: true }), sfModule.SalesforceValidationError);
+    assert.equal(sf.apexRequests("/cases").length, 4);
+  });
+
+  it("times out a hung request", async () => {
+    const [account] = sf.accounts.values();
+    sf.injectFault("/cases", { kind: "hang", ms: 500 });
+
+    await assert.rejects(listCases(account.id, { timeoutMs: 50, retries: 0 }), (err) => {
+      assert.ok(err instanceof sfModule.SalesforceTransientError);
+      assert.equal(err.status, null);
+      assert.match(err.message, /timed out after 50ms/);
+      return true;
+    });
+  });
+
+  it("opens the circuit after consecutive failures and refuses calls without reaching Salesforce", async () => {
+    const [account] = sf.accounts.values();
+    for (let i = 0; i < 3; i++) sf.injectFault("/cases", { kind: "status", status: 503 });
+    await assert.rejects(listCases(account.id), sfModule.SalesforceTransientError);
+    assert.equal(sfModule.salesforceCircuit().currentState, "open");
+
+    await assert.rejects(listCases(account.id), (err) => {
+      assert.ok(err instanceof sfModule.SalesforceCircuitOpenError);
+      assert.ok(err.retryAfterMs > 0);
+      return true;
+    });
+    assert.equal(sf.apexRequests("/cases").length, 3);
+  });
+
+  it("does not count validation errors against the circuit", async () => {
+    const [account] = sf.accounts.values();
+    for (let i = 0; i < 5; i++) {
+      sf.injectFault("/cases", { kind: "status", status: 400, body: [{ errorCode: "INVALID_FIELD" }] });
+      await assert.rejects(listCases(account.id), sfModule.SalesforceValidationError);
+    }
+    assert.equal(sfModule.salesforceCircuit().currentState, "closed");
+  });
+
+  it("records API usage from Sforce-Limit-Info", async () => {
+    const [account] = sf.accounts.values();
+    sf.apiUsage = { used: 4_200, max: 5_000 };
+
+    await listCases(account.id);
+
+    assert.deepEqual((await import("../sf-limits")).sfApiUsage().latest, { used: 4_201, max: 5_000 });
+  });
+
+  it("pings the limits endpoint", async () => {
+    await salesforce.ping();
+    assert.ok(sf.requests.some((r) => r.method === "GET" && r.path.endsWith("/limits")));
+  });
+
+  it("throws on a malformed JSON body", async () => {
+    const [account] = sf.accounts.values();
+    sf.injectFault("/cases", { kind: "malformed" });
+
+    await assert.rejects(listCases(account.id), SyntaxError);
+  });
+
+  it("surfaces token endpoint failures", async () => {
+    sf.injectFault("/services/oauth2/token", { kind: "status", status: 400, body: { error: "invalid_grant" } });
+
+    await assert.rejects(salesforce.forceRefresh(), (err) => {
+      assert.ok(err instanceof sfModule.SalesforceAuthError);
+      assert.match(err.message, /Salesforce token refresh failed \(400\).*invalid_grant/);
+      return true;
+    });
+  });
+});
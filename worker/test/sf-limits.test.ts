@@ -0,0 +1,88 @@
+// test/sf-limits.test.ts — Sforce-Limit-Info parsing, thresholds and low-priority throttling
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { ApiUsageTracker, parseLimitInfo, type SfLimitSettings } from "../sf-limits";
+
+const SETTINGS: SfLimitSettings = {
+  alertThresholds: [80, 90, 95],
+  throttlePercent: 90,
+  throttleIntervalMs: 30_000,
+  deferPercent: 95,
+  deferMs: 15 * 60_000,
+  alertChannel: null,
+};
+
+function tracker(settings: Partial<SfLimitSettings> = {}) {
+  const clock = { now: 0 };
+  const t = new ApiUsageTracker({ ...SETTINGS, ...settings }, () => clock.now);
+  const levels: [number, number][] = [];
+  t.onLevelChange((level, previous) => levels.push([level, previous]));
+  return { t, clock, levels };
+}
+
+describe("parseLimitInfo", () => {
+  it("reads the org-wide api-usage entry", () => {
+    assert.deepEqual(parseLimitInfo("api-usage=18/5000"), { used: 18, max: 5000 });
+    assert.deepEqual(parseLimitInfo("per-app-api-usage=17/250(appName=sample-app), api-usage=25/5000"), { used: 25, max: 5000 });
+  });
+
+  it("ignores missing or malformed headers", () => {
+    assert.equal(parseLimitInfo(null), null);
+    assert.equal(parseLimitInfo("per-app-api-usage=17/250(appName=sample-app)"), null);
+    assert.equal(parseLimitInfo("api-usage=18/0"), null);
+  });
+});
+
+describe("ApiUsageTracker", () => {
+  it("reports the highest threshold reached as usage rises and falls", () => {
+    const { t, levels } = tracker();
+    t.record({ used: 700, max: 1000 });
+    t.record({ used: 850, max: 1000 });
+    t.record({ used: 860, max: 1000 });
+    t.record({ used: 960, max: 1000 });
+    t.record({ used: 100, max: 1000 });
+
+    assert.deepEqual(levels, [[80, 0], [95, 80], [0, 95]]);
+    assert.equal(t.currentLevel, 0);
+  });
+
+  it("never holds back case creation", () => {
+    const { t } = tracker();
+    t.record({ used: 999, max: 1000 });
+    assert.equal(t.delayFor("create-case"), 0);
+  });
+
+  it("defers low-priority jobs past the defer threshold, but only throttles /view-cases", () => {
+    const { t, clock } = tracker();
+    t.record({ used: 950, max: 1000 });
+    assert.equal(t.delayFor("send-digest"), SETTINGS.deferMs);
+
+    assert.equal(t.delayFor("get-cases"), 0);
+    clock.now = 10_000;
+    assert.equal(t.delayFor("get-cases"), 20_000);
+  });
+
+  it("spaces low-priority jobs out past the throttle threshold", () => {
+    const { t, clock } = tracker();
+    t.record({ used: 920, max: 1000 });
+
+    assert.equal(t.delayFor("get-cases"), 0);
+    clock.now = 10_000;
+    assert.equal(t.delayFor("get-cases"), 20_000);
+    clock.now = 30_000;
+    assert.equal(t.delayFor("get-cases"), 0);
+  });
+
+  it("ignores a reading older than the defer window", () => {
+    const { t, clock } = tracker();
+    t.record({ used: 990, max: 1000 });
+    clock.now = SETTINGS.deferMs + 1;
+    assert.equal(t.delayFor("get-cases"), 0);
+  });
+
+  it("lets everything run when throttling and deferral are off", () => {
+    const { t } = tracker({ throttlePercent: 0, deferPercent: 0 });
+    t.record({ used: 1000, max: 1000 });
+    assert.equal(t.delayFor("get-cases"), 0);
+  });
+});
@@ -0,0 +1,38 @@
+// test/sla.test.ts — SLA targets and breach detection
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { detectBreaches, type SlaCase } from "../sla";
+
+const NOW = new Date("2024-01-01T12:00:00Z");
+const hoursAgo = (h: number) => new Date(NOW.getTime() - h * 3_600_000);
+const settings = { firstResponse: { High: 60, Medium: 240 }, timeInStatus: { High: 240, Medium: 1440 } };
+
+const slaCase = (overrides: Partial<SlaCase> = {}): SlaCase => ({
+  case_id: "500A", case_number: "00001234", channel_id: "C1", message_ts: "1.1",
+  status: "New", status_changed_at: null, priority: "High", created_at: hoursAgo(2), agent_replied: false,
+  ...overrides,
+});
+
+describe("detectBreaches", () => {
+  it("flags a New case with no agent reply past its first-response target", () => {
+    const [breach] = detectBreaches(slaCase(), settings, NOW);
+    assert.equal(breach.kind, "first_response");
+    assert.equal(breach.target_minutes, 60);
+    assert.deepEqual(breach.breached_at, hoursAgo(1));
+  });
+
+  it("stops the first-response clock once an agent has replied", () => {
+    assert.deepEqual(detectBreaches(slaCase({ agent_replied: true }), settings, NOW), []);
+  });
+
+  it("flags time in status from the last status change, falling back to Medium targets", () => {
+    const c = slaCase({ status: "In Progress", status_changed_at: hoursAgo(25), priority: "Low" });
+    const breaches = detectBreaches(c, settings, NOW);
+    assert.deepEqual(breaches.map((b) => [b.kind, b.target_minutes, b.since]), [["time_in_status", 1440, hoursAgo(25)]]);
+  });
+
+  it("pauses while the case is with the customer and ignores closed cases", () => {
+    assert.deepEqual(detectBreaches(slaCase({ status: "Waiting on Client", status_changed_at: hoursAgo(99) }), settings, NOW), []);
+    assert.deepEqual(detectBreaches(slaCase({ status: "Closed", created_at: hoursAgo(99) }), settings, NOW), []);
+  });
+});
@@ -0,0 +1,60 @@
+// test/validation-cache.test.ts — per-status TTLs and when a cached validate-user answer is reused
+import { afterEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  cacheVerdict,
+  validationCacheSettings,
+  type CachedValidation,
+  type ValidationCacheSettings,
+} from "../validation-cache";
+
+const SETTINGS: ValidationCacheSettings = {
+  ttlMs: { approved: 60 * 60_000, channel_not_linked: 60 * 60_000, no_entitlement: 0, contact_not_found: 0, pending_approval: 2 * 60_000 },
+  refreshPercent: 50,
+};
+
+function entry(fetchedMinutesAgo: number, ttlMinutes: number, email = "jane@acme.test"): CachedValidation {
+  const now = Date.parse("2026-03-02T12:00:00Z");
+  const fetched = now - fetchedMinutesAgo * 60_000;
+  return {
+    email,
+    result: { status: "approved", accountId: "001A", contactId: "003A" },
+    fetched_at: new Date(fetched),
+    expires_at: new Date(fetched + ttlMinutes * 60_000),
+  };
+}
+
+const NOW = new Date("2026-03-02T12:00:00Z");
+
+describe("validationCacheSettings", () => {
+  afterEach(() => {
+    delete process.env.VALIDATION_CACHE_TTL_MINUTES;
+  });
+
+  it("caches settled statuses longer than pending ones by default", () => {
+    const { ttlMs } = validationCacheSettings();
+    assert.ok(ttlMs.approved > ttlMs.pending_approval);
+    assert.ok(ttlMs.channel_not_linked > ttlMs.pending_approval);
+  });
+
+  it("overrides single statuses from the environment", () => {
+    process.env.VALIDATION_CACHE_TTL_MINUTES = "approved=15";
+    const { ttlMs } = validationCacheSettings();
+    assert.equal(ttlMs.approved, 15 * 60_000);
+    assert.equal(ttlMs.pending_approval, 2 * 60_000);
+  });
+});
+
+describe("cacheVerdict", () => {
+  it("misses without an entry, for another email, or once expired", () => {
+    assert.equal(cacheVerdict(null, "jane@acme.test", SETTINGS, NOW), "miss");
+    assert.equal(cacheVerdict(entry(5, 60, "old@acme.test"), "jane@acme.test", SETTINGS, NOW), "miss");
+    assert.equal(cacheVerdict(entry(60, 60), "jane@acme.test", SETTINGS, NOW), "miss");
+  });
+
+  it("is fresh early in its lifetime and stale past the refresh point", () => {
+    assert.equal(cacheVerdict(entry(10, 60), "jane@acme.test", SETTINGS, NOW), "fresh");
+    assert.equal(cacheVerdict(entry(30, 60), "jane@acme.test", SETTINGS, NOW), "stale");
+    assert.equal(cacheVerdict(entry(59, 60), "jane@acme.test", SETTINGS, NOW), "stale");
+  });
+});
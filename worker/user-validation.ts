@@ -0,0 +1,119 @@
+// user-validation.ts — validate-user through the Postgres cache (validation-cache.ts)
+//
+// Handlers call validateUser() instead of sfValidateUser(). A cached answer is
+// returned straight away; a stale one also queues refresh-validation, so the
+// next command sees Salesforce's current answer without waiting for it.
+// `fresh: true` always asks Salesforce (first-time verification, permission
+// checks) and stores what it says. The invalidate-validation job drops entries
+// when Salesforce or an admin knows they are out of date.
+import { sfValidateUser, type ValidateUserResponse } from "./apex";
+import { pool } from "./db";
+import type { JobContext } from "./jobs/types";
+import { log } from "./logger";
+import { enqueueFollowUp } from "./queue";
+import { cacheVerdict, validationCacheSettings, type CachedValidation } from "./validation-cache";
+
+export type ValidationKey = {
+  teamId: string;
+  channelId: string;
+  userId: string;
+  email: string;
+};
+
+// Every given field must match; `all` drops the whole cache.
+export type ValidationFilter = {
+  teamId?: string;
+  channelId?: string;
+  userId?: string;
+  email?: string;
+  accountId?: string;
+  all?: boolean;
+};
+
+function getErrorMessage(err: unknown): string {
+  if (err instanceof Error) return err.message;
+  return String(err);
+}
+
+// ── validate_user_cache ───────────────────────────────────────────────────────
+
+export async function getCachedValidation(key: Omit<ValidationKey, "email">): Promise<CachedValidation | null> {
+  const { rows } = await pool.query<CachedValidation>(
+    `SELECT email, result, fetched_at, expires_at FROM validate_user_cache
+     WHERE team_id = $1 AND channel_id = $2 AND slack_user_id = $3`,
+    [key.teamId, key.channelId, key.userId]
+  );
+  return rows[0] ?? null;
+}
+
+// Stores `result` for its status's TTL; a TTL of 0 removes the entry instead.
+export async function storeValidation(key: ValidationKey, result: ValidateUserResponse): Promise<void> {
+  const ttlMs = validationCacheSettings().ttlMs[result.status] ?? 0;
+  if (!ttlMs) {
+    await invalidateValidations({ teamId: key.teamId, channelId: key.channelId, userId: key.userId });
+    return;
+  }
+  await pool.query(
+    `INSERT INTO validate_user_cache (team_id, channel_id, slack_user_id, email, status, account_id, result, expires_at)
+     VALUES ($1, $2, $3, $4, $5, $6, $7, NOW() + make_interval(secs => $8))
+     ON CONFLICT (team_id, channel_id, slack_user_id) DO UPDATE SET
+       email = EXCLUDED.email, status = EXCLUDED.status, account_id = EXCLUDED.account_id,
+       result = EXCLUDED.result, fetched_at = NOW(), expires_at = EXCLUDED.expires_at`,
+    [key.teamId, key.channelId, key.userId, key.email, result.status, result.accountId ?? null, result, ttlMs / 1000]
+  );
+}
+
+// Returns how many entries were dropped. Refuses an empty filter rather than clearing everything by accident.
+export async function invalidateValidations(filter: ValidationFilter): Promise<number> {
+  const columns: [keyof ValidationFilter, string][] = [
+    ["teamId", "team_id"],
+    ["channelId", "channel_id"],
+    ["userId", "slack_user_id"],
+    ["email", "email"],
+    ["accountId", "account_id"],
+  ];
+  const params: string[] = [];
+  const where: string[] = [];
+  for (const [field, column] of columns) {
+    const value = filter[field];
+    if (typeof value !== "string") continue;
+    params.push(column === "email" ? value.toLowerCase() : value);
+    where.push(column === "email" ? `lower(email) = $${params.length}` : `${column} = $${params.length}`);
+  }
+  if (!where.length && !filter.all) throw new Error("invalidateValidations needs at least one filter (or all)");
+
+  const { rowCount } = await pool.query(
+    `DELETE FROM validate_user_cache${where.length ? ` WHERE ${where.join(" AND ")}` : ""}`,
+    params
+  );
+  return rowCount ?? 0;
+}
+
+// ── Cached lookup ─────────────────────────────────────────────────────────────
+
+export async function validateUser(ctx: JobContext, key: ValidationKey, opts: { fresh?: boolean } = {}): Promise<ValidateUserResponse> {
+  if (!opts.fresh) {
+    const entry = await getCachedValidation(key);
+    const verdict = cacheVerdict(entry, key.email, validationCacheSettings());
+    if (entry && verdict !== "miss") {
+      log.debug("validate-user served from cache", { status: entry.result.status, verdict });
+      if (verdict === "stale") {
+        // One refresh per key at a time. The ID is free again once the job
+        // completes or fails: a kept failed job would make BullMQ ignore every
+        // later add with the same ID.
+        await enqueueFollowUp(ctx, "refresh-validation", {
+          team_id: key.teamId, channel_id: key.channelId, user_id: key.userId, email: key.email,
+        }, {
+          jobId: `refresh-validation-${key.teamId}-${key.channelId}-${key.userId}`,
+          attempts: 1,
+          removeOnFail: true,
+        }).catch((err) => log.warn("Could not queue validate-user refresh", { error: getErrorMessage(err) }));
+      }
+      return entry.result;
+    }
+  }
+
+  const result = await sfValidateUser(key.teamId, key.channelId, key.email, key.userId);
+  await storeValidation(key, result);
+  return result;
+}
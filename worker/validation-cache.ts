@@ -0,0 +1,49 @@
+// validation-cache.ts — how long a validate-user answer can be reused, per status
+//
+// Channel links and contact approvals rarely change, so validate-user answers
+// are cached per team, channel and Slack user (user-validation.ts). Statuses
+// that are waiting on someone (pending approval, a missing contact) expire
+// quickly; the settled ones last longer. Past VALIDATION_CACHE_REFRESH_PERCENT
+// of its TTL an entry is still served, and a refresh-validation job fetches a
+// new one in the background.
+//
+// VALIDATION_CACHE_TTL_MINUTES overrides the defaults with "status=minutes"
+// entries; 0 stops a status from being cached.
+import type { ValidateUserResponse } from "./apex";
+import { parseConfig } from "./config";
+
+export type ValidationStatus = ValidateUserResponse["status"];
+
+export type ValidationCacheSettings = {
+  ttlMs: Record<ValidationStatus, number>;
+  refreshPercent: number;
+};
+
+export type CachedValidation = {
+  email: string;
+  result: ValidateUserResponse;
+  fetched_at: Date;
+  expires_at: Date;
+};
+
+// miss: ask Salesforce · fresh: use it · stale: use it and refresh in the background
+export type CacheVerdict = "miss" | "fresh" | "stale";
+
+// Defaults: approved and channel_not_linked 360 minutes, no_entitlement 60,
+// contact_not_found 5, pending_approval 2; VALIDATION_CACHE_REFRESH_PERCENT 50.
+export function validationCacheSettings(): ValidationCacheSettings {
+  return parseConfig(["validationCache"]).validationCache;
+}
+
+// An entry for another email (the user re-verified with a different address) is a miss.
+export function cacheVerdict(
+  entry: CachedValidation | null,
+  email: string,
+  settings: ValidationCacheSettings,
+  now = new Date()
+): CacheVerdict {
+  if (!entry || entry.email !== email || now >= entry.expires_at) return "miss";
+  const lifetime = entry.expires_at.getTime() - entry.fetched_at.getTime();
+  const refreshAt = entry.fetched_at.getTime() + (lifetime * settings.refreshPercent) / 100;
+  return now.getTime() >= refreshAt ? "stale" : "fresh";
+}
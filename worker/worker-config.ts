@@ -0,0 +1,16 @@
+// worker-config.ts — worker.ts imports this first, so every setting is checked before anything connects
+import "dotenv/config";
+import { ConfigError, loadConfig } from "./config";
+import { log } from "./logger";
+
+function load() {
+  try {
+    return loadConfig();
+  } catch (err) {
+    if (!(err instanceof ConfigError)) throw err;
+    log.error("Invalid configuration — not starting", { issues: err.issues });
+    process.exit(1);
+  }
+}
+
+export const config = load();